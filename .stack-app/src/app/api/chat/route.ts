@@ -1,18 +1,20 @@
 /**
  * POST /api/chat
  * 
- * Main chat endpoint with streaming support for both Claude and OpenAI models.
+ * Main chat endpoint with streaming support for every registered AI provider.
  * Supports code context for coding assistance.
  */
 
 import { NextRequest } from 'next/server';
-import { streamClaudeResponse, isAnthropicConfigured, getClaudeResponse } from '@/lib/ai/anthropic';
-import { streamOpenAIResponse, isOpenAIConfigured, getOpenAIResponse } from '@/lib/ai/openai';
-import { buildCodingPrompt } from '@/lib/ai/prompts';
-import { createAnthropicStream, createOpenAIStream, SSE_HEADERS } from '@/lib/ai/stream';
-import { validateChatRequest, isClaudeModel, isOpenAIModel } from '@/lib/validators/chat';
+import { getProviderForModel, resolveModel } from '@/lib/ai/registry';
+import { buildPromptForMode, DEFAULT_EXCERPT_OPTIONS } from '@/lib/ai/prompts';
+import { DEFAULT_MAX_TOKENS, fitToContextWindow, getReservedOutputTokens } from '@/lib/ai/context-budget';
+import { SSE_HEADERS } from '@/lib/ai/stream';
+import { validateChatRequest, hasImageInput, omitImages } from '@/lib/validators/chat';
 import { Errors, handleError } from '@/lib/errors';
 import { getNumericEnv } from '@/lib/utils';
+import { getPreset } from '../prompts/store';
+import type { ChatCompletionResponse } from '@/types/chat';
 
 /**
  * Simple in-memory rate limiter
@@ -84,63 +86,81 @@ export async function POST(request: NextRequest) {
       return Errors.validation(validation.error, JSON.stringify(validation.details)).toResponse();
     }
 
-    const { messages, model, codeContext, stream = true } = validation.data;
+    const { messages, model, mode = 'chat', presetId, codeContext, summary, stream = true } = validation.data;
 
     // Check if the required provider is configured
-    if (isClaudeModel(model) && !isAnthropicConfigured()) {
+    const provider = getProviderForModel(model);
+    if (!provider || !provider.isConfigured()) {
       return Errors.modelNotAvailable(model).toResponse();
     }
-    if (isOpenAIModel(model) && !isOpenAIConfigured()) {
+    const modelInfo = await resolveModel(model);
+    if (!modelInfo) {
       return Errors.modelNotAvailable(model).toResponse();
     }
+    if (!modelInfo.vision && hasImageInput(validation.data)) {
+      return Errors.modelLacksVision(model).toResponse();
+    }
 
-    // Build the system prompt with code context
-    const systemPrompt = buildCodingPrompt(codeContext);
-    const maxTokens = getNumericEnv('MAX_TOKENS', 4096);
+    // Build the system prompt for the task mode with code context. A preset
+    // deleted since the chat selected it falls back to the built-in prompt.
+    const preset = presetId ? getPreset(presetId) : undefined;
+    const maxTokens = getReservedOutputTokens(modelInfo, getNumericEnv('MAX_TOKENS', DEFAULT_MAX_TOKENS));
+
+    // Trim old turns and large code context to leave room for the reply
+    const fitted = fitToContextWindow({
+      messages: modelInfo.vision ? messages : omitImages(messages),
+      codeContext,
+      model: modelInfo,
+      reservedOutputTokens: maxTokens,
+      buildSystemPrompt: (contexts, excerpt) =>
+        buildPromptForMode(mode, contexts, { ...excerpt, basePrompt: preset?.content, conversationSummary: summary }),
+      excerpt: {
+        maxFullLines: getNumericEnv('CODE_CONTEXT_MAX_LINES', DEFAULT_EXCERPT_OPTIONS.maxFullLines),
+        windowLines: getNumericEnv('CODE_CONTEXT_WINDOW', DEFAULT_EXCERPT_OPTIONS.windowLines),
+      },
+    });
+    if (!fitted.usage.fits) {
+      return Errors.contextTooLarge(model, fitted.usage.inputTokens, fitted.usage.inputLimit).toResponse();
+    }
+    const contextHeaders = {
+      'X-Context-Input-Tokens': String(fitted.usage.inputTokens),
+      'X-Context-Input-Limit': String(fitted.usage.inputLimit),
+      'X-Context-Dropped-Messages': String(fitted.usage.droppedMessages),
+      'X-Context-Code-Trimmed': String(fitted.usage.codeContextTrimmed),
+    };
+
+    // Client disconnects (e.g. the Stop button) abort the upstream request
+    const providerRequest = {
+      messages: fitted.messages,
+      systemPrompt: fitted.systemPrompt,
+      model: modelInfo,
+      maxTokens,
+      signal: request.signal,
+    };
 
     // Handle streaming response
     if (stream) {
-      if (isClaudeModel(model)) {
-        const claudeStream = await streamClaudeResponse(messages, systemPrompt, maxTokens);
-        const readableStream = createAnthropicStream(claudeStream);
-        
-        return new Response(readableStream, {
-          headers: {
-            ...SSE_HEADERS,
-            'X-RateLimit-Limit': String(RATE_LIMIT),
-            'X-RateLimit-Remaining': String(rateLimit.remaining),
-          },
-        });
-      } else {
-        const openaiStream = await streamOpenAIResponse(messages, systemPrompt, model, maxTokens);
-        const readableStream = createOpenAIStream(openaiStream);
-        
-        return new Response(readableStream, {
-          headers: {
-            ...SSE_HEADERS,
-            'X-RateLimit-Limit': String(RATE_LIMIT),
-            'X-RateLimit-Remaining': String(rateLimit.remaining),
-          },
-        });
-      }
+      const readableStream = await provider.stream(providerRequest);
+
+      return new Response(readableStream, {
+        headers: {
+          ...SSE_HEADERS,
+          ...contextHeaders,
+          'X-RateLimit-Limit': String(RATE_LIMIT),
+          'X-RateLimit-Remaining': String(rateLimit.remaining),
+        },
+      });
     }
 
     // Handle non-streaming response
-    let content: string;
-    if (isClaudeModel(model)) {
-      content = await getClaudeResponse(messages, systemPrompt, maxTokens);
-    } else {
-      content = await getOpenAIResponse(messages, systemPrompt, model, maxTokens);
-    }
+    const result = await provider.complete(providerRequest);
+    const response: ChatCompletionResponse = { ...result, model };
 
     return Response.json(
-      {
-        content,
-        model,
-        finishReason: 'stop',
-      },
+      response,
       {
         headers: {
+          ...contextHeaders,
           'X-RateLimit-Limit': String(RATE_LIMIT),
           'X-RateLimit-Remaining': String(rateLimit.remaining),
         },
@@ -0,0 +1,26 @@
+/**
+ * POST /api/chats/[id]/restore - Take a chat out of the trash
+ *
+ * Responds with the restored session, unchanged from when it was deleted.
+ */
+
+import { NextRequest } from 'next/server';
+import { Errors, handleError } from '@/lib/errors';
+import { restoreChat } from '../../store';
+
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = restoreChat(id);
+    if (!session) {
+      return Errors.notFound('Chat in trash').toResponse();
+    }
+    return Response.json(session);
+  } catch (error) {
+    console.error('Chat restore error:', error);
+    return handleError(error).toResponse();
+  }
+}
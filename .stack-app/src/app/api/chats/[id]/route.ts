@@ -1,14 +1,26 @@
 /**
  * GET /api/chats/[id] - Get single chat session
  * PATCH /api/chats/[id] - Update chat session
- * DELETE /api/chats/[id] - Delete chat session
+ * DELETE /api/chats/[id] - Move chat session to the trash
+ *
+ * Chats in the trash answer 404 here; see /api/chats/trash and
+ * POST /api/chats/[id]/restore.
  */
 
 import { NextRequest } from 'next/server';
 import { ApiError, Errors, handleError } from '@/lib/errors';
-import { getChat, updateChat, deleteChat } from '../store';
+import { isSupportedModel } from '@/lib/ai/registry';
+import {
+  parseCodeFiles,
+  parseConversationSummary,
+  parseFolder,
+  parseMessages,
+  parseMessageTree,
+  parseTags,
+  parseTitleSource,
+} from '@/lib/validators/chat-history';
+import { getChat, updateChat, trashChat } from '../store';
 import type { UpdateChatBody } from '@/types/chat-history';
-import type { Message } from '@/types';
 
 function validateUpdateBody(body: unknown): UpdateChatBody {
   if (!body || typeof body !== 'object') {
@@ -25,48 +37,62 @@ function validateUpdateBody(body: unknown): UpdateChatBody {
     result.title = b.title.trim() || 'New Chat';
   }
 
-  if (b.messages !== undefined) {
-    if (!Array.isArray(b.messages)) {
-      throw Errors.validation('messages must be an array');
+  if (b.titleSource !== undefined) {
+    result.titleSource = parseTitleSource(b.titleSource);
+  }
+
+  if (b.model !== undefined) {
+    if (typeof b.model !== 'string' || !isSupportedModel(b.model)) {
+      throw Errors.validation('model must be a supported model ID');
     }
-    result.messages = (b.messages as unknown[]).map((m, i) => {
-      if (!m || typeof m !== 'object') {
-        throw Errors.validation(`messages[${i}] must be an object`);
-      }
-      const msg = m as Record<string, unknown>;
-      if (typeof msg.role !== 'string' || !['user', 'assistant', 'system'].includes(msg.role)) {
-        throw Errors.validation(`messages[${i}].role must be 'user', 'assistant', or 'system'`);
-      }
-      if (typeof msg.content !== 'string') {
-        throw Errors.validation(`messages[${i}].content must be a string`);
-      }
-      const out: Message = {
-        id: typeof msg.id === 'string' ? msg.id : `msg-${Date.now()}-${i}`,
-        role: msg.role as Message['role'],
-        content: msg.content,
-        timestamp: msg.timestamp
-          ? new Date(typeof msg.timestamp === 'string' ? msg.timestamp : Date.now())
-          : new Date(),
-      };
-      if (msg.codeContext && typeof msg.codeContext === 'object') {
-        out.codeContext = msg.codeContext as Message['codeContext'];
-      }
-      if (Array.isArray(msg.attachments) && msg.attachments.length > 0) {
-        out.attachments = msg.attachments.map((a: unknown) => {
-          if (!a || typeof a !== 'object') return null;
-          const att = a as Record<string, unknown>;
-          if (typeof att.type !== 'string' || !['image', 'file'].includes(att.type)) return null;
-          if (typeof att.name !== 'string' || typeof att.data !== 'string') return null;
-          return {
-            type: att.type as 'image' | 'file',
-            name: att.name,
-            data: att.data,
-            mimeType: typeof att.mimeType === 'string' ? att.mimeType : undefined,
-          };
-        }).filter(Boolean) as Message['attachments'];
+    result.model = b.model;
+  }
+
+  if (b.presetId !== undefined) {
+    if (b.presetId !== null && (typeof b.presetId !== 'string' || !b.presetId)) {
+      throw Errors.validation('presetId must be a non-empty string or null');
+    }
+    result.presetId = b.presetId;
+  }
+
+  if (b.autoSummarize !== undefined) {
+    if (typeof b.autoSummarize !== 'boolean') {
+      throw Errors.validation('autoSummarize must be a boolean');
+    }
+    result.autoSummarize = b.autoSummarize;
+  }
+
+  if (b.summary !== undefined) {
+    result.summary = b.summary === null ? null : parseConversationSummary(b.summary);
+  }
+
+  if (b.tags !== undefined) {
+    result.tags = parseTags(b.tags);
+  }
+
+  if (b.folder !== undefined) {
+    result.folder = parseFolder(b.folder);
+  }
+
+  for (const key of ['pinned', 'archived'] as const) {
+    if (b[key] !== undefined) {
+      if (typeof b[key] !== 'boolean') {
+        throw Errors.validation(`${key} must be a boolean`);
       }
-      return out;
-    });
+      result[key] = b[key] as boolean;
+    }
+  }
+
+  if (b.messages !== undefined) {
+    result.messages = parseMessages(b.messages);
+  }
+
+  if (b.tree !== undefined) {
+    result.tree = parseMessageTree(b.tree);
+  }
+
+  if (b.files !== undefined) {
+    result.files = parseCodeFiles(b.files);
   }
 
   return result;
@@ -128,11 +154,11 @@ export async function DELETE(
 ) {
   try {
     const { id } = await params;
-    const existed = deleteChat(id);
-    if (!existed) {
+    const trashed = trashChat(id);
+    if (!trashed) {
       return Errors.notFound('Chat').toResponse();
     }
-    return new Response(null, { status: 204 });
+    return Response.json(trashed);
   } catch (error) {
     console.error('Chat delete error:', error);
     return handleError(error).toResponse();
@@ -0,0 +1,41 @@
+/**
+ * GET /api/chats/[id]/similar?limit= - Chats about the same things, by
+ * embedding similarity (see EMBEDDING_PROVIDER)
+ */
+
+import { NextRequest } from 'next/server';
+import { ApiError, Errors, handleError } from '@/lib/errors';
+import { findSimilarChats } from '../../embeddings';
+import { getChat } from '../../store';
+
+const DEFAULT_LIMIT = 5;
+const MAX_LIMIT = 20;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    if (!getChat(id)) {
+      return Errors.notFound('Chat').toResponse();
+    }
+
+    let limit = DEFAULT_LIMIT;
+    const rawLimit = request.nextUrl.searchParams.get('limit');
+    if (rawLimit !== null) {
+      limit = Number(rawLimit);
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+        throw Errors.validation(`limit must be an integer from 1 to ${MAX_LIMIT}`);
+      }
+    }
+
+    return Response.json({ chats: await findSimilarChats(id, limit) });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
+    console.error('Similar chats error:', error);
+    return handleError(error).toResponse();
+  }
+}
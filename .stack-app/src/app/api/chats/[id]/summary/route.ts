@@ -0,0 +1,112 @@
+/**
+ * POST /api/chats/[id]/summary - Update the chat's summary of older turns
+ *
+ * Summarizes the messages on the active path that are older than the recent
+ * ones and not yet covered, extending the existing summary (or, with
+ * `rebuild`, starting over). Uses SUMMARY_MODEL when it is configured,
+ * otherwise the model in the body or the chat's model.
+ */
+
+import { NextRequest } from 'next/server';
+import { ApiError, Errors, handleError } from '@/lib/errors';
+import { findConfiguredModel, getProviderForModel, isSupportedModel, resolveModel } from '@/lib/ai/registry';
+import { summarizeMessages } from '@/lib/ai/summarize';
+import { findSummaryEnd, getSummarySplit } from '@/lib/conversation-summary';
+import { getChat, updateChat } from '../../store';
+
+interface SummaryRequestBody {
+  model?: string;
+  /** Ignore the existing summary, including user edits */
+  rebuild?: boolean;
+}
+
+function validateSummaryBody(body: unknown): SummaryRequestBody {
+  if (!body || typeof body !== 'object') {
+    throw Errors.validation('Request body must be an object');
+  }
+  const b = body as Record<string, unknown>;
+  const result: SummaryRequestBody = {};
+
+  if (b.model !== undefined) {
+    if (typeof b.model !== 'string' || !isSupportedModel(b.model)) {
+      throw Errors.validation('model must be a supported model ID');
+    }
+    result.model = b.model;
+  }
+
+  if (b.rebuild !== undefined) {
+    if (typeof b.rebuild !== 'boolean') {
+      throw Errors.validation('rebuild must be a boolean');
+    }
+    result.rebuild = b.rebuild;
+  }
+
+  return result;
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = getChat(id);
+    if (!session) {
+      return Errors.notFound('Chat').toResponse();
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return Errors.badRequest('Invalid JSON in request body').toResponse();
+    }
+    const { model, rebuild = false } = validateSummaryBody(body);
+
+    const path = session.messages;
+    const split = getSummarySplit(path);
+    const start = rebuild ? 0 : findSummaryEnd(path, session.summary) + 1;
+    if (start >= split) {
+      // Nothing older than the recent messages is left to summarize
+      return Response.json(session);
+    }
+
+    const modelId = findConfiguredModel([process.env.SUMMARY_MODEL, model, session.model]);
+    const provider = modelId ? getProviderForModel(modelId) : undefined;
+    const modelInfo = modelId ? await resolveModel(modelId) : undefined;
+    if (!provider || !modelInfo) {
+      return Errors.modelNotAvailable(model ?? session.model ?? 'for summaries').toResponse();
+    }
+
+    const content = await summarizeMessages({
+      provider,
+      model: modelInfo,
+      previousSummary: start > 0 ? session.summary?.content : undefined,
+      messages: path.slice(start, split),
+      signal: request.signal,
+    });
+    if (!content) {
+      return Errors.aiProviderError(provider.id, 'The model returned an empty summary').toResponse();
+    }
+
+    // Applied to the latest version of the chat, which may have changed meanwhile
+    const updated = updateChat(id, {
+      summary: {
+        content,
+        throughMessageId: path[split - 1].id,
+        messageCount: split,
+        updatedAt: new Date().toISOString(),
+      },
+    });
+    if (!updated) {
+      return Errors.notFound('Chat').toResponse();
+    }
+    return Response.json(updated);
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
+    console.error('Chat summary error:', error);
+    return handleError(error).toResponse();
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * POST /api/chats/[id]/title - Generate a title from the first exchange
+ *
+ * Uses TITLE_MODEL, or gpt-4o-mini, when configured, otherwise the model in
+ * the body or the chat's model. Titles the user set are left alone, also
+ * when they are renamed while the title is being generated.
+ */
+
+import { NextRequest } from 'next/server';
+import { ApiError, Errors, handleError } from '@/lib/errors';
+import { findConfiguredModel, getProviderForModel, isSupportedModel, resolveModel } from '@/lib/ai/registry';
+import { DEFAULT_TITLE_MODEL, generateChatTitle } from '@/lib/ai/titles';
+import { getChat, updateChat } from '../../store';
+
+function validateTitleBody(body: unknown): { model?: string } {
+  if (!body || typeof body !== 'object') {
+    throw Errors.validation('Request body must be an object');
+  }
+  const b = body as Record<string, unknown>;
+  if (b.model !== undefined && (typeof b.model !== 'string' || !isSupportedModel(b.model))) {
+    throw Errors.validation('model must be a supported model ID');
+  }
+  return { model: b.model as string | undefined };
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const session = getChat(id);
+    if (!session) {
+      return Errors.notFound('Chat').toResponse();
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return Errors.badRequest('Invalid JSON in request body').toResponse();
+    }
+    const { model } = validateTitleBody(body);
+
+    const question = session.messages.find((m) => m.role === 'user' && m.content.trim());
+    // Only placeholder titles are replaced; a chat is titled once
+    if ((session.titleSource ?? 'placeholder') !== 'placeholder' || !question) {
+      return Response.json(session);
+    }
+    const answer = session.messages.find((m) => m.role === 'assistant' && m.parentId === question.id);
+
+    const modelId = findConfiguredModel([process.env.TITLE_MODEL, DEFAULT_TITLE_MODEL, model, session.model]);
+    const provider = modelId ? getProviderForModel(modelId) : undefined;
+    const modelInfo = modelId ? await resolveModel(modelId) : undefined;
+    if (!provider || !modelInfo) {
+      return Errors.modelNotAvailable(model ?? session.model ?? 'for titles').toResponse();
+    }
+
+    const title = await generateChatTitle({
+      provider,
+      model: modelInfo,
+      question: question.content,
+      answer: answer?.content,
+      signal: request.signal,
+    });
+    if (!title) {
+      return Response.json(session);
+    }
+
+    const updated = updateChat(id, { title, titleSource: 'generated' });
+    if (!updated) {
+      return Errors.notFound('Chat').toResponse();
+    }
+    return Response.json(updated);
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
+    console.error('Chat title error:', error);
+    return handleError(error).toResponse();
+  }
+}
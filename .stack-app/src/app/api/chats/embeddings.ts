@@ -0,0 +1,253 @@
+/**
+ * Embedding index over chat sessions
+ *
+ * Every question on a chat's active path is embedded with the configured
+ * embedder (see lib/embeddings), and the chat as a whole is represented by
+ * the mean of its question vectors. Vectors are persisted next to the chat
+ * sessions through the same storage backend, and brought up to date before
+ * each query: only questions that were not embedded yet are sent to the
+ * embedder.
+ */
+
+import { createStorage, type RecordStorage } from '@/lib/storage';
+import { compactVector, cosineSimilarity, getEmbedder, meanVector, type Embedder } from '@/lib/embeddings';
+import { truncate } from '@/lib/utils';
+import { getChat, listChatSessions } from './store';
+import type { ChatSession, RelatedAnswer, SimilarChat } from '@/types/chat-history';
+
+const EMBEDDING_SCHEMA_VERSION = 1;
+
+/** Questions are embedded with the start of their answer for context */
+const MAX_ANSWER_CONTEXT_CHARS = 500;
+const MAX_QUESTION_CHARS = 4000;
+
+const SNIPPET_CHARS = 240;
+
+interface ExchangeEmbedding {
+  questionId: string;
+  answerId?: string;
+  vector: number[];
+}
+
+interface ChatEmbeddingRecord {
+  /** Chat ID */
+  id: string;
+  /** Embedder the vectors were made with (Embedder.id) */
+  embedder: string;
+  /** `updatedAt` of the session when it was embedded */
+  chatUpdatedAt: string;
+  /** Mean of the exchange vectors; null for chats without questions */
+  vector: number[] | null;
+  exchanges: ExchangeEmbedding[];
+}
+
+interface EmbeddingIndexState {
+  records: Map<string, ChatEmbeddingRecord>;
+  storage: RecordStorage<ChatEmbeddingRecord>;
+  /** Shared by concurrent queries so chats are only embedded once */
+  syncing?: Promise<void>;
+  /** Sync to run once `syncing` is done, for queries that arrived during it */
+  queued?: Promise<void>;
+}
+
+const globalForEmbeddings = globalThis as unknown as { chatEmbeddings?: EmbeddingIndexState };
+
+function getState(): EmbeddingIndexState {
+  if (!globalForEmbeddings.chatEmbeddings) {
+    const storage = createStorage<ChatEmbeddingRecord>({
+      name: 'chat-embeddings',
+      schemaVersion: EMBEDDING_SCHEMA_VERSION,
+    });
+    const records = new Map(storage.load().map((record) => [record.id, record]));
+    globalForEmbeddings.chatEmbeddings = { records, storage };
+  }
+  return globalForEmbeddings.chatEmbeddings;
+}
+
+interface Exchange {
+  questionId: string;
+  answerId?: string;
+  text: string;
+}
+
+/**
+ * Questions on the active path with the reply that follows each
+ */
+function getExchanges(session: ChatSession): Exchange[] {
+  const exchanges: Exchange[] = [];
+  session.messages.forEach((message, i) => {
+    if (message.role !== 'user' || !message.content.trim()) return;
+    const next = session.messages[i + 1];
+    const answer = next?.role === 'assistant' ? next : undefined;
+    let text = message.content.slice(0, MAX_QUESTION_CHARS);
+    if (answer) text += `\n\n${answer.content.slice(0, MAX_ANSWER_CONTEXT_CHARS)}`;
+    exchanges.push({ questionId: message.id, answerId: answer?.id, text });
+  });
+  return exchanges;
+}
+
+async function embedChats(
+  embedder: Embedder,
+  sessions: ChatSession[],
+  previous: Map<string, ChatEmbeddingRecord>
+): Promise<ChatEmbeddingRecord[]> {
+  const pending: { exchange: Exchange; target: ExchangeEmbedding }[] = [];
+  const records = sessions.map((session) => {
+    const old = previous.get(session.id);
+    const reusable = old?.embedder === embedder.id ? old.exchanges : [];
+    const exchanges = getExchanges(session).map((exchange) => {
+      const existing = reusable.find(
+        (e) => e.questionId === exchange.questionId && e.answerId === exchange.answerId
+      );
+      if (existing) return existing;
+      const target: ExchangeEmbedding = { questionId: exchange.questionId, answerId: exchange.answerId, vector: [] };
+      pending.push({ exchange, target });
+      return target;
+    });
+    return { session, exchanges };
+  });
+
+  if (pending.length > 0) {
+    const vectors = await embedder.embed(pending.map((p) => p.exchange.text));
+    pending.forEach((p, i) => {
+      p.target.vector = compactVector(vectors[i]);
+    });
+  }
+
+  return records.map(({ session, exchanges }) => {
+    const mean = meanVector(exchanges.map((e) => e.vector));
+    return {
+      id: session.id,
+      embedder: embedder.id,
+      chatUpdatedAt: session.updatedAt,
+      vector: mean && compactVector(mean),
+      exchanges,
+    };
+  });
+}
+
+/**
+ * Embed chats that changed since they were last embedded and drop the
+ * vectors of deleted chats
+ */
+async function runSync(state: EmbeddingIndexState): Promise<void> {
+  const embedder = getEmbedder();
+  const sessions = listChatSessions();
+  const live = new Set(sessions.map((s) => s.id));
+
+  state.records.forEach((_, id) => {
+    if (!live.has(id)) {
+      state.storage.remove(id);
+      state.records.delete(id);
+    }
+  });
+
+  const stale = sessions.filter((session) => {
+    const record = state.records.get(session.id);
+    return !record || record.embedder !== embedder.id || record.chatUpdatedAt !== session.updatedAt;
+  });
+  for (const record of await embedChats(embedder, stale, state.records)) {
+    state.storage.put(record);
+    state.records.set(record.id, record);
+  }
+}
+
+/**
+ * Bring the index up to date with every chat saved before this call. A sync
+ * already in flight may have read the chats before the latest save, so
+ * calls arriving during it share one more sync that starts when it ends.
+ */
+function syncEmbeddings(): Promise<void> {
+  const state = getState();
+  if (!state.syncing) {
+    state.syncing = runSync(state).finally(() => {
+      state.syncing = undefined;
+    });
+    return state.syncing;
+  }
+  if (!state.queued) {
+    state.queued = state.syncing
+      .catch(() => undefined)
+      .then(() => {
+        state.queued = undefined;
+        return syncEmbeddings();
+      });
+  }
+  return state.queued;
+}
+
+function snippet(text: string): string {
+  return truncate(text.replace(/\s+/g, ' ').trim(), SNIPPET_CHARS);
+}
+
+/**
+ * Chats about the same things as `chatId`, most similar first
+ */
+export async function findSimilarChats(chatId: string, limit: number): Promise<SimilarChat[]> {
+  await syncEmbeddings();
+  const { records } = getState();
+  const target = records.get(chatId)?.vector;
+  if (!target) return [];
+  const { minSimilarity } = getEmbedder();
+
+  const results: SimilarChat[] = [];
+  records.forEach((record, id) => {
+    if (id === chatId || !record.vector) return;
+    const score = cosineSimilarity(target, record.vector);
+    const session = getChat(id);
+    if (session && score >= minSimilarity) {
+      results.push({ id, title: session.title, updatedAt: session.updatedAt, score: Math.round(score * 1000) / 1000 });
+    }
+  });
+  return results.sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+export interface RelatedAnswerOptions {
+  /** Chat being composed in; its own answers are left out */
+  excludeChatId?: string;
+  limit: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Answers to past questions that resemble `text`, best match first, at
+ * most one per chat
+ */
+export async function findRelatedAnswers(
+  text: string,
+  { excludeChatId, limit, signal }: RelatedAnswerOptions
+): Promise<RelatedAnswer[]> {
+  await syncEmbeddings();
+  const embedder = getEmbedder();
+  const [query] = await embedder.embed([text.slice(0, MAX_QUESTION_CHARS)], signal);
+
+  const best = new Map<string, { exchange: ExchangeEmbedding; score: number }>();
+  getState().records.forEach((record, chatId) => {
+    if (chatId === excludeChatId || record.embedder !== embedder.id) return;
+    for (const exchange of record.exchanges) {
+      if (!exchange.answerId) continue;
+      const score = cosineSimilarity(query, exchange.vector);
+      if (score >= embedder.minSimilarity && score > (best.get(chatId)?.score ?? -1)) {
+        best.set(chatId, { exchange, score });
+      }
+    }
+  });
+
+  const results: RelatedAnswer[] = [];
+  best.forEach(({ exchange, score }, chatId) => {
+    const session = getChat(chatId);
+    const question = session?.tree.nodes.find((m) => m.id === exchange.questionId);
+    const answer = session?.tree.nodes.find((m) => m.id === exchange.answerId);
+    if (!session || !question || !answer) return;
+    results.push({
+      chatId,
+      chatTitle: session.title,
+      questionId: question.id,
+      question: snippet(question.content),
+      answerId: answer.id,
+      answer: snippet(answer.content),
+      score: Math.round(score * 1000) / 1000,
+    });
+  });
+  return results.sort((a, b) => b.score - a.score).slice(0, limit);
+}
@@ -0,0 +1,21 @@
+/**
+ * GET /api/chats/labels - Folders and tags in use, with chat counts
+ *
+ * Archived chats are not counted, so the lists match the folders and
+ * tags the chat list can be filtered by.
+ */
+
+import { handleError } from '@/lib/errors';
+import { listChatLabels } from '../store';
+
+// Counts change with every write, so never pre-render them at build time
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    return Response.json(listChatLabels());
+  } catch (error) {
+    console.error('Chat labels error:', error);
+    return handleError(error).toResponse();
+  }
+}
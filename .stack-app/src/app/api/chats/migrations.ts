@@ -0,0 +1,60 @@
+/**
+ * ChatSession schema migrations
+ *
+ * Bump CHAT_SCHEMA_VERSION whenever a persisted ChatSession field is added,
+ * renamed or reshaped, and register a step that upgrades a session from the
+ * previous version. Steps run in order on load until the record is current.
+ */
+
+import { createMessageTree } from '@/lib/message-tree';
+import type { Message } from '@/types';
+import type { ChatSession } from '@/types/chat-history';
+
+export const CHAT_SCHEMA_VERSION = 4;
+
+type MigrationStep = (session: Record<string, unknown>) => Record<string, unknown>;
+
+function toCodeContextList(message: Record<string, unknown>): Record<string, unknown> {
+  const { codeContext, ...rest } = message;
+  return codeContext ? { ...rest, codeContexts: [codeContext] } : rest;
+}
+
+/**
+ * Keyed by the version a step upgrades *to*
+ */
+const MIGRATIONS: Record<number, MigrationStep> = {
+  // v2: branching conversations; existing history becomes a single branch
+  2: (session) => ({
+    ...session,
+    tree: createMessageTree((session.messages as Message[] | undefined) ?? []),
+  }),
+  // v3: code panel files pinned per chat
+  3: (session) => ({ ...session, files: [] }),
+  // v4: messages carry a list of code contexts instead of a single one
+  4: (session) => {
+    const tree = session.tree as { nodes: Record<string, unknown>[] };
+    return {
+      ...session,
+      messages: ((session.messages as Record<string, unknown>[] | undefined) ?? []).map(toCodeContextList),
+      tree: { ...tree, nodes: tree.nodes.map(toCodeContextList) },
+    };
+  },
+};
+
+export function migrateChatSession(raw: unknown, fromVersion: number): ChatSession {
+  if (fromVersion > CHAT_SCHEMA_VERSION) {
+    throw new Error(
+      `Chat session schema v${fromVersion} is newer than supported v${CHAT_SCHEMA_VERSION}`
+    );
+  }
+
+  let session = raw as Record<string, unknown>;
+  for (let version = fromVersion + 1; version <= CHAT_SCHEMA_VERSION; version++) {
+    const step = MIGRATIONS[version];
+    if (!step) {
+      throw new Error(`Missing chat session migration to v${version}`);
+    }
+    session = step(session);
+  }
+  return session as unknown as ChatSession;
+}
@@ -0,0 +1,70 @@
+/**
+ * POST /api/chats/related - Past answers to questions like the one being
+ * written, by embedding similarity (see EMBEDDING_PROVIDER)
+ */
+
+import { NextRequest } from 'next/server';
+import { ApiError, Errors, handleError } from '@/lib/errors';
+import { findRelatedAnswers } from '../embeddings';
+
+const MAX_TEXT_LENGTH = 20000;
+const DEFAULT_LIMIT = 3;
+const MAX_LIMIT = 10;
+
+interface RelatedRequestBody {
+  text: string;
+  excludeChatId?: string;
+  limit: number;
+}
+
+function validateRelatedBody(body: unknown): RelatedRequestBody {
+  if (!body || typeof body !== 'object') {
+    throw Errors.validation('Request body must be an object');
+  }
+  const b = body as Record<string, unknown>;
+
+  if (typeof b.text !== 'string' || !b.text.trim()) {
+    throw Errors.validation('text must be a non-empty string');
+  }
+  if (b.text.length > MAX_TEXT_LENGTH) {
+    throw Errors.validation(`text must be at most ${MAX_TEXT_LENGTH} characters`);
+  }
+  const result: RelatedRequestBody = { text: b.text, limit: DEFAULT_LIMIT };
+
+  if (b.excludeChatId !== undefined) {
+    if (typeof b.excludeChatId !== 'string') {
+      throw Errors.validation('excludeChatId must be a string');
+    }
+    result.excludeChatId = b.excludeChatId;
+  }
+
+  if (b.limit !== undefined) {
+    if (typeof b.limit !== 'number' || !Number.isInteger(b.limit) || b.limit < 1 || b.limit > MAX_LIMIT) {
+      throw Errors.validation(`limit must be an integer from 1 to ${MAX_LIMIT}`);
+    }
+    result.limit = b.limit;
+  }
+
+  return result;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return Errors.badRequest('Invalid JSON in request body').toResponse();
+    }
+    const { text, excludeChatId, limit } = validateRelatedBody(body);
+
+    const answers = await findRelatedAnswers(text, { excludeChatId, limit, signal: request.signal });
+    return Response.json({ answers });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
+    console.error('Related answers error:', error);
+    return handleError(error).toResponse();
+  }
+}
@@ -1,13 +1,109 @@
 /**
- * GET /api/chats - List all chat sessions
+ * GET /api/chats - List chat sessions, a page at a time
  * POST /api/chats - Create new chat session
+ *
+ * GET takes `sort` (updated, created or title), `order` (asc or desc),
+ * the filters `from`, `to`, `model`, `tag`, `folder`, `hasCodeContext` and
+ * `archived`, and `limit` and `cursor` for paging (see ChatListQuery).
+ * Pinned chats come first.
  */
 
 import { NextRequest } from 'next/server';
 import { ApiError, Errors, handleError } from '@/lib/errors';
-import { listChats, createChat } from './store';
-import type { CreateChatBody } from '@/types/chat-history';
-import type { Message } from '@/types';
+import { isSupportedModel } from '@/lib/ai/registry';
+import {
+  normalizeTag,
+  parseCodeFiles,
+  parseFolder,
+  parseMessages,
+  parseMessageTree,
+  parseTags,
+  parseTitleSource,
+} from '@/lib/validators/chat-history';
+import { CHAT_SORT_FIELDS, decodeCursor } from '@/lib/chat-list';
+import { listChats, createChat, type ListChatsOptions } from './store';
+import type { ChatListQuery, ChatSortField, CreateChatBody } from '@/types/chat-history';
+
+// The list changes with every write, so never pre-render it at build time
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+function parseDateParam(params: URLSearchParams, name: string): string | undefined {
+  const value = params.get(name);
+  if (value === null) return undefined;
+  const date = new Date(value);
+  if (!value || Number.isNaN(date.getTime())) {
+    throw Errors.validation(`${name} must be an ISO 8601 date`);
+  }
+  return date.toISOString();
+}
+
+function parseBooleanParam(params: URLSearchParams, name: string): boolean | undefined {
+  const value = params.get(name);
+  if (value === null) return undefined;
+  if (value !== 'true' && value !== 'false') {
+    throw Errors.validation(`${name} must be 'true' or 'false'`);
+  }
+  return value === 'true';
+}
+
+function validateListParams(params: URLSearchParams): { query: ChatListQuery; options: ListChatsOptions } {
+  const query: ChatListQuery = {};
+
+  const sort = params.get('sort');
+  if (sort !== null) {
+    if (!CHAT_SORT_FIELDS.includes(sort as ChatSortField)) {
+      throw Errors.validation(`sort must be one of: ${CHAT_SORT_FIELDS.join(', ')}`);
+    }
+    query.sort = sort as ChatSortField;
+  }
+
+  const order = params.get('order');
+  if (order !== null) {
+    if (order !== 'asc' && order !== 'desc') {
+      throw Errors.validation("order must be 'asc' or 'desc'");
+    }
+    query.order = order;
+  }
+
+  query.from = parseDateParam(params, 'from');
+  query.to = parseDateParam(params, 'to');
+
+  const model = params.get('model');
+  if (model) query.model = model;
+
+  const tag = normalizeTag(params.get('tag') ?? '');
+  if (tag) query.tag = tag;
+
+  const folder = params.get('folder');
+  if (folder) query.folder = parseFolder(folder) ?? undefined;
+
+  query.hasCodeContext = parseBooleanParam(params, 'hasCodeContext');
+  query.archived = parseBooleanParam(params, 'archived');
+
+  const options: ListChatsOptions = { limit: DEFAULT_PAGE_SIZE };
+
+  const limit = params.get('limit');
+  if (limit !== null) {
+    options.limit = Number(limit);
+    if (!Number.isInteger(options.limit) || options.limit < 1 || options.limit > MAX_PAGE_SIZE) {
+      throw Errors.validation(`limit must be an integer from 1 to ${MAX_PAGE_SIZE}`);
+    }
+  }
+
+  const cursor = params.get('cursor');
+  if (cursor !== null) {
+    const decoded = decodeCursor(cursor);
+    if (!decoded) {
+      throw Errors.validation('cursor is invalid');
+    }
+    options.cursor = decoded;
+  }
+
+  return { query, options };
+}
 
 function validateCreateBody(body: unknown): CreateChatBody {
   if (!body || typeof body !== 'object') {
@@ -24,58 +120,55 @@ function validateCreateBody(body: unknown): CreateChatBody {
     result.title = b.title.trim() || 'New Chat';
   }
 
-  if (b.messages !== undefined) {
-    if (!Array.isArray(b.messages)) {
-      throw Errors.validation('messages must be an array');
+  if (b.titleSource !== undefined) {
+    result.titleSource = parseTitleSource(b.titleSource);
+  }
+
+  if (b.model !== undefined) {
+    if (typeof b.model !== 'string' || !isSupportedModel(b.model)) {
+      throw Errors.validation('model must be a supported model ID');
+    }
+    result.model = b.model;
+  }
+
+  if (b.presetId !== undefined) {
+    if (typeof b.presetId !== 'string' || !b.presetId) {
+      throw Errors.validation('presetId must be a non-empty string');
     }
-    result.messages = (b.messages as unknown[]).map((m, i) => {
-      if (!m || typeof m !== 'object') {
-        throw Errors.validation(`messages[${i}] must be an object`);
-      }
-      const msg = m as Record<string, unknown>;
-      if (typeof msg.role !== 'string' || !['user', 'assistant', 'system'].includes(msg.role)) {
-        throw Errors.validation(`messages[${i}].role must be 'user', 'assistant', or 'system'`);
-      }
-      if (typeof msg.content !== 'string') {
-        throw Errors.validation(`messages[${i}].content must be a string`);
-      }
-      const out: Message = {
-        id: typeof msg.id === 'string' ? msg.id : `msg-${Date.now()}-${i}`,
-        role: msg.role as Message['role'],
-        content: msg.content,
-        timestamp: msg.timestamp
-          ? new Date(typeof msg.timestamp === 'string' ? msg.timestamp : Date.now())
-          : new Date(),
-      };
-      if (msg.codeContext && typeof msg.codeContext === 'object') {
-        out.codeContext = msg.codeContext as Message['codeContext'];
-      }
-      if (Array.isArray(msg.attachments) && msg.attachments.length > 0) {
-        out.attachments = msg.attachments.map((a: unknown) => {
-          if (!a || typeof a !== 'object') return null;
-          const att = a as Record<string, unknown>;
-          if (typeof att.type !== 'string' || !['image', 'file'].includes(att.type)) return null;
-          if (typeof att.name !== 'string' || typeof att.data !== 'string') return null;
-          return {
-            type: att.type as 'image' | 'file',
-            name: att.name,
-            data: att.data,
-            mimeType: typeof att.mimeType === 'string' ? att.mimeType : undefined,
-          };
-        }).filter(Boolean) as Message['attachments'];
-      }
-      return out;
-    });
+    result.presetId = b.presetId;
+  }
+
+  if (b.tags !== undefined) {
+    result.tags = parseTags(b.tags);
+  }
+
+  if (b.folder !== undefined) {
+    result.folder = parseFolder(b.folder) ?? undefined;
+  }
+
+  if (b.messages !== undefined) {
+    result.messages = parseMessages(b.messages);
+  }
+
+  if (b.tree !== undefined) {
+    result.tree = parseMessageTree(b.tree);
+  }
+
+  if (b.files !== undefined) {
+    result.files = parseCodeFiles(b.files);
   }
 
   return result;
 }
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    const chats = listChats();
-    return Response.json({ chats });
+    const { query, options } = validateListParams(request.nextUrl.searchParams);
+    return Response.json(listChats(query, options));
   } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
     console.error('Chats list error:', error);
     return handleError(error).toResponse();
   }
@@ -0,0 +1,50 @@
+/**
+ * GET /api/chats/search?q=&limit= - Search titles, messages and file names
+ * across all chats
+ *
+ * Hits are ranked best first, with at most a few per chat. Every word of
+ * `q` has to appear in the chat; the last one also matches as a prefix.
+ */
+
+import { NextRequest } from 'next/server';
+import { ApiError, Errors, handleError } from '@/lib/errors';
+import { searchChats } from '../store';
+import type { ChatSearchResponse } from '@/types/chat-history';
+
+// Depends on the query string, so never pre-rendered at build time
+export const dynamic = 'force-dynamic';
+
+const MAX_QUERY_LENGTH = 200;
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const query = (params.get('q') ?? '').trim();
+    if (query.length > MAX_QUERY_LENGTH) {
+      throw Errors.validation(`q must be at most ${MAX_QUERY_LENGTH} characters`);
+    }
+
+    let limit = DEFAULT_LIMIT;
+    const rawLimit = params.get('limit');
+    if (rawLimit !== null) {
+      limit = Number(rawLimit);
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+        throw Errors.validation(`limit must be an integer from 1 to ${MAX_LIMIT}`);
+      }
+    }
+
+    const response: ChatSearchResponse = {
+      query,
+      hits: query ? searchChats(query, limit) : [],
+    };
+    return Response.json(response);
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
+    console.error('Chat search error:', error);
+    return handleError(error).toResponse();
+  }
+}
@@ -1,65 +1,287 @@
 /**
- * In-memory chat session store
- * MVP: data is lost on server restart. Migrate to DB for production.
+ * Chat session store
+ * Sessions are cached in memory and persisted through the configured
+ * storage backend (see STORAGE_BACKEND in lib/storage).
+ *
+ * Deleted chats go to a trash first: they keep their record, marked with
+ * `deletedAt`, but are left out of everything except the trash until they
+ * are restored or purged. Chats older than the retention period are purged
+ * when the store loads and then every hour.
  */
 
 import { randomUUID } from 'crypto';
-import type { ChatSession, ChatListItem, CreateChatBody, UpdateChatBody } from '@/types/chat-history';
+import { createStorage, type RecordStorage } from '@/lib/storage';
+import { getNumericEnv } from '@/lib/utils';
+import { createChatSearchIndex, type ChatSearchIndex } from '@/lib/chat-search';
+import { createMessageTree, getActivePath } from '@/lib/message-tree';
+import {
+  compareChatListItems,
+  encodeCursor,
+  getCursor,
+  isAfterCursor,
+  matchesChatListQuery,
+  toChatListItem,
+} from '@/lib/chat-list';
+import { CHAT_SCHEMA_VERSION, migrateChatSession } from './migrations';
+import type {
+  ChatSession,
+  ChatLabelCount,
+  ChatLabelsResponse,
+  ChatListCursor,
+  ChatListQuery,
+  ChatListResponse,
+  ChatSearchHit,
+  CreateChatBody,
+  TrashedChat,
+  UpdateChatBody,
+} from '@/types/chat-history';
 
-const store = new Map<string, ChatSession>();
+export const TRASH_RETENTION_DAYS = getNumericEnv('TRASH_RETENTION_DAYS', 30);
 
-function toListItem(session: ChatSession): ChatListItem {
-  return {
-    id: session.id,
-    title: session.title,
-    createdAt: session.createdAt,
-    updatedAt: session.updatedAt,
-    messageCount: session.messages.length,
-  };
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+interface ChatStoreState {
+  /** Every chat, including those in the trash */
+  sessions: Map<string, ChatSession>;
+  storage: RecordStorage<ChatSession>;
+  /** Built on the first search, then kept up to date by every write */
+  searchIndex?: ChatSearchIndex;
+  purgeTimer?: ReturnType<typeof setInterval>;
+}
+
+// Route handlers are bundled separately, so share one store per process
+const globalForStore = globalThis as unknown as { chatStore?: ChatStoreState };
+
+function getState(): ChatStoreState {
+  if (!globalForStore.chatStore) {
+    const storage = createStorage<ChatSession>({
+      name: 'chats',
+      schemaVersion: CHAT_SCHEMA_VERSION,
+      migrate: migrateChatSession,
+    });
+    const sessions = new Map(storage.load().map((session) => [session.id, session]));
+    const state: ChatStoreState = { sessions, storage };
+    globalForStore.chatStore = state;
+    purgeExpiredChats();
+    state.purgeTimer = setInterval(purgeExpiredChats, PURGE_INTERVAL_MS);
+    // The schedule alone should not keep the process alive
+    state.purgeTimer.unref?.();
+  }
+  return globalForStore.chatStore;
 }
 
 function now(): string {
   return new Date().toISOString();
 }
 
-export function listChats(): ChatListItem[] {
-  return Array.from(store.values())
-    .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime())
-    .map(toListItem);
+function isInTrash(session: ChatSession): boolean {
+  return session.deletedAt !== undefined;
+}
+
+function getPurgeTime(session: ChatSession): number {
+  return new Date(session.deletedAt!).getTime() + TRASH_RETENTION_DAYS * DAY_MS;
+}
+
+function toTrashedChat(session: ChatSession): TrashedChat {
+  return {
+    ...toChatListItem(session),
+    deletedAt: session.deletedAt!,
+    purgeAt: new Date(getPurgeTime(session)).toISOString(),
+  };
+}
+
+function save(session: ChatSession): void {
+  const { sessions, storage, searchIndex } = getState();
+  storage.put(session);
+  sessions.set(session.id, session);
+  searchIndex?.add(session);
+}
+
+export interface ListChatsOptions {
+  /** Continue after this position (see ChatListResponse.nextCursor) */
+  cursor?: ChatListCursor;
+  limit: number;
+}
+
+/**
+ * One page of the chat list, sorted and filtered by `query`
+ */
+export function listChats(query: ChatListQuery, { cursor, limit }: ListChatsOptions): ChatListResponse {
+  const matching = listChatSessions()
+    .map(toChatListItem)
+    .filter((item) => matchesChatListQuery(item, query))
+    .sort((a, b) => compareChatListItems(a, b, query));
+
+  const rest = cursor ? matching.filter((item) => isAfterCursor(item, cursor, query)) : matching;
+  const chats = rest.slice(0, limit);
+  const last = chats[chats.length - 1];
+  return {
+    chats,
+    nextCursor: rest.length > limit && last ? encodeCursor(getCursor(last, query.sort)) : null,
+    total: matching.length,
+  };
+}
+
+function countLabels(names: string[]): ChatLabelCount[] {
+  const counts = new Map<string, number>();
+  names.forEach((name) => counts.set(name, (counts.get(name) ?? 0) + 1));
+  return Array.from(counts, ([name, count]) => ({ name, count })).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Folders and tags in use by chats that are not archived
+ */
+export function listChatLabels(): ChatLabelsResponse {
+  const active = listChatSessions().filter((s) => !s.archived);
+  return {
+    folders: countLabels(active.flatMap((s) => (s.folder ? [s.folder] : []))),
+    tags: countLabels(active.flatMap((s) => s.tags ?? [])),
+  };
+}
+
+/**
+ * Every session not in the trash, in no particular order
+ */
+export function listChatSessions(): ChatSession[] {
+  return Array.from(getState().sessions.values()).filter((session) => !isInTrash(session));
 }
 
+/**
+ * A chat by ID, unless it is in the trash
+ */
 export function getChat(id: string): ChatSession | undefined {
-  return store.get(id);
+  const session = getState().sessions.get(id);
+  return session && !isInTrash(session) ? session : undefined;
 }
 
 export function createChat(body: CreateChatBody = {}): ChatSession {
   const id = randomUUID();
   const ts = now();
+  const tree = body.tree ?? createMessageTree(body.messages);
   const session: ChatSession = {
     id,
     title: body.title ?? 'New Chat',
-    messages: body.messages ?? [],
+    ...(body.title !== undefined && { titleSource: body.titleSource ?? 'manual' }),
+    messages: getActivePath(tree),
+    tree,
+    files: body.files ?? [],
+    ...(body.model !== undefined && { model: body.model }),
+    ...(body.presetId !== undefined && { presetId: body.presetId }),
+    ...(body.tags?.length && { tags: body.tags }),
+    ...(body.folder && { folder: body.folder }),
     createdAt: ts,
     updatedAt: ts,
   };
-  store.set(id, session);
+  save(session);
   return session;
 }
 
+/** Fields that file a chat away without changing the conversation */
+const ORGANIZING_FIELDS: readonly (keyof UpdateChatBody)[] = ['tags', 'folder', 'pinned', 'archived'];
+
 export function updateChat(id: string, body: UpdateChatBody): ChatSession | undefined {
-  const existing = store.get(id);
+  const existing = getChat(id);
   if (!existing) return undefined;
 
+  const tree = body.tree ?? (body.messages !== undefined ? createMessageTree(body.messages) : undefined);
+  // Placeholder and generated titles never replace one the user chose
+  const titleSource = body.titleSource ?? 'manual';
+  const setTitle = body.title !== undefined && (titleSource === 'manual' || existing.titleSource !== 'manual');
   const session: ChatSession = {
     ...existing,
-    ...(body.title !== undefined && { title: body.title }),
-    ...(body.messages !== undefined && { messages: body.messages }),
-    updatedAt: now(),
+    ...(setTitle && { title: body.title, titleSource }),
+    ...(tree !== undefined && { tree, messages: getActivePath(tree) }),
+    ...(body.files !== undefined && { files: body.files }),
+    ...(body.model !== undefined && { model: body.model }),
+    ...(body.presetId !== undefined && { presetId: body.presetId ?? undefined }),
+    ...(body.autoSummarize !== undefined && { autoSummarize: body.autoSummarize }),
+    ...(body.summary !== undefined && { summary: body.summary ?? undefined }),
+    ...(body.tags !== undefined && { tags: body.tags.length > 0 ? body.tags : undefined }),
+    ...(body.folder !== undefined && { folder: body.folder ?? undefined }),
+    ...(body.pinned !== undefined && { pinned: body.pinned || undefined }),
+    ...(body.archived !== undefined && { archived: body.archived || undefined }),
+    // Keep the date the list is sorted by when a chat is only filed away
+    updatedAt: (Object.keys(body) as (keyof UpdateChatBody)[]).every((key) => ORGANIZING_FIELDS.includes(key))
+      ? existing.updatedAt
+      : now(),
   };
-  store.set(id, session);
+  if (body.archived) session.pinned = undefined;
+  save(session);
+  return session;
+}
+
+/**
+ * Move a chat to the trash. Returns undefined when there is no such chat
+ * outside the trash.
+ */
+export function trashChat(id: string): TrashedChat | undefined {
+  const existing = getChat(id);
+  if (!existing) return undefined;
+  const { storage, sessions, searchIndex } = getState();
+  const session: ChatSession = { ...existing, deletedAt: now() };
+  storage.put(session);
+  sessions.set(id, session);
+  searchIndex?.remove(id);
+  return toTrashedChat(session);
+}
+
+/**
+ * Take a chat out of the trash, as it was when it was deleted
+ */
+export function restoreChat(id: string): ChatSession | undefined {
+  const existing = getState().sessions.get(id);
+  if (!existing || !isInTrash(existing)) return undefined;
+  const session: ChatSession = { ...existing };
+  delete session.deletedAt;
+  save(session);
   return session;
 }
 
-export function deleteChat(id: string): boolean {
-  return store.delete(id);
+/**
+ * Chats in the trash, most recently deleted first
+ */
+export function listTrash(): TrashedChat[] {
+  return Array.from(getState().sessions.values())
+    .filter(isInTrash)
+    .sort((a, b) => b.deletedAt!.localeCompare(a.deletedAt!))
+    .map(toTrashedChat);
+}
+
+/**
+ * Delete a chat in the trash for good
+ */
+export function purgeChat(id: string): boolean {
+  const { sessions, storage } = getState();
+  const session = sessions.get(id);
+  if (!session || !isInTrash(session)) return false;
+  storage.remove(id);
+  return sessions.delete(id);
+}
+
+/**
+ * Delete every chat in the trash for good; returns how many there were
+ */
+export function emptyTrash(): number {
+  return listTrash().filter((chat) => purgeChat(chat.id)).length;
+}
+
+/**
+ * Delete chats that have been in the trash longer than the retention period
+ */
+export function purgeExpiredChats(): number {
+  const { sessions } = getState();
+  const time = Date.now();
+  const expired = Array.from(sessions.values()).filter((s) => isInTrash(s) && getPurgeTime(s) <= time);
+  expired.forEach((session) => purgeChat(session.id));
+  return expired.length;
+}
+
+export function searchChats(query: string, limit: number): ChatSearchHit[] {
+  const state = getState();
+  if (!state.searchIndex) {
+    state.searchIndex = createChatSearchIndex();
+    listChatSessions().forEach((session) => state.searchIndex!.add(session));
+  }
+  return state.searchIndex.search(query, limit);
 }
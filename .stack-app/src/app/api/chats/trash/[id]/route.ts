@@ -0,0 +1,23 @@
+/**
+ * DELETE /api/chats/trash/[id] - Delete a chat in the trash for good
+ */
+
+import { NextRequest } from 'next/server';
+import { Errors, handleError } from '@/lib/errors';
+import { purgeChat } from '../../store';
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    if (!purgeChat(id)) {
+      return Errors.notFound('Chat in trash').toResponse();
+    }
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    console.error('Chat purge error:', error);
+    return handleError(error).toResponse();
+  }
+}
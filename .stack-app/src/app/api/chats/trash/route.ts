@@ -0,0 +1,33 @@
+/**
+ * GET /api/chats/trash - List chats in the trash
+ * DELETE /api/chats/trash - Empty the trash
+ *
+ * Chats stay in the trash for TRASH_RETENTION_DAYS (default 30) and are
+ * purged automatically after that.
+ */
+
+import { handleError } from '@/lib/errors';
+import { emptyTrash, listTrash, TRASH_RETENTION_DAYS } from '../store';
+import type { ChatTrashResponse } from '@/types/chat-history';
+
+// The trash changes at runtime, so never pre-render it at build time
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const response: ChatTrashResponse = { chats: listTrash(), retentionDays: TRASH_RETENTION_DAYS };
+    return Response.json(response);
+  } catch (error) {
+    console.error('Chat trash list error:', error);
+    return handleError(error).toResponse();
+  }
+}
+
+export async function DELETE() {
+  try {
+    return Response.json({ purged: emptyTrash() });
+  } catch (error) {
+    console.error('Chat trash empty error:', error);
+    return handleError(error).toResponse();
+  }
+}
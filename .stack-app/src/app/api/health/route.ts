@@ -4,29 +4,31 @@
  * Health check endpoint that returns API status and available models.
  */
 
-import { isAnthropicConfigured } from '@/lib/ai/anthropic';
-import { isOpenAIConfigured } from '@/lib/ai/openai';
+import { listProviders } from '@/lib/ai/registry';
 import type { HealthCheckResponse } from '@/types/api';
 
+// Reports the configuration at request time, not at build time
+export const dynamic = 'force-dynamic';
+
 export async function GET() {
-  const claudeAvailable = isAnthropicConfigured();
-  const openaiAvailable = isOpenAIConfigured();
+  const providers = listProviders();
+  const models = Object.fromEntries(providers.map((p) => [p.id, p.isConfigured()]));
+  const configuredCount = Object.values(models).filter(Boolean).length;
+  // Optional providers only count once they are set up
+  const expectedCount = providers.filter((p) => !p.optional || p.isConfigured()).length;
 
   // Determine overall health status
   let status: HealthCheckResponse['status'] = 'healthy';
-  if (!claudeAvailable && !openaiAvailable) {
+  if (configuredCount === 0) {
     status = 'unhealthy';
-  } else if (!claudeAvailable || !openaiAvailable) {
+  } else if (configuredCount < expectedCount) {
     status = 'degraded';
   }
 
   const response: HealthCheckResponse = {
     status,
     timestamp: new Date().toISOString(),
-    models: {
-      claude: claudeAvailable,
-      openai: openaiAvailable,
-    },
+    models,
     version: process.env.npm_package_version || '0.1.0',
   };
 
@@ -0,0 +1,50 @@
+/**
+ * GET /api/models
+ *
+ * Model catalog: every registered model with its limits, vision support
+ * and whether its provider is configured.
+ */
+
+import { listAvailableModels, listProviders } from '@/lib/ai/registry';
+import { DEFAULT_MAX_TOKENS } from '@/lib/ai/context-budget';
+import { handleError } from '@/lib/errors';
+import { getNumericEnv } from '@/lib/utils';
+import type { ModelCatalogEntry, ModelsResponse, ProviderStatus } from '@/types/api';
+
+// Configuration and local model discovery are read per request, not at build time
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const providers: ProviderStatus[] = listProviders().map((p) => ({
+      id: p.id,
+      name: p.name,
+      configured: p.isConfigured(),
+    }));
+    const configured = new Set(providers.filter((p) => p.configured).map((p) => p.id));
+
+    const models: ModelCatalogEntry[] = (await listAvailableModels()).map((m) => ({
+      ...m,
+      configured: configured.has(m.provider),
+    }));
+
+    // DEFAULT_MODEL wins when it is usable, otherwise the first configured model
+    const preferred = models.find((m) => m.configured && m.id === process.env.DEFAULT_MODEL);
+    const defaultModel = (preferred ?? models.find((m) => m.configured))?.id ?? null;
+
+    const response: ModelsResponse = {
+      providers,
+      models,
+      defaultModel,
+      maxTokens: getNumericEnv('MAX_TOKENS', DEFAULT_MAX_TOKENS),
+    };
+    return Response.json(response, {
+      headers: {
+        'Cache-Control': 'no-store, max-age=0',
+      },
+    });
+  } catch (error) {
+    console.error('Models list error:', error);
+    return handleError(error).toResponse();
+  }
+}
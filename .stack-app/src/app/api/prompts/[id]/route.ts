@@ -0,0 +1,74 @@
+/**
+ * GET /api/prompts/[id] - Get a prompt preset
+ * PATCH /api/prompts/[id] - Update a prompt preset
+ * DELETE /api/prompts/[id] - Delete a prompt preset
+ */
+
+import { NextRequest } from 'next/server';
+import { ApiError, Errors, handleError } from '@/lib/errors';
+import { validateUpdatePresetBody } from '@/lib/validators/prompts';
+import { deletePreset, getPreset, updatePreset } from '../store';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const preset = getPreset(id);
+    if (!preset) {
+      return Errors.notFound('Prompt preset').toResponse();
+    }
+    return Response.json(preset);
+  } catch (error) {
+    console.error('Prompt preset get error:', error);
+    return handleError(error).toResponse();
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    if (!getPreset(id)) {
+      return Errors.notFound('Prompt preset').toResponse();
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return Errors.badRequest('Invalid JSON in request body').toResponse();
+    }
+
+    const preset = updatePreset(id, validateUpdatePresetBody(body));
+    if (!preset) {
+      return Errors.notFound('Prompt preset').toResponse();
+    }
+    return Response.json(preset);
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
+    console.error('Prompt preset update error:', error);
+    return handleError(error).toResponse();
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    if (!deletePreset(id)) {
+      return Errors.notFound('Prompt preset').toResponse();
+    }
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    console.error('Prompt preset delete error:', error);
+    return handleError(error).toResponse();
+  }
+}
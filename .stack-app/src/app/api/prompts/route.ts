@@ -0,0 +1,41 @@
+/**
+ * GET /api/prompts - List prompt presets
+ * POST /api/prompts - Create a prompt preset
+ */
+
+import { NextRequest } from 'next/server';
+import { ApiError, Errors, handleError } from '@/lib/errors';
+import { validateCreatePresetBody } from '@/lib/validators/prompts';
+import { createPreset, listPresets } from './store';
+
+// Presets change at runtime, so never pre-render the list at build time
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    return Response.json({ presets: listPresets() });
+  } catch (error) {
+    console.error('Prompt presets list error:', error);
+    return handleError(error).toResponse();
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return Errors.badRequest('Invalid JSON in request body').toResponse();
+    }
+
+    const preset = createPreset(validateCreatePresetBody(body));
+    return Response.json(preset, { status: 201 });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return error.toResponse();
+    }
+    console.error('Prompt preset create error:', error);
+    return handleError(error).toResponse();
+  }
+}
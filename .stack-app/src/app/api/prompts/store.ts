@@ -0,0 +1,81 @@
+/**
+ * Prompt preset store
+ * Presets are cached in memory and persisted through the configured
+ * storage backend (see STORAGE_BACKEND in lib/storage).
+ */
+
+import { randomUUID } from 'crypto';
+import { createStorage, type RecordStorage } from '@/lib/storage';
+import type { CreatePresetBody, PromptPreset, UpdatePresetBody } from '@/types/prompts';
+
+export const PRESET_SCHEMA_VERSION = 1;
+
+interface PresetStoreState {
+  presets: Map<string, PromptPreset>;
+  storage: RecordStorage<PromptPreset>;
+}
+
+// Route handlers are bundled separately, so share one store per process
+const globalForStore = globalThis as unknown as { presetStore?: PresetStoreState };
+
+function getState(): PresetStoreState {
+  if (!globalForStore.presetStore) {
+    const storage = createStorage<PromptPreset>({
+      name: 'prompts',
+      schemaVersion: PRESET_SCHEMA_VERSION,
+    });
+    const presets = new Map(storage.load().map((preset) => [preset.id, preset]));
+    globalForStore.presetStore = { presets, storage };
+  }
+  return globalForStore.presetStore;
+}
+
+function save(preset: PromptPreset): void {
+  const { presets, storage } = getState();
+  storage.put(preset);
+  presets.set(preset.id, preset);
+}
+
+export function listPresets(): PromptPreset[] {
+  return Array.from(getState().presets.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function getPreset(id: string): PromptPreset | undefined {
+  return getState().presets.get(id);
+}
+
+export function createPreset(body: CreatePresetBody): PromptPreset {
+  const ts = new Date().toISOString();
+  const preset: PromptPreset = {
+    id: randomUUID(),
+    name: body.name,
+    ...(body.description && { description: body.description }),
+    content: body.content,
+    createdAt: ts,
+    updatedAt: ts,
+  };
+  save(preset);
+  return preset;
+}
+
+export function updatePreset(id: string, body: UpdatePresetBody): PromptPreset | undefined {
+  const existing = getState().presets.get(id);
+  if (!existing) return undefined;
+
+  const preset: PromptPreset = {
+    ...existing,
+    ...(body.name !== undefined && { name: body.name }),
+    ...(body.description !== undefined && { description: body.description || undefined }),
+    ...(body.content !== undefined && { content: body.content }),
+    updatedAt: new Date().toISOString(),
+  };
+  save(preset);
+  return preset;
+}
+
+export function deletePreset(id: string): boolean {
+  const { presets, storage } = getState();
+  if (!presets.has(id)) return false;
+  storage.remove(id);
+  return presets.delete(id);
+}
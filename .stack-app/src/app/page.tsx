@@ -1,10 +1,18 @@
 'use client';
 
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { useTheme } from 'next-themes';
 import { PanelLeftClose, PanelLeft, Keyboard } from 'lucide-react';
-import { ChatContainer, ChatHistorySidebar } from '@/components/chat';
-import { CodePanel } from '@/components/code';
+import {
+  ChatContainer,
+  ChatHistorySidebar,
+  ConversationSummaryCard,
+  DeletedChatToast,
+  ModelSelector,
+  PresetManager,
+  PresetSelector,
+} from '@/components/chat';
+import { CodePanel, ProjectBrowser } from '@/components/code';
 import { ThemeToggle } from '@/components/theme/ThemeToggle';
 import { ErrorBoundary } from '@/components/error/ErrorBoundary';
 import { Button } from '@/components/ui/button';
@@ -16,177 +24,221 @@ import {
 } from '@/components/ui/tooltip';
 import { useGlobalShortcuts } from '@/hooks/useKeyboardShortcuts';
 import { useChatHistory } from '@/hooks/useChatHistory';
-import type { CodeContext, CodeFile } from '@/types';
-import type { Message } from '@/types';
+import { useModels } from '@/hooks/useModels';
+import { usePromptPresets } from '@/hooks/usePromptPresets';
+import { useProjectImport } from '@/hooks/useProjectImport';
+import { useSimilarChats } from '@/hooks/useSimilarChats';
+import type { ChatSearchHit, CodeContext, CodeFile, RelatedAnswer, TrashedChat, UpdateChatBody } from '@/types';
+import type { Message, MessageTree } from '@/types';
+import type { ModelId } from '@/types/chat';
 import { cn } from '@/lib/utils';
+import { createMessageTree, getActivePath, selectPathTo } from '@/lib/message-tree';
+import { findSummaryEnd, needsSummary } from '@/lib/conversation-summary';
+import { hasChatListFilters } from '@/lib/chat-list';
+import {
+  applyRevision,
+  createCodeFile,
+  createFileContext,
+  extractCodeBlocks,
+  upsertCodeFile,
+  type MessageCodeBlock,
+} from '@/lib/code-files';
 
-// Sample code files for demonstration
-const SAMPLE_FILES: CodeFile[] = [
-  {
-    id: '1',
-    name: 'app.tsx',
-    language: 'tsx',
-    content: `import { useState, useEffect } from 'react';
-import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-
-interface User {
-  id: string;
-  name: string;
-  email: string;
-}
-
-export function UserProfile({ userId }: { userId: string }) {
-  const [user, setUser] = useState<User | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    async function fetchUser() {
-      try {
-        setLoading(true);
-        const response = await fetch(\`/api/users/\${userId}\`);
-        if (!response.ok) throw new Error('Failed to fetch user');
-        const data = await response.json();
-        setUser(data);
-      } catch (err) {
-        setError(err instanceof Error ? err.message : 'Unknown error');
-      } finally {
-        setLoading(false);
-      }
-    }
-    fetchUser();
-  }, [userId]);
-
-  if (loading) return <div className="animate-pulse">Loading...</div>;
-  if (error) return <div className="text-red-500">{error}</div>;
-  if (!user) return null;
-
-  return (
-    <div className="space-y-4 p-6 rounded-lg border">
-      <h2 className="text-2xl font-bold">{user.name}</h2>
-      <p className="text-muted-foreground">{user.email}</p>
-      <Button variant="outline">Edit Profile</Button>
-    </div>
-  );
-}`,
-  },
-  {
-    id: '2',
-    name: 'utils.ts',
-    language: 'typescript',
-    content: `import { type ClassValue, clsx } from 'clsx';
-import { twMerge } from 'tailwind-merge';
-
-export function cn(...inputs: ClassValue[]) {
-  return twMerge(clsx(inputs));
-}
-
-export function formatDate(date: Date | string): string {
-  const d = new Date(date);
-  return new Intl.DateTimeFormat('en-US', {
-    year: 'numeric',
-    month: 'short',
-    day: 'numeric',
-  }).format(d);
-}
-
-export function debounce<T extends (...args: unknown[]) => unknown>(
-  fn: T,
-  delay: number
-): (...args: Parameters<T>) => void {
-  let timeoutId: ReturnType<typeof setTimeout>;
-  return (...args: Parameters<T>) => {
-    clearTimeout(timeoutId);
-    timeoutId = setTimeout(() => fn(...args), delay);
-  };
-}
-
-export function generateId(): string {
-  return Math.random().toString(36).substring(2, 11);
-}`,
-  },
-  {
-    id: '3',
-    name: 'api.py',
-    language: 'python',
-    content: `from fastapi import FastAPI, HTTPException
-from pydantic import BaseModel
-from typing import List, Optional
-import asyncio
-
-app = FastAPI(title="Sideview API")
-
-class Message(BaseModel):
-    role: str
-    content: str
-    timestamp: Optional[str] = None
-
-class ChatRequest(BaseModel):
-    messages: List[Message]
-    code_context: Optional[dict] = None
-
-class ChatResponse(BaseModel):
-    response: str
-    tokens_used: int
-
-@app.post("/chat", response_model=ChatResponse)
-async def chat(request: ChatRequest):
-    """
-    Process chat messages and return AI response.
-    """
-    try:
-        # Simulate AI processing
-        await asyncio.sleep(0.5)
-        
-        response_text = f"Received {len(request.messages)} messages"
-        if request.code_context:
-            response_text += f" with code from {request.code_context.get('fileName', 'unknown')}"
-        
-        return ChatResponse(
-            response=response_text,
-            tokens_used=len(response_text.split())
-        )
-    except Exception as e:
-        raise HTTPException(status_code=500, detail=str(e))
-
-@app.get("/health")
-async def health_check():
-    return {"status": "healthy"}`,
-  },
-];
+/** Delay before saving edits made in the code panel */
+const FILE_SAVE_DELAY_MS = 800;
 
 export default function Home() {
   const { setTheme, theme } = useTheme();
   const [showCodePanel, setShowCodePanel] = useState(false);
-  const [activeFileId, setActiveFileId] = useState(SAMPLE_FILES[0].id);
-  const [codeContext, setCodeContext] = useState<CodeContext | null>(null);
+  const [files, setFiles] = useState<CodeFile[]>([]);
+  const [activeFileId, setActiveFileId] = useState<string | undefined>();
+  const [codeContexts, setCodeContexts] = useState<CodeContext[]>([]);
   const [showShortcuts, setShowShortcuts] = useState(false);
-  const [messages, setMessages] = useState<Message[]>([]);
+  const [tree, setTree] = useState<MessageTree>(() => createMessageTree());
+  const [selectedModel, setSelectedModel] = useState<ModelId | null>(null);
+  const [selectedPresetId, setSelectedPresetId] = useState<string | undefined>();
+  const [showPresetManager, setShowPresetManager] = useState(false);
+  const [isSummarizing, setIsSummarizing] = useState(false);
+  // Length of the active path when summarizing last failed, so it is not retried in a loop
+  const [summaryFailedAt, setSummaryFailedAt] = useState<number | null>(null);
+  const projectImport = useProjectImport();
+
+  const {
+    providers,
+    models,
+    defaultModel,
+    maxTokens,
+    isLoading: modelsLoading,
+  } = useModels();
+
+  const promptPresets = usePromptPresets();
 
   const {
     chats,
+    hasMoreChats,
+    isLoadingMore,
+    loadMoreChats,
+    listQuery,
+    setListQuery,
+    labels,
     activeChatId,
     isLoading: chatsLoading,
     loadChat,
     createChat,
     updateChat,
     deleteChat,
+    restoreChat,
+    generateTitle,
+    summarizeChat,
     activeChat,
   } = useChatHistory();
 
   useEffect(() => {
     if (activeChat) {
-      setMessages(activeChat.messages ?? []);
+      setTree(activeChat.tree ?? createMessageTree(activeChat.messages));
     } else {
-      setMessages([]);
+      setTree(createMessageTree());
     }
   }, [activeChat]);
 
+  // Pinned files belong to the chat. Only load them when switching chats so
+  // a save response never overwrites edits made while it was in flight.
+  const filesChatId = useRef<string | null>(null);
+  useEffect(() => {
+    const id = activeChat?.id ?? null;
+    if (id === filesChatId.current) return;
+    filesChatId.current = id;
+    setFiles(activeChat?.files ?? []);
+    setActiveFileId(undefined);
+  }, [activeChat]);
+
+  // Each chat remembers its model; chats without one keep the current pick
+  const activeChatModel = activeChat?.model;
+  useEffect(() => {
+    if (activeChatModel) setSelectedModel(activeChatModel);
+  }, [activeChatId, activeChatModel]);
+
+  const model = selectedModel ?? defaultModel;
+  const modelInfo = models.find((m) => m.id === model);
+
+  const handleModelChange = useCallback(
+    (id: ModelId) => {
+      setSelectedModel(id);
+      if (activeChatId) updateChat(activeChatId, { model: id });
+    },
+    [activeChatId, updateChat]
+  );
+
+  // Unlike the model, the preset is per chat: chats without one use the default prompt
+  const activeChatPresetId = activeChat?.presetId;
+  useEffect(() => {
+    setSelectedPresetId(activeChatPresetId);
+  }, [activeChatId, activeChatPresetId]);
+
+  // A deleted preset falls back to the default prompt on the server as well
+  const presetId = promptPresets.presets.some((p) => p.id === selectedPresetId) ? selectedPresetId : undefined;
+
+  const handlePresetChange = useCallback(
+    (id: string | undefined) => {
+      setSelectedPresetId(id);
+      if (activeChatId) updateChat(activeChatId, { presetId: id ?? null });
+    },
+    [activeChatId, updateChat]
+  );
+
+  // Older turns of long chats can be condensed into a summary that is sent
+  // in their place; it is updated in the background as the chat grows
+  const activePath = useMemo(() => getActivePath(tree), [tree]);
+  const autoSummarize = !!activeChat?.autoSummarize;
+  const summary = activeChat?.summary;
+
+  const runSummary = useCallback(
+    async (rebuild = false) => {
+      if (!activeChatId) return;
+      setIsSummarizing(true);
+      const ok = await summarizeChat(activeChatId, { model: model ?? undefined, rebuild });
+      setIsSummarizing(false);
+      setSummaryFailedAt(ok ? null : activePath.length);
+    },
+    [activeChatId, summarizeChat, model, activePath.length]
+  );
+
+  useEffect(() => {
+    setSummaryFailedAt(null);
+  }, [activeChatId]);
+
+  useEffect(() => {
+    if (!autoSummarize || isSummarizing || summaryFailedAt === activePath.length) return;
+    if (needsSummary(activePath, summary)) runSummary();
+  }, [autoSummarize, isSummarizing, summaryFailedAt, activePath, summary, runSummary]);
+
+  const handleToggleSummary = useCallback(
+    (enabled: boolean) => {
+      setSummaryFailedAt(null);
+      if (activeChatId) updateChat(activeChatId, { autoSummarize: enabled });
+    },
+    [activeChatId, updateChat]
+  );
+
+  const handleSaveSummary = useCallback(
+    (content: string) => {
+      if (activeChatId && summary) updateChat(activeChatId, { summary: { ...summary, content, edited: true } });
+    },
+    [activeChatId, summary, updateChat]
+  );
+
+  // New chats start as "New Chat" or the first question; once the first
+  // reply is saved a short title is generated, unless the user renamed it
+  const handleFirstExchange = useCallback(
+    (chatId: string) => {
+      generateTitle(chatId, model ?? undefined);
+    },
+    [generateTitle, model]
+  );
+
+  const handleRenameChat = useCallback(
+    (id: string, title: string) => {
+      updateChat(id, { title, titleSource: 'manual' });
+    },
+    [updateChat]
+  );
+
+  const handleUpdateChat = useCallback(
+    (id: string, updates: UpdateChatBody) => {
+      updateChat(id, updates);
+    },
+    [updateChat]
+  );
+
+  // The last chat moved to the trash, offered for undo
+  const [deletedChat, setDeletedChat] = useState<{ chat: TrashedChat; wasActive: boolean } | null>(null);
+
+  const handleDeleteChat = useCallback(
+    async (id: string) => {
+      const wasActive = id === activeChatId;
+      const chat = await deleteChat(id);
+      if (chat) setDeletedChat({ chat, wasActive });
+    },
+    [activeChatId, deleteChat]
+  );
+
+  const handleUndoDelete = useCallback(async () => {
+    if (!deletedChat) return;
+    setDeletedChat(null);
+    const { chat, wasActive } = deletedChat;
+    if ((await restoreChat(chat.id)) && wasActive) loadChat(chat.id);
+  }, [deletedChat, restoreChat, loadChat]);
+
+  const dismissDeletedChat = useCallback(() => setDeletedChat(null), []);
+
+  // New chats go into the folder the list is showing
   const handleNewChat = useCallback(async () => {
-    const id = await createChat();
-    if (id) setMessages([]);
-  }, [createChat]);
+    const id = await createChat({
+      ...(model && { model }),
+      ...(listQuery.folder && !listQuery.archived && { folder: listQuery.folder }),
+    });
+    if (id) setTree(createMessageTree());
+  }, [createChat, model, listQuery.folder, listQuery.archived]);
 
   const handleSelectChat = useCallback(
     (id: string) => {
@@ -195,21 +247,162 @@ export default function Home() {
     [loadChat]
   );
 
+  // Search hits open their chat scrolled to the matching message, switching
+  // to its branch when it is not on the active path
+  const [focusRequest, setFocusRequest] = useState<{ chatId: string; messageId: string } | null>(null);
+
+  const openChatAt = useCallback(
+    (chatId: string, messageId?: string) => {
+      setFocusRequest(messageId ? { chatId, messageId } : null);
+      if (chatId !== activeChatId) loadChat(chatId);
+    },
+    [activeChatId, loadChat]
+  );
+
+  const handleOpenSearchResult = useCallback(
+    (hit: ChatSearchHit) => openChatAt(hit.chatId, hit.messageId),
+    [openChatAt]
+  );
+
+  const handleOpenRelatedAnswer = useCallback(
+    (answer: RelatedAnswer) => openChatAt(answer.chatId, answer.answerId),
+    [openChatAt]
+  );
+
+  const similarChats = useSimilarChats(activeChatId, activeChat?.messages.length ?? 0);
+
+  const activeFocusRequest = focusRequest?.chatId === activeChatId ? focusRequest : null;
+  // Only once per request, so the user can still switch branches afterwards
+  const branchFocusRef = useRef<typeof focusRequest>(null);
+  useEffect(() => {
+    if (!activeFocusRequest || branchFocusRef.current === activeFocusRequest) return;
+    const { messageId } = activeFocusRequest;
+    if (!tree.nodes.some((m) => m.id === messageId)) return;
+    branchFocusRef.current = activeFocusRequest;
+    if (!activePath.some((m) => m.id === messageId)) setTree(selectPathTo(tree, messageId));
+  }, [activeFocusRequest, tree, activePath]);
+
   useEffect(() => {
-    if (!chatsLoading && chats.length === 0 && !activeChatId) {
+    // An empty list only means there are no chats when nothing is filtered out
+    if (!chatsLoading && chats.length === 0 && !activeChatId && !hasChatListFilters(listQuery)) {
       createChat();
     }
-  }, [chatsLoading, chats.length, activeChatId, createChat]);
+  }, [chatsLoading, chats.length, activeChatId, listQuery, createChat]);
 
-  // Handle code selection or generation
+  // Handle code selection or generation; a new selection in a file replaces
+  // that file's earlier one, other files stay attached
   const handleSelectionChat = useCallback((context: CodeContext) => {
-    setCodeContext(context);
+    setCodeContexts((prev) => [
+      ...prev.filter((c) => !context.fileId || c.fileId !== context.fileId),
+      context,
+    ]);
     setShowCodePanel(true); // Automatically show panel when context exists
   }, []);
 
+  // Attach whole files from the code panel tabs
+  const handleAddToContext = useCallback(
+    (fileIds: string[]) => {
+      const added = files.filter((f) => fileIds.includes(f.id)).map(createFileContext);
+      setCodeContexts((prev) => [...prev.filter((c) => !c.fileId || !fileIds.includes(c.fileId)), ...added]);
+    },
+    [files]
+  );
+
+  const handleRemoveContext = useCallback((index: number) => {
+    setCodeContexts((prev) => prev.filter((_, i) => i !== index));
+  }, []);
+
+  const fileSaveTimer = useRef<ReturnType<typeof setTimeout>>();
+  const saveFiles = useCallback(
+    (newFiles: CodeFile[]) => {
+      clearTimeout(fileSaveTimer.current);
+      setFiles(newFiles);
+      if (activeChatId) updateChat(activeChatId, { files: newFiles });
+    },
+    [activeChatId, updateChat]
+  );
+
+  // Editor keystrokes are saved once typing pauses
+  const handleFileUpdate = useCallback(
+    (file: CodeFile) => {
+      const newFiles = files.map((f) => (f.id === file.id ? file : f));
+      setFiles(newFiles);
+      clearTimeout(fileSaveTimer.current);
+      if (!activeChatId) return;
+      const chatId = activeChatId;
+      fileSaveTimer.current = setTimeout(() => updateChat(chatId, { files: newFiles }), FILE_SAVE_DELAY_MS);
+    },
+    [files, activeChatId, updateChat]
+  );
+
+  // Replies that contain a new version of a pinned file become revisions to review
+  const handleReply = useCallback(
+    (message: Message) => {
+      let newFiles = files;
+      for (const block of extractCodeBlocks(message.content)) {
+        const file = block.filename && newFiles.find((f) => f.name === block.filename);
+        if (file && file.content !== block.code) newFiles = applyRevision(newFiles, file.id, block.code);
+      }
+      if (newFiles !== files) saveFiles(newFiles);
+    },
+    [files, saveFiles]
+  );
+
+  // Pin a code block from a reply into the panel
+  const handleOpenInPanel = useCallback(
+    (block: MessageCodeBlock) => {
+      const { files: newFiles, activeId } = upsertCodeFile(files, createCodeFile(block, files));
+      if (newFiles !== files) saveFiles(newFiles);
+      setActiveFileId(activeId);
+      setShowCodePanel(true);
+    },
+    [files, saveFiles]
+  );
+
+  const handleCloseFile = useCallback(
+    (fileId: string) => {
+      saveFiles(files.filter((f) => f.id !== fileId));
+    },
+    [files, saveFiles]
+  );
+
+  // Open a file of the imported project in a tab, reusing its tab if pinned
+  const openProjectFile = useCallback(
+    (path: string): CodeFile | undefined => {
+      const file = projectImport.project?.files.find((f) => f.path === path);
+      if (!file) return undefined;
+      const pinned = files.find((f) => f.name === path);
+      if (pinned) {
+        setActiveFileId(pinned.id);
+        return pinned;
+      }
+      const created = createCodeFile({ code: file.content, language: file.language, filename: path }, files);
+      saveFiles([...files, created]);
+      setActiveFileId(created.id);
+      return created;
+    },
+    [projectImport.project, files, saveFiles]
+  );
+
+  const handleOpenProjectFile = useCallback(
+    (path: string) => {
+      openProjectFile(path);
+    },
+    [openProjectFile]
+  );
+
+  const handleAddProjectFileToContext = useCallback(
+    (path: string) => {
+      const file = openProjectFile(path);
+      if (!file) return;
+      setCodeContexts((prev) => [...prev.filter((c) => c.fileId !== file.id), createFileContext(file)]);
+    },
+    [openProjectFile]
+  );
+
   // Clear code context
   const handleClearContext = useCallback(() => {
-    setCodeContext(null);
+    setCodeContexts([]);
   }, []);
 
   // Toggle theme
@@ -240,6 +433,24 @@ export default function Home() {
           </div>
 
           <div className="flex items-center gap-2">
+            {/* System Prompt Preset */}
+            <PresetSelector
+              presets={promptPresets.presets}
+              value={presetId}
+              onChange={handlePresetChange}
+              onManage={() => setShowPresetManager(true)}
+              isLoading={promptPresets.isLoading}
+            />
+
+            {/* Model Picker */}
+            <ModelSelector
+              providers={providers}
+              models={models}
+              value={model}
+              onChange={handleModelChange}
+              isLoading={modelsLoading}
+            />
+
             {/* Toggle Code Panel */}
             <Button
               variant="ghost"
@@ -288,7 +499,19 @@ export default function Home() {
             isLoading={chatsLoading}
             onSelect={handleSelectChat}
             onNewChat={handleNewChat}
-            onDelete={deleteChat}
+            onDelete={handleDeleteChat}
+            onRestore={restoreChat}
+            onRename={handleRenameChat}
+            onUpdate={handleUpdateChat}
+            labels={labels}
+            onOpenSearchResult={handleOpenSearchResult}
+            similarChats={similarChats}
+            listQuery={listQuery}
+            onListQueryChange={setListQuery}
+            models={models}
+            hasMore={hasMoreChats}
+            isLoadingMore={isLoadingMore}
+            onLoadMore={loadMoreChats}
             className="h-full"
           />
 
@@ -300,15 +523,40 @@ export default function Home() {
               showCodePanel ? 'flex-[6]' : 'flex-1 max-w-3xl mx-auto w-full'
             )}
           >
+            <ConversationSummaryCard
+              key={activeChatId ?? undefined}
+              summary={summary}
+              enabled={autoSummarize}
+              stale={!!summary && findSummaryEnd(activePath, summary) < 0}
+              canSummarize={needsSummary(activePath)}
+              isSummarizing={isSummarizing}
+              failed={summaryFailedAt !== null}
+              onToggle={handleToggleSummary}
+              onRegenerate={() => runSummary(true)}
+              onSave={handleSaveSummary}
+            />
             <ChatContainer
-              messages={messages}
-              onMessagesChange={setMessages}
+              tree={tree}
+              onTreeChange={setTree}
               activeChatId={activeChatId}
               onSaveChat={updateChat}
-              codeContext={codeContext}
+              codeContexts={codeContexts}
+              files={files}
+              onRemoveContext={handleRemoveContext}
               onClearContext={handleClearContext}
               onCodeAction={handleSelectionChat}
-              className="h-full"
+              onOpenInPanel={handleOpenInPanel}
+              onReply={handleReply}
+              onFirstExchange={handleFirstExchange}
+              focusRequest={activeFocusRequest ?? undefined}
+              onOpenRelatedAnswer={handleOpenRelatedAnswer}
+              model={model ?? undefined}
+              presetId={presetId}
+              summary={autoSummarize ? summary : undefined}
+              modelInfo={modelInfo}
+              maxTokens={maxTokens}
+              visionSupported={modelInfo?.vision ?? true}
+              className="min-h-0 flex-1"
             />
           </div>
 
@@ -322,10 +570,26 @@ export default function Home() {
           >
             <div className={cn('h-full w-full transition-opacity duration-200', !showCodePanel && 'opacity-0 pointer-events-none')}>
               <CodePanel
-                files={SAMPLE_FILES}
+                files={files}
                 activeFileId={activeFileId}
                 onFileChange={setActiveFileId}
+                onFileClose={handleCloseFile}
+                onFileUpdate={handleFileUpdate}
                 onSelectionChat={handleSelectionChat}
+                onAddToContext={handleAddToContext}
+                attachedRanges={codeContexts}
+                sidebar={
+                  <ProjectBrowser
+                    project={projectImport.project}
+                    isImporting={projectImport.isImporting}
+                    error={projectImport.error}
+                    onImport={projectImport.importFrom}
+                    onOpenFile={handleOpenProjectFile}
+                    onAddToContext={handleAddProjectFileToContext}
+                    onClose={projectImport.closeProject}
+                    activePath={files.find((f) => f.id === activeFileId)?.name}
+                  />
+                }
                 className="h-full"
               />
             </div>
@@ -366,6 +630,22 @@ export default function Home() {
           </div>
         )}
 
+        {/* Prompt Presets Modal */}
+        {showPresetManager && (
+          <PresetManager
+            presets={promptPresets.presets}
+            error={promptPresets.error}
+            onCreate={promptPresets.createPreset}
+            onUpdate={promptPresets.updatePreset}
+            onDelete={promptPresets.deletePreset}
+            onClose={() => setShowPresetManager(false)}
+          />
+        )}
+
+        {deletedChat && (
+          <DeletedChatToast chat={deletedChat.chat} onUndo={handleUndoDelete} onDismiss={dismissDeletedChat} />
+        )}
+
         {/* Mobile Code Panel Toggle (visible on small screens) */}
         <div className="fixed bottom-20 right-4 md:hidden">
           <Button
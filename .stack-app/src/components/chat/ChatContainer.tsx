@@ -1,65 +1,132 @@
 'use client';
 
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { MessageList } from './MessageList';
 import { ChatInput } from './ChatInput';
+import { RelatedAnswers } from './RelatedAnswers';
 import { ErrorBoundary, ErrorMessage } from '@/components/error/ErrorBoundary';
-import type { Message, CodeContext, Attachment } from '@/types';
-import type { ModelId } from '@/types/chat';
+import type {
+  Attachment,
+  CodeContext,
+  CodeFile,
+  ConversationSummary,
+  Message,
+  MessageTree,
+  RelatedAnswer,
+  UpdateChatBody,
+} from '@/types';
+import type {
+  ChatMode,
+  ChatRequest,
+  CodeContext as ApiCodeContext,
+  ImageInput,
+  ImageMimeType,
+  ModelId,
+  ModelInfo,
+} from '@/types/chat';
 import { cn } from '@/lib/utils';
-
-const DEFAULT_MODEL: ModelId = 'gpt-4o';
+import { readChatStream, type ChatStreamResult } from '@/lib/stream-decoder';
+import type { MessageCodeBlock } from '@/lib/code-files';
+import { addMessage, getActivePath, getPathTo, getSiblings, selectMessage } from '@/lib/message-tree';
+import { buildPromptForMode, DEFAULT_EXCERPT_OPTIONS } from '@/lib/ai/prompts';
+import { DEFAULT_MAX_TOKENS, fitToContextWindow, getReservedOutputTokens } from '@/lib/ai/context-budget';
+import { applySummary } from '@/lib/conversation-summary';
+import { useRelatedAnswers } from '@/hooks/useRelatedAnswers';
 
 interface ChatContainerProps {
-  messages: Message[];
-  onMessagesChange: (messages: Message[]) => void;
+  /** Conversation tree; the active path is what is shown and sent */
+  tree: MessageTree;
+  onTreeChange: (tree: MessageTree) => void;
   activeChatId: string | null;
-  onSaveChat?: (chatId: string, updates: { title?: string; messages?: Message[] }) => void;
-  codeContext?: CodeContext | null;
+  onSaveChat?: (chatId: string, updates: Pick<UpdateChatBody, 'title' | 'titleSource' | 'tree'>) => void | Promise<void>;
+  /** Files and selections attached to the next message */
+  codeContexts?: CodeContext[];
+  /** Code panel files, used to send the full source of a selection */
+  files?: CodeFile[];
+  onRemoveContext?: (index: number) => void;
   onClearContext?: () => void;
   onCodeAction?: (context: CodeContext) => void;
+  /** Pins a code block from a reply into the code panel */
+  onOpenInPanel?: (block: MessageCodeBlock) => void;
+  /** Called with each completed assistant reply */
+  onReply?: (message: Message) => void;
+  /** Called once the first reply of a chat is saved, e.g. to title it */
+  onFirstExchange?: (chatId: string) => void;
   model?: ModelId;
+  /** Prompt preset the chat uses instead of the built-in system prompt */
+  presetId?: string;
+  /** Summary sent in place of the older messages it covers */
+  summary?: ConversationSummary;
+  /** Limits of the selected model, for the context usage indicator */
+  modelInfo?: ModelInfo;
+  /** Max tokens requested for a reply */
+  maxTokens?: number;
+  /** Whether the selected model accepts image attachments */
+  visionSupported?: boolean;
+  /** Message to scroll to, e.g. a search hit (see MessageList) */
+  focusRequest?: { messageId: string };
+  /** Opens a related answer from another chat; shows suggestions while composing */
+  onOpenRelatedAnswer?: (answer: RelatedAnswer) => void;
   className?: string;
 }
 
-function buildApiMessages(messages: Message[]): Array<{ role: 'user' | 'assistant'; content: string }> {
+type ApiMessage = { role: 'user' | 'assistant'; content: string; images?: ImageInput[] };
+
+function buildApiMessages(messages: Message[]): ApiMessage[] {
   return messages.map((m) => {
     let content = m.content;
+    const images: ImageInput[] = [];
     if (m.attachments?.length) {
       const parts: string[] = [content].filter(Boolean);
       for (const att of m.attachments) {
         if (att.type === 'file') {
           parts.push(`\n[File: ${att.name}]\n${att.data}`);
         } else {
-          parts.push(`\n[Image attached: ${att.name}]`);
+          images.push({
+            mimeType: (att.mimeType ?? 'image/png') as ImageMimeType,
+            data: att.data,
+            name: att.name,
+          });
         }
       }
       content = parts.join('\n').trim();
     }
-    return { role: m.role as 'user' | 'assistant', content };
+    return {
+      role: m.role as 'user' | 'assistant',
+      content,
+      ...(images.length && { images }),
+    };
   });
 }
 
-function buildApiCodeContext(context?: CodeContext | null): { fullCode: string; selectedPortion: string; language: string; filename: string } | undefined {
-  if (!context) return undefined;
+/**
+ * Send the whole source file with each selection when the file is still open
+ * in the code panel; otherwise only the selected code is available
+ */
+function buildApiCodeContext(context: CodeContext, files: CodeFile[]): ApiCodeContext {
+  const file = context.fileId ? files.find((f) => f.id === context.fileId) : undefined;
+  if (context.wholeFile) {
+    return { fullCode: file?.content ?? context.selectedCode, language: context.language, filename: context.fileName };
+  }
   return {
-    fullCode: context.selectedCode,
+    fullCode: file?.content ?? context.selectedCode,
     selectedPortion: context.selectedCode,
     language: context.language,
     filename: context.fileName,
+    ...(file && { startLine: context.startLine, endLine: context.endLine }),
   };
 }
 
 async function streamChatResponse(
-  messages: Array<{ role: 'user' | 'assistant'; content: string }>,
-  model: ModelId,
-  codeContext: { fullCode: string; selectedPortion: string; language: string; filename: string } | undefined,
-  onChunk?: (text: string) => void
-): Promise<string> {
+  request: Omit<ChatRequest, 'stream'>,
+  onChunk?: (text: string) => void,
+  signal?: AbortSignal
+): Promise<ChatStreamResult> {
   const res = await fetch('/api/chat', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ messages, model, codeContext, stream: true }),
+    body: JSON.stringify({ ...request, stream: true }),
+    signal,
   });
 
   if (!res.ok) {
@@ -67,130 +134,284 @@ async function streamChatResponse(
     throw new Error(err.error || `Request failed: ${res.status}`);
   }
 
-  const reader = res.body?.getReader();
-  if (!reader) throw new Error('No response body');
-
-  const decoder = new TextDecoder();
-  let fullText = '';
-
-  while (true) {
-    const { done, value } = await reader.read();
-    if (done) break;
-
-    const chunk = decoder.decode(value, { stream: true });
-    const lines = chunk.split('\n');
-
-    for (const line of lines) {
-      if (line.startsWith('data: ')) {
-        const data = line.slice(6);
-        if (data === '[DONE]') continue;
-        try {
-          const parsed = JSON.parse(data) as { text?: string; error?: string };
-          if (parsed.error) throw new Error(parsed.error);
-          if (parsed.text) {
-            fullText += parsed.text;
-            onChunk?.(fullText);
-          }
-        } catch (e) {
-          if (e instanceof SyntaxError) continue;
-          throw e;
-        }
-      }
-    }
-  }
+  if (!res.body) throw new Error('No response body');
 
-  return fullText;
+  return readChatStream(res.body, { onText: onChunk });
 }
 
 export function ChatContainer({
-  messages,
-  onMessagesChange,
+  tree,
+  onTreeChange,
   activeChatId,
   onSaveChat,
-  codeContext,
+  codeContexts,
+  files = [],
+  onRemoveContext,
   onClearContext,
-  model = DEFAULT_MODEL,
+  onOpenInPanel,
+  onReply,
+  onFirstExchange,
+  model,
+  presetId,
+  summary,
+  modelInfo,
+  maxTokens = DEFAULT_MAX_TOKENS,
+  visionSupported = true,
+  focusRequest,
+  onOpenRelatedAnswer,
   className,
 }: ChatContainerProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [streamingContent, setStreamingContent] = useState('');
+  // History the in-flight reply is generated from (shown instead of the active path)
+  const [pendingHistory, setPendingHistory] = useState<Message[] | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const [draft, setDraft] = useState('');
+  // Hidden until the next question, once the user has seen them
+  const [relatedDismissed, setRelatedDismissed] = useState(false);
+  const relatedAnswers = useRelatedAnswers(onOpenRelatedAnswer ? draft : '', activeChatId);
+
+  useEffect(() => {
+    if (!draft.trim()) setRelatedDismissed(false);
+  }, [draft]);
+
+  // Abort any in-flight response when the chat view goes away
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const messages = useMemo(() => getActivePath(tree), [tree]);
+
+  // Sibling versions for messages on the active path that have alternatives
+  const branches = useMemo(() => {
+    const result: Record<string, string[]> = {};
+    for (const message of messages) {
+      const siblings = getSiblings(tree, message);
+      if (siblings.length > 1) result[message.id] = siblings.map((m) => m.id);
+    }
+    return result;
+  }, [tree, messages]);
 
-  const applyMessages = useCallback(
-    (newMessages: Message[], title?: string) => {
-      onMessagesChange(newMessages);
+  // Estimated context use of the next request, trimmed the way the server will
+  const contextUsage = useMemo(() => {
+    if (!modelInfo) return undefined;
+    const sent = applySummary(messages, summary);
+    return fitToContextWindow({
+      messages: buildApiMessages(sent.messages),
+      codeContext: codeContexts?.map((c) => buildApiCodeContext(c, files)),
+      model: modelInfo,
+      reservedOutputTokens: getReservedOutputTokens(modelInfo, maxTokens),
+      buildSystemPrompt: (contexts, excerpt) =>
+        buildPromptForMode('chat', contexts, { ...excerpt, conversationSummary: sent.summary }),
+      excerpt: DEFAULT_EXCERPT_OPTIONS,
+    }).usage;
+  }, [messages, summary, codeContexts, files, modelInfo, maxTokens]);
+
+  const applyTree = useCallback(
+    (newTree: MessageTree, title?: string) => {
+      onTreeChange(newTree);
       if (activeChatId && onSaveChat) {
-        onSaveChat(activeChatId, { messages: newMessages, ...(title !== undefined && { title }) });
+        return onSaveChat(activeChatId, {
+          tree: newTree,
+          ...(title !== undefined && { title, titleSource: 'placeholder' as const }),
+        });
       }
     },
-    [activeChatId, onMessagesChange, onSaveChat]
+    [activeChatId, onTreeChange, onSaveChat]
   );
 
-  const handleSend = useCallback(
-    async (content: string, context?: CodeContext, attachments?: Attachment[]) => {
+  /**
+   * Stream a new assistant reply to `parentId` and add it to the tree as the
+   * selected branch. Earlier replies to the same message are kept as siblings.
+   */
+  const generateReply = useCallback(
+    async (baseTree: MessageTree, parentId: string, contexts?: CodeContext[], mode?: ChatMode) => {
       setError(null);
       setStreamingContent('');
 
-      const userMessage: Message = {
-        id: `msg-${Date.now()}`,
-        role: 'user',
-        content,
-        timestamp: new Date(),
-        codeContext: context,
-        ...(attachments?.length && { attachments }),
-      };
+      if (!model) {
+        setError('No AI model is available. Configure a provider and select a model.');
+        return;
+      }
 
-      const updatedMessages = [...messages, userMessage];
-      const title = messages.length === 0 && content.trim()
-        ? content.slice(0, 50) + (content.length > 50 ? '...' : '')
-        : undefined;
-      applyMessages(updatedMessages, title);
+      const history = getPathTo(baseTree, parentId);
+      setPendingHistory(history);
       setIsLoading(true);
 
+      const controller = new AbortController();
+      abortRef.current = controller;
+      let partial = '';
+
       try {
-        const apiMessages = buildApiMessages(updatedMessages);
-        const apiCodeContext = buildApiCodeContext(context ?? codeContext);
-
-        const assistantContent = await streamChatResponse(
-          apiMessages,
-          model,
-          apiCodeContext,
-          (text) => setStreamingContent(text)
+        const sent = applySummary(history, summary);
+        const attached = contexts ?? codeContexts;
+
+        const result = await streamChatResponse(
+          {
+            messages: buildApiMessages(sent.messages),
+            model,
+            mode,
+            presetId,
+            codeContext: attached?.length ? attached.map((c) => buildApiCodeContext(c, files)) : undefined,
+            summary: sent.summary,
+          },
+          (text) => {
+            partial = text;
+            setStreamingContent(text);
+          },
+          controller.signal
         );
 
         const assistantMessage: Message = {
           id: `msg-${Date.now() + 1}`,
           role: 'assistant',
-          content: assistantContent,
+          content: result.content,
           timestamp: new Date(),
+          finishReason: result.finishReason,
         };
 
-        const finalMessages = [...updatedMessages, assistantMessage];
-        applyMessages(finalMessages);
+        const saved = applyTree(addMessage(baseTree, assistantMessage, parentId));
+        onReply?.(assistantMessage);
+        if (history.length === 1 && activeChatId && onFirstExchange) {
+          const chatId = activeChatId;
+          Promise.resolve(saved).then(() => onFirstExchange(chatId));
+        }
       } catch (err) {
+        if (controller.signal.aborted) {
+          // Stopped by the user: keep whatever arrived so far
+          if (partial) {
+            applyTree(
+              addMessage(
+                baseTree,
+                {
+                  id: `msg-${Date.now() + 1}`,
+                  role: 'assistant',
+                  content: partial,
+                  timestamp: new Date(),
+                  stopped: true,
+                },
+                parentId
+              )
+            );
+          }
+          return;
+        }
         const msg = err instanceof Error ? err.message : 'Failed to get response. Please try again.';
         setError(msg);
         console.error('Chat error:', err);
       } finally {
+        if (abortRef.current === controller) abortRef.current = null;
         setIsLoading(false);
         setStreamingContent('');
+        setPendingHistory(null);
       }
     },
-    [messages, applyMessages, codeContext, model]
+    [applyTree, activeChatId, codeContexts, files, model, presetId, summary, onReply, onFirstExchange]
   );
 
-  // Handle auto-trigger messages from code context
+  const handleSend = useCallback(
+    async (content: string, contexts?: CodeContext[], attachments?: Attachment[], mode?: ChatMode) => {
+      setError(null);
+
+      if (!model) {
+        setError('No AI model is available. Configure a provider and select a model.');
+        return;
+      }
+
+      const userMessage: Message = {
+        id: `msg-${Date.now()}`,
+        role: 'user',
+        content,
+        timestamp: new Date(),
+        ...(contexts?.length && { codeContexts: contexts }),
+        ...(attachments?.length && { attachments }),
+        ...(mode && mode !== 'chat' && { mode }),
+      };
+
+      const parentId = messages.length ? messages[messages.length - 1].id : null;
+      const updatedTree = addMessage(tree, userMessage, parentId);
+      const title = messages.length === 0 && content.trim()
+        ? content.slice(0, 50) + (content.length > 50 ? '...' : '')
+        : undefined;
+      applyTree(updatedTree, title);
+
+      await generateReply(updatedTree, userMessage.id, contexts, mode);
+    },
+    [messages, tree, applyTree, generateReply, model]
+  );
+
+  // Handle auto-trigger messages from code context; the rest of the attached
+  // files go along with it
   useEffect(() => {
-    if (codeContext?.initialMessage) {
-      handleSend(codeContext.initialMessage, codeContext);
+    const trigger = codeContexts?.find((c) => c.initialMessage);
+    if (trigger?.initialMessage) {
+      handleSend(
+        trigger.initialMessage,
+        codeContexts!.map((context) => ({ ...context, initialMessage: undefined, mode: undefined })),
+        undefined,
+        trigger.mode
+      );
       onClearContext?.();
     }
-  }, [codeContext, handleSend, onClearContext]);
+  }, [codeContexts, handleSend, onClearContext]);
 
+  const handleRegenerate = useCallback(
+    (messageId: string) => {
+      const reply = tree.nodes.find((m) => m.id === messageId);
+      if (!reply?.parentId) return;
+      const prompt = tree.nodes.find((m) => m.id === reply.parentId);
+      generateReply(tree, reply.parentId, prompt?.codeContexts, prompt?.mode);
+    },
+    [tree, generateReply]
+  );
+
+  // Editing sends the new text as a sibling of the original message
+  const handleEdit = useCallback(
+    (messageId: string, content: string) => {
+      const original = tree.nodes.find((m) => m.id === messageId);
+      if (!original) return;
+      const edited: Message = {
+        ...original,
+        id: `msg-${Date.now()}`,
+        content,
+        timestamp: new Date(),
+      };
+      const updatedTree = addMessage(tree, edited, original.parentId ?? null);
+      applyTree(updatedTree);
+      generateReply(updatedTree, edited.id, original.codeContexts, original.mode);
+    },
+    [tree, applyTree, generateReply]
+  );
+
+  const handleSelectBranch = useCallback(
+    (messageId: string) => {
+      applyTree(selectMessage(tree, messageId));
+    },
+    [tree, applyTree]
+  );
+
+  const handleStop = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
+
+  // Re-request a reply for the last user message (or the last reply's prompt)
   const handleRetry = useCallback(() => {
     setError(null);
-    // Could re-send the last message here
-  }, []);
+    const last = messages[messages.length - 1];
+    if (!last) return;
+    const parentId = last.role === 'user' ? last.id : last.parentId;
+    if (!parentId) return;
+    const prompt = tree.nodes.find((m) => m.id === parentId);
+    generateReply(tree, parentId, prompt?.codeContexts, prompt?.mode);
+  }, [messages, tree, generateReply]);
+
+  const displayedMessages = isLoading && pendingHistory
+    ? [
+        ...pendingHistory,
+        ...(streamingContent
+          ? [{ id: 'streaming', role: 'assistant' as const, content: streamingContent, timestamp: new Date() }]
+          : []),
+      ]
+    : messages;
 
   return (
     <ErrorBoundary>
@@ -198,8 +419,14 @@ export function ChatContainer({
         {/* Messages */}
         <div className="flex-1 overflow-hidden">
           <MessageList
-            messages={isLoading && streamingContent ? [...messages, { id: 'streaming', role: 'assistant' as const, content: streamingContent, timestamp: new Date() }] : messages}
+            messages={displayedMessages}
             isLoading={isLoading && !streamingContent}
+            branches={branches}
+            onSelectBranch={isLoading ? undefined : handleSelectBranch}
+            onRegenerate={isLoading ? undefined : handleRegenerate}
+            onEdit={isLoading ? undefined : handleEdit}
+            onOpenInPanel={onOpenInPanel}
+            focusRequest={focusRequest}
             className="h-full"
           />
         </div>
@@ -213,11 +440,24 @@ export function ChatContainer({
 
         {/* Input */}
         <div className="border-t border-border bg-background p-4">
+          {onOpenRelatedAnswer && !relatedDismissed && (
+            <RelatedAnswers
+              answers={relatedAnswers}
+              onOpen={onOpenRelatedAnswer}
+              onDismiss={() => setRelatedDismissed(true)}
+              className="mb-2"
+            />
+          )}
           <ChatInput
             onSend={handleSend}
-            codeContext={codeContext}
+            codeContexts={codeContexts}
+            onRemoveContext={onRemoveContext}
             onClearContext={onClearContext}
             isLoading={isLoading}
+            onStop={handleStop}
+            allowImages={visionSupported}
+            contextUsage={contextUsage}
+            onDraftChange={setDraft}
           />
         </div>
       </div>
@@ -1,10 +1,11 @@
 'use client';
 
-import { useState, useCallback } from 'react';
-import { MessageSquarePlus, Trash2, MessageSquare } from 'lucide-react';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { MessageSquarePlus, Trash2, MessageSquare, Pencil, Pin, ChevronDown, ChevronRight, Folder } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import type { ChatListItem } from '@/types/chat-history';
+import { ChatListItemMenu, type ChatListItemAction } from './ChatListItemMenu';
+import type { ChatListItem, UpdateChatBody } from '@/types/chat-history';
 import { cn } from '@/lib/utils';
 
 function formatDate(iso: string): string {
@@ -18,13 +19,69 @@ function formatDate(iso: string): string {
   return d.toLocaleDateString();
 }
 
+interface ChatGroup {
+  key: string;
+  label: string;
+  /** Folder the group lists; folder groups can be collapsed */
+  folder?: string;
+  chats: ChatListItem[];
+}
+
+/**
+ * Pinned chats first, then one group per folder, then unfiled chats. Each
+ * group keeps the order of the list.
+ */
+function groupChats(chats: ChatListItem[]): ChatGroup[] {
+  const pinned = chats.filter((c) => c.pinned);
+  const rest = chats.filter((c) => !c.pinned);
+  const folders = Array.from(new Set(rest.flatMap((c) => (c.folder ? [c.folder] : [])))).sort((a, b) =>
+    a.localeCompare(b)
+  );
+  const groups: ChatGroup[] = [
+    { key: 'pinned', label: 'Pinned', chats: pinned },
+    ...folders.map((folder) => ({
+      key: `folder:${folder}`,
+      label: folder,
+      folder,
+      chats: rest.filter((c) => c.folder === folder),
+    })),
+    { key: 'chats', label: 'Chats', chats: rest.filter((c) => !c.folder) },
+  ];
+  return groups.filter((g) => g.chats.length > 0);
+}
+
+/** What is being edited in place on a list entry */
+interface InlineEdit {
+  id: string;
+  field: 'title' | 'folder' | 'tags';
+  value: string;
+}
+
+const EDIT_PLACEHOLDERS: Record<InlineEdit['field'], string> = {
+  title: 'Chat title',
+  folder: 'Folder name',
+  tags: 'Tags, comma separated',
+};
+
 interface ChatHistoryListProps {
   chats: ChatListItem[];
   activeChatId: string | null;
   isLoading: boolean;
   onSelect: (id: string) => void;
   onNewChat: () => void;
+  /** Move a chat to the trash */
   onDelete: (id: string) => void;
+  onRename?: (id: string, title: string) => void;
+  /** Pin, archive, tag or file a chat; enables the actions menu */
+  onUpdate?: (id: string, updates: UpdateChatBody) => void;
+  /** Folders in use, suggested when filing a chat */
+  folders?: string[];
+  /** More chats can be loaded; the next page loads when the end is scrolled into view */
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
+  /** Shown instead of the prompt to start a chat when filters hide every chat */
+  emptyMessage?: string;
   className?: string;
 }
 
@@ -35,23 +92,167 @@ export function ChatHistoryList({
   onSelect,
   onNewChat,
   onDelete,
+  onRename,
+  onUpdate,
+  folders = [],
+  hasMore,
+  isLoadingMore,
+  onLoadMore,
+  emptyMessage = 'No chats yet. Start a new conversation.',
   className,
 }: ChatHistoryListProps) {
-  const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
-
-  const handleDelete = useCallback(
-    (id: string) => {
-      if (deleteConfirmId === id) {
-        onDelete(id);
-        setDeleteConfirmId(null);
-      } else {
-        setDeleteConfirmId(id);
-        setTimeout(() => setDeleteConfirmId(null), 2000);
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const end = endRef.current;
+    if (!end || !hasMore || !onLoadMore) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((e) => e.isIntersecting)) onLoadMore();
+    });
+    observer.observe(end);
+    return () => observer.disconnect();
+  }, [hasMore, onLoadMore, chats.length]);
+
+  const [editing, setEditing] = useState<InlineEdit | null>(null);
+  const [collapsedFolders, setCollapsedFolders] = useState<Set<string>>(new Set());
+
+  const startEdit = useCallback((chat: ChatListItem, field: InlineEdit['field']) => {
+    const value = field === 'title' ? chat.title : field === 'folder' ? chat.folder ?? '' : (chat.tags ?? []).join(', ');
+    setEditing({ id: chat.id, field, value });
+  }, []);
+
+  const commitEdit = useCallback(() => {
+    if (!editing) return;
+    setEditing(null);
+    const chat = chats.find((c) => c.id === editing.id);
+    if (!chat) return;
+    const value = editing.value.trim();
+    if (editing.field === 'title') {
+      if (value && value !== chat.title) onRename?.(chat.id, value);
+    } else if (editing.field === 'folder') {
+      if (value !== (chat.folder ?? '')) onUpdate?.(chat.id, { folder: value || null });
+    } else {
+      const next = value.split(',').map((t) => t.trim()).filter(Boolean);
+      if (next.join(',') !== (chat.tags ?? []).join(',')) onUpdate?.(chat.id, { tags: next });
+    }
+  }, [editing, chats, onRename, onUpdate]);
+
+  const handleAction = useCallback(
+    (chat: ChatListItem, action: ChatListItemAction) => {
+      switch (action) {
+        case 'pin':
+        case 'unpin':
+          onUpdate?.(chat.id, { pinned: action === 'pin' });
+          break;
+        case 'archive':
+        case 'unarchive':
+          onUpdate?.(chat.id, { archived: action === 'archive' });
+          break;
+        case 'folder':
+        case 'tags':
+          startEdit(chat, action);
+          break;
       }
     },
-    [deleteConfirmId, onDelete]
+    [onUpdate, startEdit]
   );
 
+  const toggleFolder = useCallback((folder: string) => {
+    setCollapsedFolders((prev) => {
+      const next = new Set(prev);
+      if (!next.delete(folder)) next.add(folder);
+      return next;
+    });
+  }, []);
+
+  const renderChat = (chat: ChatListItem) => {
+    const edit = editing?.id === chat.id ? editing : null;
+    const Icon = chat.pinned ? Pin : MessageSquare;
+    return (
+      <div
+        key={chat.id}
+        className={cn(
+          'group flex items-center gap-2 rounded-md px-2 py-2 text-sm cursor-pointer transition-colors',
+          activeChatId === chat.id
+            ? 'bg-primary/15 text-foreground'
+            : 'hover:bg-muted/80 text-muted-foreground hover:text-foreground'
+        )}
+        onClick={() => onSelect(chat.id)}
+      >
+        <Icon className="h-4 w-4 shrink-0 opacity-70" />
+        <div className="flex-1 min-w-0">
+          {edit ? (
+            <input
+              autoFocus
+              value={edit.value}
+              maxLength={edit.field === 'title' ? 200 : edit.field === 'folder' ? 100 : 400}
+              list={edit.field === 'folder' ? 'chat-folders' : undefined}
+              placeholder={EDIT_PLACEHOLDERS[edit.field]}
+              onChange={(e) => setEditing({ ...edit, value: e.target.value })}
+              onClick={(e) => e.stopPropagation()}
+              onBlur={commitEdit}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  commitEdit();
+                } else if (e.key === 'Escape') {
+                  setEditing(null);
+                }
+              }}
+              className="w-full rounded-sm border border-input bg-background px-1 font-medium text-foreground outline-none placeholder:font-normal placeholder:text-muted-foreground focus-visible:ring-1 focus-visible:ring-ring"
+              aria-label={EDIT_PLACEHOLDERS[edit.field]}
+            />
+          ) : (
+            <p
+              className="truncate font-medium"
+              onDoubleClick={onRename ? () => startEdit(chat, 'title') : undefined}
+            >
+              {chat.title || 'New Chat'}
+            </p>
+          )}
+          <p className="truncate text-xs opacity-70">
+            {formatDate(chat.updatedAt)}
+            {chat.tags?.map((tag) => (
+              <span key={tag} className="ml-1.5">
+                #{tag}
+              </span>
+            ))}
+          </p>
+        </div>
+        {onRename && !edit && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 shrink-0 opacity-0 group-hover:opacity-100 transition-opacity cursor-pointer"
+            onClick={(e) => {
+              e.stopPropagation();
+              startEdit(chat, 'title');
+            }}
+            aria-label="Rename chat"
+          >
+            <Pencil className="h-3.5 w-3.5" />
+          </Button>
+        )}
+        {onUpdate && !edit && <ChatListItemMenu chat={chat} onAction={(action) => handleAction(chat, action)} />}
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7 shrink-0 opacity-0 group-hover:opacity-100 transition-opacity cursor-pointer"
+          onClick={(e) => {
+            e.stopPropagation();
+            onDelete(chat.id);
+          }}
+          aria-label="Move to trash"
+          title="Move to trash"
+        >
+          <Trash2 className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+    );
+  };
+
+  const groups = groupChats(chats);
+
   return (
     <div className={cn('flex flex-col h-full', className)}>
       <Button
@@ -64,6 +265,12 @@ export function ChatHistoryList({
         New Chat
       </Button>
 
+      <datalist id="chat-folders">
+        {folders.map((folder) => (
+          <option key={folder} value={folder} />
+        ))}
+      </datalist>
+
       <ScrollArea className="flex-1 -mx-2 px-2">
         {isLoading ? (
           <div className="py-6 text-center text-sm text-muted-foreground">
@@ -71,52 +278,41 @@ export function ChatHistoryList({
           </div>
         ) : chats.length === 0 ? (
           <div className="py-6 text-center text-sm text-muted-foreground">
-            No chats yet. Start a new conversation.
+            {emptyMessage}
           </div>
         ) : (
           <div className="space-y-0.5">
-            {chats.map((chat) => (
-              <div
-                key={chat.id}
-                className={cn(
-                  'group flex items-center gap-2 rounded-md px-2 py-2 text-sm cursor-pointer transition-colors',
-                  activeChatId === chat.id
-                    ? 'bg-primary/15 text-foreground'
-                    : 'hover:bg-muted/80 text-muted-foreground hover:text-foreground'
-                )}
-                onClick={() => onSelect(chat.id)}
-              >
-                <MessageSquare className="h-4 w-4 shrink-0 opacity-70" />
-                <div className="flex-1 min-w-0">
-                  <p className="truncate font-medium">{chat.title || 'New Chat'}</p>
-                  <p className="text-xs opacity-70">{formatDate(chat.updatedAt)}</p>
-                </div>
-                <Button
-                  variant="ghost"
-                  size="icon"
-                  className={cn(
-                    'h-7 w-7 shrink-0 opacity-0 group-hover:opacity-100 transition-opacity cursor-pointer',
-                    deleteConfirmId === chat.id && 'opacity-100 text-destructive'
+            {groups.map((group) => {
+              // A list without pinned or filed chats needs no headings
+              if (groups.length === 1 && group.key === 'chats') return group.chats.map(renderChat);
+              const collapsed = group.folder !== undefined && collapsedFolders.has(group.folder);
+              return (
+                <div key={group.key} className="pb-1">
+                  {group.folder !== undefined ? (
+                    <button
+                      className="flex w-full items-center gap-1 px-2 pb-0.5 pt-2 text-left text-xs font-medium text-muted-foreground hover:text-foreground cursor-pointer"
+                      onClick={() => toggleFolder(group.folder!)}
+                      aria-expanded={!collapsed}
+                    >
+                      {collapsed ? <ChevronRight className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+                      <Folder className="h-3 w-3" />
+                      <span className="truncate">{group.label}</span>
+                    </button>
+                  ) : (
+                    <p className="px-2 pb-0.5 pt-2 text-xs font-medium text-muted-foreground">{group.label}</p>
                   )}
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    handleDelete(chat.id);
-                  }}
-                  aria-label={deleteConfirmId === chat.id ? 'Confirm delete' : 'Delete chat'}
-                >
-                  <Trash2 className="h-3.5 w-3.5" />
-                </Button>
+                  {!collapsed && group.chats.map(renderChat)}
+                </div>
+              );
+            })}
+            {hasMore && (
+              <div ref={endRef} className="py-2 text-center text-xs text-muted-foreground">
+                {isLoadingMore ? 'Loading more...' : '\u00a0'}
               </div>
-            ))}
+            )}
           </div>
         )}
       </ScrollArea>
-
-      {deleteConfirmId && (
-        <p className="text-xs text-muted-foreground mt-2 px-2">
-          Click delete again to confirm
-        </p>
-      )}
     </div>
   );
 }
@@ -1,7 +1,7 @@
 'use client';
 
 import { useState } from 'react';
-import { PanelLeftOpen, PanelLeftClose } from 'lucide-react';
+import { Archive, ArrowLeft, PanelLeftOpen, PanelLeftClose, Search, Sparkles, Trash2, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
   Tooltip,
@@ -10,7 +10,20 @@ import {
   TooltipTrigger,
 } from '@/components/ui/tooltip';
 import { ChatHistoryList } from './ChatHistoryList';
-import type { ChatListItem } from '@/types/chat-history';
+import { ChatSearchResults } from './ChatSearchResults';
+import { ChatListFilters } from './ChatListFilters';
+import { ChatTrashList } from './ChatTrashList';
+import { hasChatListFilters } from '@/lib/chat-list';
+import { useChatSearch } from '@/hooks/useChatSearch';
+import { useChatTrash } from '@/hooks/useChatTrash';
+import type {
+  ChatLabelsResponse,
+  ChatListItem,
+  ChatListQuery,
+  ChatSearchHit,
+  SimilarChat,
+  UpdateChatBody,
+} from '@/types/chat-history';
 import { cn } from '@/lib/utils';
 
 interface ChatHistorySidebarProps {
@@ -19,13 +32,35 @@ interface ChatHistorySidebarProps {
   isLoading: boolean;
   onSelect: (id: string) => void;
   onNewChat: () => void;
+  /** Move a chat to the trash */
   onDelete: (id: string) => void;
+  /** Take a chat out of the trash; enables the trash view */
+  onRestore?: (id: string) => Promise<boolean>;
+  onRename?: (id: string, title: string) => void;
+  /** Pin, archive, tag or file a chat */
+  onUpdate?: (id: string, updates: UpdateChatBody) => void;
+  /** Folders and tags in use */
+  labels?: ChatLabelsResponse;
+  /** Open the chat a search hit belongs to, at the matching message */
+  onOpenSearchResult?: (hit: ChatSearchHit) => void;
+  /** Chats related to the active one, listed below the history */
+  similarChats?: SimilarChat[];
+  /** Sorting and filters of the list; shows the controls when set */
+  listQuery?: ChatListQuery;
+  onListQueryChange?: (query: ChatListQuery) => void;
+  /** Models offered as a filter */
+  models?: { id: string; label: string }[];
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
   defaultCollapsed?: boolean;
   className?: string;
 }
 
 const SIDEBAR_WIDTH = 240;
 
+const noRestore = async () => false;
+
 export function ChatHistorySidebar({
   chats,
   activeChatId,
@@ -33,10 +68,33 @@ export function ChatHistorySidebar({
   onSelect,
   onNewChat,
   onDelete,
+  onRestore,
+  onRename,
+  onUpdate,
+  labels,
+  onOpenSearchResult,
+  similarChats = [],
+  listQuery,
+  onListQueryChange,
+  models,
+  hasMore,
+  isLoadingMore,
+  onLoadMore,
   defaultCollapsed = false,
   className,
 }: ChatHistorySidebarProps) {
   const [collapsed, setCollapsed] = useState(defaultCollapsed);
+  const search = useChatSearch();
+  const searching = search.query.trim() !== '';
+  const [showingTrash, setShowingTrash] = useState(false);
+  const trash = useChatTrash({ enabled: showingTrash && !!onRestore, onRestore: onRestore ?? noRestore });
+  const showingArchive = !showingTrash && !!listQuery?.archived;
+  const folders = labels?.folders.map((f) => f.name);
+  const tags = labels?.tags.map((t) => t.name);
+
+  let emptyMessage: string | undefined;
+  if (showingArchive) emptyMessage = 'No archived chats.';
+  else if (listQuery && hasChatListFilters(listQuery)) emptyMessage = 'No chats match the filters.';
 
   return (
     <div
@@ -50,7 +108,9 @@ export function ChatHistorySidebar({
       <div className="flex flex-col w-full h-full">
         <div className="flex items-center justify-between border-b border-border px-3 py-2 shrink-0">
           {!collapsed && (
-            <span className="text-sm font-medium text-muted-foreground">History</span>
+            <span className="text-sm font-medium text-muted-foreground">
+              {showingTrash ? 'Trash' : showingArchive ? 'Archive' : 'History'}
+            </span>
           )}
           <TooltipProvider>
             <Tooltip>
@@ -75,16 +135,137 @@ export function ChatHistorySidebar({
           </TooltipProvider>
         </div>
         {!collapsed && (
-          <div className="flex-1 overflow-hidden p-3">
-            <ChatHistoryList
-              chats={chats}
-              activeChatId={activeChatId}
-              isLoading={isLoading}
-              onSelect={onSelect}
-              onNewChat={onNewChat}
-              onDelete={onDelete}
-              className="h-full"
-            />
+          <div className="flex flex-1 flex-col overflow-hidden p-3">
+            {onOpenSearchResult && !showingTrash && (
+              <div className="relative mb-3 shrink-0">
+                <Search className="pointer-events-none absolute left-2 top-1/2 h-3.5 w-3.5 -translate-y-1/2 text-muted-foreground" />
+                <input
+                  type="search"
+                  value={search.query}
+                  onChange={(e) => search.setQuery(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Escape') search.setQuery('');
+                  }}
+                  placeholder="Search chats"
+                  className="h-8 w-full rounded-md border border-input bg-background pl-7 pr-7 text-sm outline-none placeholder:text-muted-foreground focus-visible:ring-1 focus-visible:ring-ring [&::-webkit-search-cancel-button]:hidden"
+                  aria-label="Search chats"
+                />
+                {searching && (
+                  <button
+                    className="absolute right-1.5 top-1/2 -translate-y-1/2 rounded-sm p-0.5 text-muted-foreground hover:text-foreground cursor-pointer"
+                    onClick={() => search.setQuery('')}
+                    aria-label="Clear search"
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </button>
+                )}
+              </div>
+            )}
+            {!searching && !showingTrash && listQuery && onListQueryChange && (
+              <ChatListFilters
+                query={listQuery}
+                onChange={onListQueryChange}
+                models={models}
+                folders={folders}
+                tags={tags}
+                className="mb-3 shrink-0"
+              />
+            )}
+            {showingTrash ? (
+              <ChatTrashList
+                chats={trash.chats}
+                retentionDays={trash.retentionDays}
+                isLoading={trash.isLoading}
+                error={trash.error}
+                onRestore={trash.restore}
+                onPurge={trash.purge}
+                onEmpty={trash.emptyTrash}
+                className="min-h-0 flex-1"
+              />
+            ) : searching && onOpenSearchResult ? (
+              <ChatSearchResults
+                hits={search.hits}
+                isSearching={search.isSearching}
+                error={search.error}
+                onSelect={onOpenSearchResult}
+                className="min-h-0 flex-1"
+              />
+            ) : (
+              <ChatHistoryList
+                chats={chats}
+                activeChatId={activeChatId}
+                isLoading={isLoading}
+                onSelect={onSelect}
+                onNewChat={onNewChat}
+                onDelete={onDelete}
+                onRename={onRename}
+                onUpdate={onUpdate}
+                folders={folders}
+                hasMore={hasMore}
+                isLoadingMore={isLoadingMore}
+                onLoadMore={onLoadMore}
+                emptyMessage={emptyMessage}
+                className="min-h-0 flex-1"
+              />
+            )}
+            {(showingTrash || showingArchive) && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="mt-2 h-7 w-full shrink-0 justify-start gap-2 text-xs text-muted-foreground cursor-pointer"
+                onClick={() => {
+                  if (showingTrash) setShowingTrash(false);
+                  else if (listQuery && onListQueryChange) onListQueryChange({ ...listQuery, archived: undefined });
+                }}
+              >
+                <ArrowLeft className="h-3.5 w-3.5" />
+                Back to chats
+              </Button>
+            )}
+            {!searching && !showingTrash && !showingArchive && (
+              <div className="mt-2 flex shrink-0 gap-1">
+                {listQuery && onListQueryChange && onUpdate && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 flex-1 justify-start gap-2 text-xs text-muted-foreground cursor-pointer"
+                    onClick={() => onListQueryChange({ ...listQuery, archived: true })}
+                  >
+                    <Archive className="h-3.5 w-3.5" />
+                    Archived
+                  </Button>
+                )}
+                {onRestore && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 flex-1 justify-start gap-2 text-xs text-muted-foreground cursor-pointer"
+                    onClick={() => setShowingTrash(true)}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                    Trash
+                  </Button>
+                )}
+              </div>
+            )}
+            {!searching && !showingTrash && similarChats.length > 0 && (
+              <div className="mt-3 shrink-0 border-t border-border pt-2">
+                <p className="mb-1 flex items-center gap-1.5 px-2 text-xs font-medium text-muted-foreground">
+                  <Sparkles className="h-3.5 w-3.5" />
+                  Similar chats
+                </p>
+                {similarChats.map((chat) => (
+                  <button
+                    key={chat.id}
+                    className="block w-full truncate rounded-md px-2 py-1 text-left text-sm text-muted-foreground transition-colors hover:bg-muted/80 hover:text-foreground cursor-pointer"
+                    onClick={() => onSelect(chat.id)}
+                    title={chat.title}
+                  >
+                    {chat.title || 'New Chat'}
+                  </button>
+                ))}
+              </div>
+            )}
           </div>
         )}
       </div>
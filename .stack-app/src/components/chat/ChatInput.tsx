@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useRef, useEffect, useCallback, type KeyboardEvent, type ChangeEvent } from 'react';
-import { Send, Code, X, Paperclip, FileText } from 'lucide-react';
+import { Send, Code, X, Paperclip, FileText, Square } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import {
@@ -10,28 +10,46 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from '@/components/ui/tooltip';
+import { ContextUsageIndicator } from './ContextUsageIndicator';
 import type { CodeContext, Attachment } from '@/types';
+import type { ContextUsage } from '@/lib/ai/context-budget';
 import { cn } from '@/lib/utils';
 
-const ACCEPTED_IMAGE_TYPES = 'image/*';
+const ACCEPTED_IMAGE_TYPES = 'image/png,image/jpeg,image/gif,image/webp';
 const ACCEPTED_FILE_TYPES = '.txt,.md,.json,.csv,.log,.py,.ts,.tsx,.js,.jsx,.html,.css';
 const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
 const MAX_IMAGE_SIZE = 5 * 1024 * 1024; // 5MB
 
 interface ChatInputProps {
-  onSend: (message: string, codeContext?: CodeContext, attachments?: Attachment[]) => void;
-  codeContext?: CodeContext | null;
+  onSend: (message: string, codeContexts?: CodeContext[], attachments?: Attachment[]) => void;
+  /** Files and selections sent with the next message */
+  codeContexts?: CodeContext[];
+  /** Detaches one file or selection; shows a remove button on each */
+  onRemoveContext?: (index: number) => void;
   onClearContext?: () => void;
   isLoading?: boolean;
+  /** Cancels the in-flight response; shows a Stop button while loading */
+  onStop?: () => void;
+  /** False when the selected model cannot see images */
+  allowImages?: boolean;
+  /** Estimated context window use of the next request */
+  contextUsage?: ContextUsage;
+  /** Called with the text being written, e.g. to look up related answers */
+  onDraftChange?: (text: string) => void;
   placeholder?: string;
   className?: string;
 }
 
 export function ChatInput({
   onSend,
-  codeContext,
+  codeContexts = [],
+  onRemoveContext,
   onClearContext,
   isLoading,
+  onStop,
+  allowImages = true,
+  contextUsage,
+  onDraftChange,
   placeholder = 'Ask a question... (Press / to focus)',
   className,
 }: ChatInputProps) {
@@ -41,6 +59,10 @@ export function ChatInput({
   const fileInputRef = useRef<HTMLInputElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
+  useEffect(() => {
+    onDraftChange?.(value);
+  }, [value, onDraftChange]);
+
   const handleAttachClick = useCallback(() => {
     fileInputRef.current?.click();
   }, []);
@@ -66,6 +88,7 @@ export function ChatInput({
     });
 
   const isImageFile = (file: File) => file.type.startsWith('image/');
+  const isSupportedImage = (file: File) => ACCEPTED_IMAGE_TYPES.split(',').includes(file.type);
 
   const handleFileChange = useCallback(
     async (e: ChangeEvent<HTMLInputElement>) => {
@@ -76,6 +99,14 @@ export function ChatInput({
       for (let i = 0; i < files.length; i++) {
         const file = files[i];
         if (isImageFile(file)) {
+          if (!allowImages) {
+            setAttachError(`The selected model can't read images. Switch to a vision model to attach ${file.name}`);
+            continue;
+          }
+          if (!isSupportedImage(file)) {
+            setAttachError(`Image ${file.name} must be PNG, JPEG, GIF or WebP`);
+            continue;
+          }
           if (file.size > MAX_IMAGE_SIZE) {
             setAttachError(`Image ${file.name} exceeds 5MB limit`);
             continue;
@@ -114,7 +145,7 @@ export function ChatInput({
       }
       e.target.value = '';
     },
-    []
+    [allowImages]
   );
 
   const removeAttachment = useCallback((index: number) => {
@@ -147,16 +178,22 @@ export function ChatInput({
     return () => window.removeEventListener('keydown', handleFocusShortcut);
   }, [focus]);
 
+  const hasImages = attachments.some((att) => att.type === 'image');
+
   const handleSubmit = useCallback(() => {
     const trimmedValue = value.trim();
     if ((!trimmedValue && attachments.length === 0) || isLoading) return;
+    if (!allowImages && hasImages) {
+      setAttachError("The selected model can't read images. Remove them or switch to a vision model.");
+      return;
+    }
 
     const content = trimmedValue || `[Attached ${attachments.length} file(s)]`;
-    onSend(content, codeContext || undefined, attachments.length ? attachments : undefined);
+    onSend(content, codeContexts.length ? codeContexts : undefined, attachments.length ? attachments : undefined);
     setValue('');
     setAttachments([]);
     onClearContext?.();
-  }, [value, attachments, isLoading, onSend, codeContext, onClearContext]);
+  }, [value, attachments, isLoading, allowImages, hasImages, onSend, codeContexts, onClearContext]);
 
   const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
     // Submit on Enter (without Shift)
@@ -220,30 +257,55 @@ export function ChatInput({
         <p className="text-xs text-destructive">{attachError}</p>
       )}
 
-      {/* Code Context Badge */}
-      {codeContext && (
-        <div className="flex items-center gap-2 rounded-lg bg-muted/50 px-3 py-2 animate-fade-in">
-          <Code className="h-4 w-4 text-accent" />
-          <div className="flex-1 min-w-0">
-            <span className="text-xs font-medium text-foreground">
-              {codeContext.fileName}
-            </span>
-            <span className="mx-2 text-xs text-muted-foreground">
-              Lines {codeContext.startLine}-{codeContext.endLine}
-            </span>
-            <span className="text-xs text-muted-foreground/60">
-              {codeContext.language}
-            </span>
+      {/* Code Context Badges */}
+      {codeContexts.length > 0 && (
+        <div className="flex items-start gap-2 rounded-lg bg-muted/50 px-3 py-2 animate-fade-in">
+          <Code className="mt-1 h-4 w-4 shrink-0 text-accent" />
+          <div className="flex flex-1 min-w-0 flex-wrap gap-1.5">
+            {codeContexts.map((context, i) => (
+              <div
+                key={`${context.fileName}:${context.startLine}-${context.endLine}:${i}`}
+                className="flex items-center gap-1.5 rounded-md border border-border bg-background py-0.5 pl-2 pr-0.5"
+              >
+                <span className="text-xs font-medium text-foreground">{context.fileName}</span>
+                <span className="text-xs text-muted-foreground">
+                  {context.wholeFile ? 'Whole file' : `Lines ${context.startLine}-${context.endLine}`}
+                </span>
+                {onRemoveContext && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-5 w-5 cursor-pointer hover:bg-muted"
+                    onClick={() => onRemoveContext(i)}
+                    aria-label={`Remove ${context.fileName} from context`}
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                )}
+              </div>
+            ))}
           </div>
-          <Button
-            variant="ghost"
-            size="icon"
-            className="h-6 w-6 cursor-pointer hover:bg-muted"
-            onClick={onClearContext}
-            aria-label="Clear code context"
-          >
-            <X className="h-3 w-3" />
-          </Button>
+          {codeContexts.length > 1 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 cursor-pointer px-2 text-xs hover:bg-muted"
+              onClick={onClearContext}
+            >
+              Clear all
+            </Button>
+          )}
+          {codeContexts.length === 1 && !onRemoveContext && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6 cursor-pointer hover:bg-muted"
+              onClick={onClearContext}
+              aria-label="Clear code context"
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          )}
         </div>
       )}
 
@@ -280,40 +342,64 @@ export function ChatInput({
           rows={1}
         />
 
-        <TooltipProvider>
-          <Tooltip>
-            <TooltipTrigger asChild>
-              <Button
-                size="icon"
-                className={cn(
-                  'h-9 w-9 shrink-0 cursor-pointer transition-all duration-200',
-                  (value.trim() || attachments.length > 0)
-                    ? 'bg-primary text-primary-foreground hover:bg-primary/90'
-                    : 'bg-muted text-muted-foreground'
-                )}
-                onClick={handleSubmit}
-                disabled={(!value.trim() && attachments.length === 0) || isLoading}
-                aria-label="Send message"
-              >
-                {isLoading ? (
-                  <div className="h-4 w-4 animate-spin rounded-full border-2 border-current border-t-transparent" />
-                ) : (
-                  <Send className="h-4 w-4" />
-                )}
-              </Button>
-            </TooltipTrigger>
-            <TooltipContent>
-              <p>Send message (Enter)</p>
-            </TooltipContent>
-          </Tooltip>
-        </TooltipProvider>
+        {isLoading && onStop ? (
+          <TooltipProvider>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  size="icon"
+                  variant="outline"
+                  className="h-9 w-9 shrink-0 cursor-pointer"
+                  onClick={onStop}
+                  aria-label="Stop generating"
+                >
+                  <Square className="h-3.5 w-3.5 fill-current" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>Stop generating</p>
+              </TooltipContent>
+            </Tooltip>
+          </TooltipProvider>
+        ) : (
+          <TooltipProvider>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  size="icon"
+                  className={cn(
+                    'h-9 w-9 shrink-0 cursor-pointer transition-all duration-200',
+                    (value.trim() || attachments.length > 0)
+                      ? 'bg-primary text-primary-foreground hover:bg-primary/90'
+                      : 'bg-muted text-muted-foreground'
+                  )}
+                  onClick={handleSubmit}
+                  disabled={(!value.trim() && attachments.length === 0) || isLoading}
+                  aria-label="Send message"
+                >
+                  {isLoading ? (
+                    <div className="h-4 w-4 animate-spin rounded-full border-2 border-current border-t-transparent" />
+                  ) : (
+                    <Send className="h-4 w-4" />
+                  )}
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>Send message (Enter)</p>
+              </TooltipContent>
+            </Tooltip>
+          </TooltipProvider>
+        )}
       </div>
 
-      {/* Helper text */}
-      <p className="text-center text-xs text-muted-foreground/60">
-        Press <kbd className="rounded bg-muted px-1.5 py-0.5 font-mono text-[10px]">Enter</kbd> to send,{' '}
-        <kbd className="rounded bg-muted px-1.5 py-0.5 font-mono text-[10px]">Shift+Enter</kbd> for new line
-      </p>
+      {/* Helper text and context usage */}
+      <div className="relative flex items-center justify-center">
+        <p className="text-center text-xs text-muted-foreground/60">
+          Press <kbd className="rounded bg-muted px-1.5 py-0.5 font-mono text-[10px]">Enter</kbd> to send,{' '}
+          <kbd className="rounded bg-muted px-1.5 py-0.5 font-mono text-[10px]">Shift+Enter</kbd> for new line
+        </p>
+        {contextUsage && <ContextUsageIndicator usage={contextUsage} className="absolute right-0" />}
+      </div>
     </div>
   );
 }
@@ -0,0 +1,188 @@
+'use client';
+
+import { useState } from 'react';
+import { ArrowDownNarrowWide, ArrowUpNarrowWide, SlidersHorizontal } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { getSortOrder, hasChatListFilters } from '@/lib/chat-list';
+import type { ChatListQuery, ChatSortField } from '@/types/chat-history';
+import { cn } from '@/lib/utils';
+
+interface ChatListFiltersProps {
+  query: ChatListQuery;
+  onChange: (query: ChatListQuery) => void;
+  /** Models, folders and tags to filter by */
+  models?: { id: string; label: string }[];
+  folders?: string[];
+  tags?: string[];
+  className?: string;
+}
+
+const SORT_LABELS: Record<ChatSortField, string> = {
+  updated: 'Last updated',
+  created: 'Created',
+  title: 'Title',
+};
+
+const fieldClass =
+  'h-7 w-full rounded-md border border-input bg-background px-1.5 text-xs outline-none focus-visible:ring-1 focus-visible:ring-ring';
+
+/** Date input value (local day) for an ISO timestamp */
+function toDateInput(iso?: string): string {
+  if (!iso) return '';
+  const d = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+/** Start of a local day, optionally moved by `days` */
+function fromDateInput(value: string, days = 0): string | undefined {
+  if (!value) return undefined;
+  const [y, m, d] = value.split('-').map(Number);
+  return new Date(y, m - 1, d + days).toISOString();
+}
+
+/** Options for a label filter, keeping the current value when it is no longer in use */
+function withCurrent(names: string[], current?: string): string[] {
+  return current && !names.includes(current) ? [current, ...names] : names;
+}
+
+/**
+ * Sort control for the chat list, with the filters in a panel below it.
+ * Switching between the list and the archive is left to the sidebar.
+ */
+export function ChatListFilters({ query, onChange, models = [], folders = [], tags = [], className }: ChatListFiltersProps) {
+  const [open, setOpen] = useState(false);
+  const order = getSortOrder(query);
+  const filtered = hasChatListFilters({ ...query, archived: undefined });
+
+  const update = (changes: Partial<ChatListQuery>) => onChange({ ...query, ...changes });
+
+  return (
+    <div className={cn('text-xs', className)}>
+      <div className="flex items-center gap-1">
+        <select
+          value={query.sort ?? 'updated'}
+          onChange={(e) => update({ sort: e.target.value as ChatSortField, order: undefined })}
+          className={cn(fieldClass, 'flex-1 cursor-pointer')}
+          aria-label="Sort chats by"
+        >
+          {(Object.keys(SORT_LABELS) as ChatSortField[]).map((field) => (
+            <option key={field} value={field}>
+              {SORT_LABELS[field]}
+            </option>
+          ))}
+        </select>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7 shrink-0 cursor-pointer"
+          onClick={() => update({ order: order === 'asc' ? 'desc' : 'asc' })}
+          aria-label={order === 'asc' ? 'Ascending' : 'Descending'}
+          title={order === 'asc' ? 'Ascending' : 'Descending'}
+        >
+          {order === 'asc' ? <ArrowUpNarrowWide className="h-3.5 w-3.5" /> : <ArrowDownNarrowWide className="h-3.5 w-3.5" />}
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className={cn('h-7 w-7 shrink-0 cursor-pointer', filtered && 'text-primary')}
+          onClick={() => setOpen(!open)}
+          aria-label="Filters"
+          aria-expanded={open}
+          title="Filters"
+        >
+          <SlidersHorizontal className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+
+      {open && (
+        <div className="mt-2 space-y-2 rounded-md border border-border p-2">
+          <div className="grid grid-cols-2 gap-1.5">
+            <label className="space-y-0.5">
+              <span className="text-muted-foreground">From</span>
+              <input
+                type="date"
+                value={toDateInput(query.from)}
+                onChange={(e) => update({ from: fromDateInput(e.target.value) })}
+                className={fieldClass}
+              />
+            </label>
+            <label className="space-y-0.5">
+              <span className="text-muted-foreground">To</span>
+              <input
+                type="date"
+                // `to` is exclusive, so the picked day is stored as the start of the next one
+                value={toDateInput(query.to && new Date(new Date(query.to).getTime() - 1).toISOString())}
+                onChange={(e) => update({ to: fromDateInput(e.target.value, 1) })}
+                className={fieldClass}
+              />
+            </label>
+          </div>
+          <label className="block space-y-0.5">
+            <span className="text-muted-foreground">Model</span>
+            <select
+              value={query.model ?? ''}
+              onChange={(e) => update({ model: e.target.value || undefined })}
+              className={cn(fieldClass, 'cursor-pointer')}
+            >
+              <option value="">Any model</option>
+              {models.map((m) => (
+                <option key={m.id} value={m.id}>
+                  {m.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="block space-y-0.5">
+            <span className="text-muted-foreground">Folder</span>
+            <select
+              value={query.folder ?? ''}
+              onChange={(e) => update({ folder: e.target.value || undefined })}
+              className={cn(fieldClass, 'cursor-pointer')}
+            >
+              <option value="">Any folder</option>
+              {withCurrent(folders, query.folder).map((folder) => (
+                <option key={folder} value={folder}>
+                  {folder}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="block space-y-0.5">
+            <span className="text-muted-foreground">Tag</span>
+            <select
+              value={query.tag ?? ''}
+              onChange={(e) => update({ tag: e.target.value || undefined })}
+              className={cn(fieldClass, 'cursor-pointer')}
+            >
+              <option value="">Any tag</option>
+              {withCurrent(tags, query.tag).map((tag) => (
+                <option key={tag} value={tag}>
+                  {tag}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-1.5 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={query.hasCodeContext === true}
+              onChange={(e) => update({ hasCodeContext: e.target.checked ? true : undefined })}
+            />
+            <span>Only chats with code</span>
+          </label>
+          {filtered && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-full text-xs cursor-pointer"
+              onClick={() => onChange({ sort: query.sort, order: query.order, archived: query.archived })}
+            >
+              Clear filters
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Archive, ArchiveRestore, Ellipsis, FolderInput, Pin, PinOff, Tag } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { ChatListItem } from '@/types/chat-history';
+import { cn } from '@/lib/utils';
+
+export type ChatListItemAction = 'pin' | 'unpin' | 'folder' | 'tags' | 'archive' | 'unarchive';
+
+interface ChatListItemMenuProps {
+  chat: ChatListItem;
+  onAction: (action: ChatListItemAction) => void;
+  className?: string;
+}
+
+/**
+ * Actions for filing a chat away, behind a button on its list entry
+ */
+export function ChatListItemMenu({ chat, onAction, className }: ChatListItemMenuProps) {
+  const [open, setOpen] = useState(false);
+
+  // Close menu on outside click
+  useEffect(() => {
+    const handleClickOutside = () => setOpen(false);
+    if (open) {
+      document.addEventListener('click', handleClickOutside);
+      return () => document.removeEventListener('click', handleClickOutside);
+    }
+  }, [open]);
+
+  const items: { action: ChatListItemAction; label: string; icon: typeof Pin }[] = chat.archived
+    ? [{ action: 'unarchive', label: 'Unarchive', icon: ArchiveRestore }]
+    : [
+        chat.pinned
+          ? { action: 'unpin', label: 'Unpin', icon: PinOff }
+          : { action: 'pin', label: 'Pin to top', icon: Pin },
+        { action: 'folder', label: chat.folder ? 'Move to folder' : 'Add to folder', icon: FolderInput },
+        { action: 'tags', label: 'Edit tags', icon: Tag },
+        { action: 'archive', label: 'Archive', icon: Archive },
+      ];
+
+  return (
+    <div className={cn('relative', className)}>
+      <Button
+        variant="ghost"
+        size="icon"
+        className={cn(
+          'h-7 w-7 shrink-0 opacity-0 group-hover:opacity-100 transition-opacity cursor-pointer',
+          open && 'opacity-100'
+        )}
+        onClick={(e) => {
+          e.stopPropagation();
+          setOpen(!open);
+        }}
+        aria-label="More actions"
+        aria-haspopup="menu"
+        aria-expanded={open}
+      >
+        <Ellipsis className="h-3.5 w-3.5" />
+      </Button>
+
+      {open && (
+        <div
+          role="menu"
+          className="absolute right-0 top-full z-50 mt-1 min-w-[150px] rounded-md border border-border bg-popover py-1 shadow-lg animate-fade-in"
+        >
+          {items.map(({ action, label, icon: Icon }) => (
+            <button
+              key={action}
+              role="menuitem"
+              className="flex w-full items-center gap-2 px-3 py-1.5 text-left text-xs text-foreground transition-colors hover:bg-muted cursor-pointer"
+              onClick={(e) => {
+                e.stopPropagation();
+                setOpen(false);
+                onAction(action);
+              }}
+            >
+              <Icon className="h-3.5 w-3.5 text-muted-foreground" />
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
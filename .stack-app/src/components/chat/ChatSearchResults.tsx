@@ -0,0 +1,86 @@
+'use client';
+
+import { type ReactNode } from 'react';
+import { FileCode, MessageSquare, Type } from 'lucide-react';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import type { ChatSearchHit } from '@/types/chat-history';
+import { cn } from '@/lib/utils';
+
+interface ChatSearchResultsProps {
+  hits: ChatSearchHit[];
+  isSearching: boolean;
+  error?: string | null;
+  onSelect: (hit: ChatSearchHit) => void;
+  className?: string;
+}
+
+const FIELD_ICONS = {
+  title: Type,
+  message: MessageSquare,
+  file: FileCode,
+};
+
+function renderHighlighted(snippet: string, highlights: [number, number][]): ReactNode[] {
+  const parts: ReactNode[] = [];
+  let last = 0;
+  highlights.forEach(([start, end], i) => {
+    if (start > last) parts.push(snippet.slice(last, start));
+    parts.push(
+      <mark key={i} className="rounded-sm bg-primary/25 text-foreground">
+        {snippet.slice(start, end)}
+      </mark>
+    );
+    last = end;
+  });
+  if (last < snippet.length) parts.push(snippet.slice(last));
+  return parts;
+}
+
+function describeHit(hit: ChatSearchHit): string {
+  if (hit.field === 'title') return 'Title';
+  if (hit.field === 'file') return hit.messageId ? 'Attached files' : 'Pinned files';
+  return hit.role === 'user' ? 'You' : 'Assistant';
+}
+
+export function ChatSearchResults({ hits, isSearching, error, onSelect, className }: ChatSearchResultsProps) {
+  if (error) {
+    return <div className={cn('py-6 text-center text-sm text-destructive', className)}>{error}</div>;
+  }
+  if (hits.length === 0) {
+    return (
+      <div className={cn('py-6 text-center text-sm text-muted-foreground', className)}>
+        {isSearching ? 'Searching...' : 'No matching chats'}
+      </div>
+    );
+  }
+
+  return (
+    <ScrollArea className={cn('-mx-2 px-2', className)}>
+      <div className="space-y-0.5">
+        {hits.map((hit) => {
+          const Icon = FIELD_ICONS[hit.field];
+          return (
+            <button
+              key={`${hit.chatId}-${hit.field}-${hit.messageId ?? ''}`}
+              className="flex w-full gap-2 rounded-md px-2 py-2 text-left text-sm text-muted-foreground transition-colors hover:bg-muted/80 hover:text-foreground cursor-pointer"
+              onClick={() => onSelect(hit)}
+            >
+              <Icon className="mt-0.5 h-4 w-4 shrink-0 opacity-70" />
+              <div className="min-w-0 flex-1">
+                <p className="truncate font-medium text-foreground">
+                  {hit.field === 'title' ? renderHighlighted(hit.snippet, hit.highlights) : hit.chatTitle || 'New Chat'}
+                </p>
+                <p className="text-xs opacity-70">{describeHit(hit)}</p>
+                {hit.field !== 'title' && (
+                  <p className="mt-0.5 line-clamp-3 break-words text-xs">
+                    {renderHighlighted(hit.snippet, hit.highlights)}
+                  </p>
+                )}
+              </div>
+            </button>
+          );
+        })}
+      </div>
+    </ScrollArea>
+  );
+}
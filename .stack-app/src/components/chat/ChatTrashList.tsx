@@ -0,0 +1,130 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import { RotateCcw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import type { TrashedChat } from '@/types/chat-history';
+import { cn } from '@/lib/utils';
+
+interface ChatTrashListProps {
+  chats: TrashedChat[];
+  retentionDays: number | null;
+  isLoading: boolean;
+  error?: string | null;
+  onRestore: (id: string) => void;
+  onPurge: (id: string) => void;
+  onEmpty: () => void;
+  className?: string;
+}
+
+const CONFIRM_MS = 2000;
+
+function daysLeft(purgeAt: string): string {
+  const days = Math.ceil((new Date(purgeAt).getTime() - Date.now()) / (24 * 60 * 60 * 1000));
+  return days <= 1 ? 'Deleted within a day' : `Deleted in ${days} days`;
+}
+
+/**
+ * Chats in the trash, with restore and permanent deletion. Deleting for
+ * good takes a second click to confirm.
+ */
+export function ChatTrashList({
+  chats,
+  retentionDays,
+  isLoading,
+  error,
+  onRestore,
+  onPurge,
+  onEmpty,
+  className,
+}: ChatTrashListProps) {
+  // ID of the chat awaiting a second click, or 'all' for emptying the trash
+  const [confirming, setConfirming] = useState<string | null>(null);
+
+  const confirm = useCallback(
+    (target: string, action: () => void) => {
+      if (confirming === target) {
+        action();
+        setConfirming(null);
+      } else {
+        setConfirming(target);
+        setTimeout(() => setConfirming((current) => (current === target ? null : current)), CONFIRM_MS);
+      }
+    },
+    [confirming]
+  );
+
+  return (
+    <div className={cn('flex flex-col h-full', className)}>
+      {retentionDays !== null && (
+        <p className="mb-2 px-2 text-xs text-muted-foreground">
+          Chats in the trash are deleted for good after {retentionDays} {retentionDays === 1 ? 'day' : 'days'}.
+        </p>
+      )}
+
+      <ScrollArea className="flex-1 -mx-2 px-2">
+        {error ? (
+          <div className="py-6 text-center text-sm text-destructive">{error}</div>
+        ) : isLoading && chats.length === 0 ? (
+          <div className="py-6 text-center text-sm text-muted-foreground">Loading trash...</div>
+        ) : chats.length === 0 ? (
+          <div className="py-6 text-center text-sm text-muted-foreground">The trash is empty.</div>
+        ) : (
+          <div className="space-y-0.5">
+            {chats.map((chat) => (
+              <div
+                key={chat.id}
+                className="group flex items-center gap-2 rounded-md px-2 py-2 text-sm text-muted-foreground transition-colors hover:bg-muted/80 hover:text-foreground"
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="truncate font-medium">{chat.title || 'New Chat'}</p>
+                  <p className="text-xs opacity-70">{daysLeft(chat.purgeAt)}</p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 shrink-0 cursor-pointer"
+                  onClick={() => onRestore(chat.id)}
+                  aria-label="Restore chat"
+                  title="Restore"
+                >
+                  <RotateCcw className="h-3.5 w-3.5" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className={cn(
+                    'h-7 w-7 shrink-0 opacity-0 group-hover:opacity-100 transition-opacity cursor-pointer',
+                    confirming === chat.id && 'opacity-100 text-destructive'
+                  )}
+                  onClick={() => confirm(chat.id, () => onPurge(chat.id))}
+                  aria-label={confirming === chat.id ? 'Confirm delete forever' : 'Delete forever'}
+                  title="Delete forever"
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </ScrollArea>
+
+      {chats.length > 0 && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className={cn('mt-2 h-7 w-full shrink-0 text-xs cursor-pointer', confirming === 'all' && 'text-destructive')}
+          onClick={() => confirm('all', onEmpty)}
+        >
+          {confirming === 'all' ? 'Click again to empty the trash' : 'Empty trash'}
+        </Button>
+      )}
+      {confirming && confirming !== 'all' && (
+        <p className="text-xs text-muted-foreground mt-2 px-2">
+          Click delete again to delete forever
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+'use client';
+
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from '@/components/ui/tooltip';
+import type { ContextUsage } from '@/lib/ai/context-budget';
+import { formatTokenCount } from '@/lib/ai/tokens';
+import { cn } from '@/lib/utils';
+
+interface ContextUsageIndicatorProps {
+  usage: ContextUsage;
+  className?: string;
+}
+
+/** Share of the input limit above which the indicator warns */
+const WARN_RATIO = 0.8;
+
+/**
+ * How much of the model's context window the conversation and attached code
+ * take up, and what will be trimmed to fit
+ */
+export function ContextUsageIndicator({ usage, className }: ContextUsageIndicatorProps) {
+  const ratio = usage.inputLimit > 0 ? Math.min(1, usage.inputTokens / usage.inputLimit) : 1;
+  const trimmed = usage.droppedMessages > 0 || usage.codeContextTrimmed;
+  const level = !usage.fits ? 'over' : trimmed || ratio >= WARN_RATIO ? 'warn' : 'ok';
+
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <div
+            className={cn('flex items-center gap-1.5 text-[10px] text-muted-foreground', className)}
+            role="meter"
+            aria-label="Context window usage"
+            aria-valuemin={0}
+            aria-valuemax={usage.inputLimit}
+            aria-valuenow={usage.inputTokens}
+          >
+            <div className="h-1.5 w-16 overflow-hidden rounded-full bg-muted">
+              <div
+                className={cn(
+                  'h-full rounded-full transition-[width]',
+                  level === 'over' ? 'bg-destructive' : level === 'warn' ? 'bg-accent' : 'bg-muted-foreground/50'
+                )}
+                style={{ width: `${Math.round(ratio * 100)}%` }}
+              />
+            </div>
+            <span className={cn('font-mono', level === 'over' && 'text-destructive')}>
+              {formatTokenCount(usage.inputTokens)} / {formatTokenCount(usage.inputLimit)}
+            </span>
+          </div>
+        </TooltipTrigger>
+        <TooltipContent className="max-w-xs">
+          <p>
+            About {usage.inputTokens.toLocaleString()} of {usage.inputLimit.toLocaleString()} input tokens (
+            {formatTokenCount(usage.contextWindow)} window, {formatTokenCount(usage.reservedOutputTokens)} kept for the
+            reply)
+          </p>
+          {usage.droppedMessages > 0 && (
+            <p>The oldest {usage.droppedMessages} messages will be left out.</p>
+          )}
+          {usage.codeContextTrimmed && <p>Attached code will be cut down to excerpts.</p>}
+          {!usage.fits && <p>Too large for this model even after trimming.</p>}
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  );
+}
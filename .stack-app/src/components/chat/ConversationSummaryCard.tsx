@@ -0,0 +1,159 @@
+'use client';
+
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, Loader2, Pencil, RefreshCw, ScrollText, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { MarkdownContent } from './MarkdownContent';
+import type { ConversationSummary } from '@/types';
+import { cn } from '@/lib/utils';
+
+interface ConversationSummaryCardProps {
+  summary?: ConversationSummary;
+  /** Whether auto-summarization is on for the chat */
+  enabled: boolean;
+  /** The summary was made for another branch and is not used */
+  stale?: boolean;
+  /** The chat is long enough to offer turning summarization on */
+  canSummarize?: boolean;
+  isSummarizing?: boolean;
+  /** The last summary update failed */
+  failed?: boolean;
+  onToggle: (enabled: boolean) => void;
+  onRegenerate: () => void;
+  onSave: (content: string) => void;
+  className?: string;
+}
+
+/**
+ * Pinned summary of the older part of a long chat, which is sent to the
+ * model in place of those messages. Can be edited and regenerated.
+ */
+export function ConversationSummaryCard({
+  summary,
+  enabled,
+  stale,
+  canSummarize,
+  isSummarizing,
+  failed,
+  onToggle,
+  onRegenerate,
+  onSave,
+  className,
+}: ConversationSummaryCardProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [draft, setDraft] = useState<string | null>(null);
+
+  if (!enabled) {
+    if (!canSummarize) return null;
+    return (
+      <div className={cn('flex items-center gap-2 border-b border-border px-4 py-1.5 text-xs text-muted-foreground', className)}>
+        <ScrollText className="h-3.5 w-3.5 shrink-0" />
+        <span className="flex-1">Long conversation. Summarize older messages to keep early details in context.</span>
+        <Button variant="ghost" size="sm" className="h-6 px-2 text-xs cursor-pointer" onClick={() => onToggle(true)}>
+          Turn on auto-summary
+        </Button>
+      </div>
+    );
+  }
+
+  const editing = draft !== null;
+  const label = summary
+    ? `Summary of ${summary.messageCount} earlier messages${summary.edited ? ' (edited)' : ''}`
+    : 'Auto-summary is on';
+
+  return (
+    <div className={cn('border-b border-border bg-muted/30 px-4 py-1.5 text-xs', className)}>
+      <div className="flex items-center gap-2">
+        <button
+          className="flex min-w-0 flex-1 items-center gap-1.5 text-left cursor-pointer disabled:cursor-default"
+          onClick={() => setExpanded(!expanded)}
+          disabled={!summary}
+          aria-expanded={expanded}
+        >
+          {summary ? (
+            expanded ? <ChevronDown className="h-3.5 w-3.5 shrink-0" /> : <ChevronRight className="h-3.5 w-3.5 shrink-0" />
+          ) : (
+            <ScrollText className="h-3.5 w-3.5 shrink-0" />
+          )}
+          <span className="truncate font-medium">{label}</span>
+          {stale && <span className="shrink-0 text-muted-foreground">· made for another branch, not used</span>}
+          {!summary && !isSummarizing && (
+            <span className="truncate text-muted-foreground">· older messages are summarized as the chat grows</span>
+          )}
+          {failed && !isSummarizing && <span className="shrink-0 text-destructive">· update failed</span>}
+        </button>
+        {isSummarizing && <Loader2 className="h-3.5 w-3.5 animate-spin text-muted-foreground" aria-label="Summarizing" />}
+        {summary && !editing && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 cursor-pointer"
+            onClick={() => {
+              setDraft(summary.content);
+              setExpanded(true);
+            }}
+            aria-label="Edit summary"
+            title="Edit summary"
+          >
+            <Pencil className="h-3 w-3" />
+          </Button>
+        )}
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6 cursor-pointer"
+          onClick={onRegenerate}
+          disabled={isSummarizing || editing}
+          aria-label="Regenerate summary"
+          title="Regenerate summary"
+        >
+          <RefreshCw className="h-3 w-3" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6 cursor-pointer"
+          onClick={() => onToggle(false)}
+          aria-label="Turn off auto-summary"
+          title="Turn off auto-summary (send the full history)"
+        >
+          <X className="h-3 w-3" />
+        </Button>
+      </div>
+
+      {summary && expanded && (
+        <div className="mt-1.5 max-h-64 overflow-y-auto scrollbar-thin pb-1">
+          {editing ? (
+            <div className="space-y-2">
+              <Textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                className="min-h-[160px] font-mono text-xs"
+                aria-label="Summary"
+              />
+              <div className="flex justify-end gap-2">
+                <Button variant="ghost" size="sm" className="h-7 cursor-pointer" onClick={() => setDraft(null)}>
+                  Cancel
+                </Button>
+                <Button
+                  size="sm"
+                  className="h-7 cursor-pointer"
+                  disabled={!draft.trim()}
+                  onClick={() => {
+                    onSave(draft);
+                    setDraft(null);
+                  }}
+                >
+                  Save
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <MarkdownContent content={summary.content} />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+'use client';
+
+import { useEffect } from 'react';
+import { Undo2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { TrashedChat } from '@/types/chat-history';
+import { cn } from '@/lib/utils';
+
+interface DeletedChatToastProps {
+  chat: TrashedChat;
+  onUndo: () => void;
+  onDismiss: () => void;
+  /** Hidden after this long; the chat can still be restored from the trash */
+  duration?: number;
+  className?: string;
+}
+
+/**
+ * Notice shown after a chat is moved to the trash, with a button to undo it
+ */
+export function DeletedChatToast({ chat, onUndo, onDismiss, duration = 8000, className }: DeletedChatToastProps) {
+  useEffect(() => {
+    const timer = setTimeout(onDismiss, duration);
+    return () => clearTimeout(timer);
+  }, [chat.id, duration, onDismiss]);
+
+  return (
+    <div
+      role="status"
+      className={cn(
+        'fixed bottom-4 left-4 z-50 flex max-w-sm items-center gap-2 rounded-md border border-border bg-popover py-2 pl-3 pr-2 text-sm shadow-lg animate-fade-in',
+        className
+      )}
+    >
+      <span className="min-w-0 truncate">
+        Moved <span className="font-medium">{chat.title || 'New Chat'}</span> to the trash
+      </span>
+      <Button variant="ghost" size="sm" className="h-7 shrink-0 gap-1.5 text-xs cursor-pointer" onClick={onUndo}>
+        <Undo2 className="h-3.5 w-3.5" />
+        Undo
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-7 w-7 shrink-0 cursor-pointer"
+        onClick={onDismiss}
+        aria-label="Dismiss"
+      >
+        <X className="h-3.5 w-3.5" />
+      </Button>
+    </div>
+  );
+}
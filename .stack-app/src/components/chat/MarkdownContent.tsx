@@ -0,0 +1,233 @@
+'use client';
+
+import { memo, isValidElement, useCallback, useMemo, useState, type ReactNode } from 'react';
+import ReactMarkdown, { type Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { Highlight, themes } from 'prism-react-renderer';
+import { useTheme } from 'next-themes';
+import { Check, Copy, PanelRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { parseFenceInfo, type MessageCodeBlock } from '@/lib/code-files';
+
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+
+/**
+ * Only allow absolute web/mail links; anything else (javascript:, data:,
+ * relative paths) is rendered as plain text
+ */
+function isSafeHref(href: string | undefined): href is string {
+  if (!href) return false;
+  try {
+    return SAFE_PROTOCOLS.includes(new URL(href).protocol);
+  } catch {
+    return false;
+  }
+}
+
+function textOf(node: ReactNode): string {
+  if (typeof node === 'string' || typeof node === 'number') return String(node);
+  if (Array.isArray(node)) return node.map(textOf).join('');
+  return '';
+}
+
+interface MdastNode {
+  type: string;
+  meta?: string | null;
+  data?: { hProperties?: Record<string, unknown> };
+  children?: MdastNode[];
+}
+
+/**
+ * Keep the fence info after the language (e.g. `title="app.ts"`) as a
+ * `data-meta` attribute; markdown drops it otherwise
+ */
+function remarkCodeMeta() {
+  const visit = (node: MdastNode) => {
+    if (node.type === 'code' && node.meta) {
+      node.data = { ...node.data, hProperties: { ...node.data?.hProperties, dataMeta: node.meta } };
+    }
+    node.children?.forEach(visit);
+  };
+  return visit;
+}
+
+interface CodeBlockProps {
+  block: MessageCodeBlock;
+  onOpenInPanel?: (block: MessageCodeBlock) => void;
+}
+
+/**
+ * Prism-highlighted fenced code block. While a reply streams the fence may
+ * still be open; markdown treats it as running to the end of the message,
+ * so the block simply grows until the closing fence arrives.
+ */
+function CodeBlock({ block, onOpenInPanel }: CodeBlockProps) {
+  const { resolvedTheme } = useTheme();
+  const [copied, setCopied] = useState(false);
+  const isDark = resolvedTheme === 'dark';
+
+  const handleCopy = useCallback(async () => {
+    await navigator.clipboard.writeText(block.code);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  }, [block.code]);
+
+  return (
+    <div className="overflow-hidden rounded-lg border border-border bg-muted/40">
+      <div className="flex items-center gap-2 border-b border-border px-3 py-1 text-[10px] uppercase tracking-wider text-muted-foreground">
+        <span className="truncate">
+          {block.filename ? <span className="normal-case font-mono">{block.filename}</span> : block.language || 'plaintext'}
+        </span>
+        <div className="ml-auto flex items-center gap-0.5">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 cursor-pointer"
+            onClick={handleCopy}
+            aria-label={copied ? 'Copied' : 'Copy code'}
+            title={copied ? 'Copied!' : 'Copy'}
+          >
+            {copied ? <Check className="h-3 w-3 text-accent" /> : <Copy className="h-3 w-3" />}
+          </Button>
+          {onOpenInPanel && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6 cursor-pointer"
+              onClick={() => onOpenInPanel(block)}
+              aria-label="Open in code panel"
+              title="Open in panel"
+            >
+              <PanelRight className="h-3 w-3" />
+            </Button>
+          )}
+        </div>
+      </div>
+      <Highlight
+        theme={isDark ? themes.vsDark : themes.vsLight}
+        code={block.code}
+        language={(block.language || 'plaintext') as never}
+      >
+        {({ className: highlightClassName, style, tokens, getLineProps, getTokenProps }) => (
+          <pre
+            className={cn(highlightClassName, 'overflow-x-auto p-3 text-xs leading-5 font-mono')}
+            style={{ ...style, background: 'transparent' }}
+          >
+            {tokens.map((line, i) => (
+              <div key={i} {...getLineProps({ line })}>
+                {line.map((token, key) => (
+                  <span key={key} {...getTokenProps({ token })} />
+                ))}
+              </div>
+            ))}
+          </pre>
+        )}
+      </Highlight>
+    </div>
+  );
+}
+
+const components: Components = {
+  code({ className, children }) {
+    return (
+      <code className={cn('rounded bg-muted px-1.5 py-0.5 font-mono text-xs', className)}>
+        {children}
+      </code>
+    );
+  },
+  a({ href, children }) {
+    if (!isSafeHref(href)) return <span>{children}</span>;
+    return (
+      <a
+        href={href}
+        target="_blank"
+        rel="noopener noreferrer nofollow"
+        className="font-medium underline underline-offset-2 hover:opacity-80"
+      >
+        {children}
+      </a>
+    );
+  },
+  // Images from model output could leak data to arbitrary hosts; show the alt text
+  img({ alt }) {
+    return alt ? <span className="italic">[{alt}]</span> : null;
+  },
+  h1: ({ children }) => <h1 className="text-lg font-semibold">{children}</h1>,
+  h2: ({ children }) => <h2 className="text-base font-semibold">{children}</h2>,
+  h3: ({ children }) => <h3 className="text-sm font-semibold">{children}</h3>,
+  h4: ({ children }) => <h4 className="text-sm font-medium">{children}</h4>,
+  p: ({ children }) => <p className="whitespace-pre-wrap break-words">{children}</p>,
+  ul: ({ children, className }) => (
+    <ul className={cn('list-disc space-y-1 pl-5', className?.includes('contains-task-list') && 'list-none pl-1')}>
+      {children}
+    </ul>
+  ),
+  ol: ({ children }) => <ol className="list-decimal space-y-1 pl-5">{children}</ol>,
+  li: ({ children }) => <li className="[&>input]:mr-2">{children}</li>,
+  input: ({ type, checked }) =>
+    type === 'checkbox' ? (
+      <input type="checkbox" checked={!!checked} readOnly disabled className="align-middle" />
+    ) : null,
+  blockquote: ({ children }) => (
+    <blockquote className="border-l-2 border-border pl-3 text-muted-foreground">{children}</blockquote>
+  ),
+  hr: () => <hr className="border-border" />,
+  table: ({ children }) => (
+    <div className="overflow-x-auto">
+      <table className="w-full border-collapse text-xs">{children}</table>
+    </div>
+  ),
+  th: ({ children, style }) => (
+    <th className="border border-border bg-muted/50 px-2 py-1 text-left font-semibold" style={style}>
+      {children}
+    </th>
+  ),
+  td: ({ children, style }) => (
+    <td className="border border-border px-2 py-1" style={style}>
+      {children}
+    </td>
+  ),
+};
+
+type CodeElementProps = { className?: string; 'data-meta'?: string; children?: ReactNode };
+
+interface MarkdownContentProps {
+  content: string;
+  /** Adds an "Open in panel" action to code blocks */
+  onOpenInPanel?: (block: MessageCodeBlock) => void;
+  className?: string;
+}
+
+function MarkdownContentComponent({ content, onOpenInPanel, className }: MarkdownContentProps) {
+  const allComponents = useMemo<Components>(
+    () => ({
+      ...components,
+      // Fenced and indented code blocks; inline code is handled by `code`
+      pre({ children }) {
+        const child = Array.isArray(children) ? children[0] : children;
+        if (!isValidElement<CodeElementProps>(child)) {
+          return <pre>{children}</pre>;
+        }
+        const language = /language-(\S+)/.exec(child.props.className ?? '')?.[1] ?? '';
+        const block: MessageCodeBlock = {
+          ...parseFenceInfo(language, child.props['data-meta']),
+          code: textOf(child.props.children).replace(/\n$/, ''),
+        };
+        return <CodeBlock block={block} onOpenInPanel={onOpenInPanel} />;
+      },
+    }),
+    [onOpenInPanel]
+  );
+
+  return (
+    <div className={cn('space-y-2 break-words', className)}>
+      <ReactMarkdown remarkPlugins={[remarkGfm, remarkCodeMeta]} components={allComponents}>
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+}
+
+// Streaming re-renders the bubble on every delta; skip unchanged messages
+export const MarkdownContent = memo(MarkdownContentComponent);
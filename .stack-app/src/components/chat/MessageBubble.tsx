@@ -1,17 +1,63 @@
 'use client';
 
-import { memo } from 'react';
-import { User, Bot, Code } from 'lucide-react';
+import { memo, useState } from 'react';
+import { User, Bot, Code, AlertTriangle, Square, ChevronLeft, ChevronRight, Pencil, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { MarkdownContent } from './MarkdownContent';
 import type { Message } from '@/types';
+import type { MessageCodeBlock } from '@/lib/code-files';
+import type { FinishReason } from '@/types/chat';
 import { cn } from '@/lib/utils';
 
+const FINISH_NOTICES: Partial<Record<FinishReason, string>> = {
+  length: 'Response cut off: reached the maximum output length',
+  content_filter: 'Response stopped by the provider content filter',
+  error: 'Response ended with an error',
+};
+
 interface MessageBubbleProps {
   message: Message;
+  /** IDs of every version of this message, when it has more than one */
+  siblingIds?: string[];
+  onSelectBranch?: (messageId: string) => void;
+  /** Only passed for the reply that can be regenerated */
+  onRegenerate?: (messageId: string) => void;
+  onEdit?: (messageId: string, content: string) => void;
+  /** Pins a code block from an assistant reply into the code panel */
+  onOpenInPanel?: (block: MessageCodeBlock) => void;
+  /** Briefly marks the message, e.g. after jumping to it from search */
+  highlighted?: boolean;
 }
 
-function MessageBubbleComponent({ message }: MessageBubbleProps) {
+function MessageBubbleComponent({
+  message,
+  siblingIds,
+  onSelectBranch,
+  onRegenerate,
+  onEdit,
+  onOpenInPanel,
+  highlighted,
+}: MessageBubbleProps) {
   const isUser = message.role === 'user';
   const isSystem = message.role === 'system';
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(message.content);
+
+  const branchIndex = siblingIds ? siblingIds.indexOf(message.id) : -1;
+  const hasBranches = !!siblingIds && siblingIds.length > 1 && branchIndex !== -1;
+
+  const startEditing = () => {
+    setDraft(message.content);
+    setIsEditing(true);
+  };
+
+  const submitEdit = () => {
+    const content = draft.trim();
+    if (!content) return;
+    setIsEditing(false);
+    if (content !== message.content) onEdit?.(message.id, content);
+  };
 
   const formatTime = (date: Date | string) => {
     const d = typeof date === 'string' ? new Date(date) : date;
@@ -23,9 +69,11 @@ function MessageBubbleComponent({ message }: MessageBubbleProps) {
 
   return (
     <div
+      data-message-id={message.id}
       className={cn(
-        'group flex gap-3 animate-slide-up',
-        isUser ? 'flex-row-reverse' : 'flex-row'
+        'group flex gap-3 animate-slide-up rounded-2xl transition-shadow duration-500',
+        isUser ? 'flex-row-reverse' : 'flex-row',
+        highlighted && 'ring-2 ring-primary/50 ring-offset-4 ring-offset-background'
       )}
     >
       {/* Avatar */}
@@ -53,14 +101,23 @@ function MessageBubbleComponent({ message }: MessageBubbleProps) {
           isUser ? 'items-end' : 'items-start'
         )}
       >
-        {/* Code Context Badge */}
-        {message.codeContext && (
-          <div className="flex items-center gap-1.5 rounded-md bg-muted px-2 py-1 text-xs text-muted-foreground">
-            <Code className="h-3 w-3" />
-            <span className="font-mono">{message.codeContext.fileName}</span>
-            <span className="text-muted-foreground/60">
-              L{message.codeContext.startLine}-{message.codeContext.endLine}
-            </span>
+        {/* Code Context Badges */}
+        {message.codeContexts && message.codeContexts.length > 0 && (
+          <div className={cn('flex flex-wrap gap-1', isUser && 'justify-end')}>
+            {message.codeContexts.map((context, i) => (
+              <div
+                key={i}
+                className="flex items-center gap-1.5 rounded-md bg-muted px-2 py-1 text-xs text-muted-foreground"
+              >
+                <Code className="h-3 w-3" />
+                <span className="font-mono">{context.fileName}</span>
+                {!context.wholeFile && (
+                  <span className="text-muted-foreground/60">
+                    L{context.startLine}-{context.endLine}
+                  </span>
+                )}
+              </div>
+            ))}
           </div>
         )}
 
@@ -102,14 +159,109 @@ function MessageBubbleComponent({ message }: MessageBubbleProps) {
                 ))}
             </div>
           ) : null}
-          {/* Render code blocks specially */}
-          <MessageContent content={message.content} />
+          {isEditing ? (
+            <div className="space-y-2">
+              <Textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && !e.shiftKey) {
+                    e.preventDefault();
+                    submitEdit();
+                  } else if (e.key === 'Escape') {
+                    setIsEditing(false);
+                  }
+                }}
+                className="min-h-[60px] bg-background text-foreground"
+                autoFocus
+              />
+              <div className="flex justify-end gap-2">
+                <Button variant="ghost" size="sm" className="cursor-pointer" onClick={() => setIsEditing(false)}>
+                  Cancel
+                </Button>
+                <Button size="sm" className="cursor-pointer" onClick={submitEdit} disabled={!draft.trim()}>
+                  Send
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <MarkdownContent content={message.content} onOpenInPanel={isUser ? undefined : onOpenInPanel} />
+          )}
         </div>
 
-        {/* Timestamp */}
-        <span className="px-1 text-xs text-muted-foreground/60 opacity-0 transition-opacity group-hover:opacity-100">
-          {formatTime(message.timestamp)}
-        </span>
+        {/* Finish notice (truncated or filtered replies) */}
+        {message.finishReason && FINISH_NOTICES[message.finishReason] && (
+          <div className="flex items-center gap-1.5 px-1 text-xs text-muted-foreground">
+            <AlertTriangle className="h-3 w-3" />
+            <span>{FINISH_NOTICES[message.finishReason]}</span>
+          </div>
+        )}
+
+        {/* Stopped marker (generation cancelled by the user) */}
+        {message.stopped && (
+          <div className="flex items-center gap-1.5 px-1 text-xs text-muted-foreground">
+            <Square className="h-3 w-3" />
+            <span>Stopped</span>
+          </div>
+        )}
+
+        {/* Branch navigation, actions and timestamp */}
+        <div className={cn('flex items-center gap-1 px-1', isUser && 'flex-row-reverse')}>
+          {hasBranches && (
+            <div className="flex items-center text-xs text-muted-foreground">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 cursor-pointer"
+                onClick={() => onSelectBranch?.(siblingIds[branchIndex - 1])}
+                disabled={!onSelectBranch || branchIndex === 0}
+                aria-label="Previous version"
+              >
+                <ChevronLeft className="h-3 w-3" />
+              </Button>
+              <span className="tabular-nums">
+                {branchIndex + 1}/{siblingIds.length}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 cursor-pointer"
+                onClick={() => onSelectBranch?.(siblingIds[branchIndex + 1])}
+                disabled={!onSelectBranch || branchIndex === siblingIds.length - 1}
+                aria-label="Next version"
+              >
+                <ChevronRight className="h-3 w-3" />
+              </Button>
+            </div>
+          )}
+          <div className="flex items-center gap-1 opacity-0 transition-opacity group-hover:opacity-100">
+            {isUser && onEdit && !isEditing && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 cursor-pointer text-muted-foreground"
+                onClick={startEditing}
+                aria-label="Edit message"
+              >
+                <Pencil className="h-3 w-3" />
+              </Button>
+            )}
+            {!isUser && onRegenerate && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 cursor-pointer text-muted-foreground"
+                onClick={() => onRegenerate(message.id)}
+                aria-label="Regenerate response"
+              >
+                <RefreshCw className="h-3 w-3" />
+              </Button>
+            )}
+            <span className="text-xs text-muted-foreground/60">
+              {formatTime(message.timestamp)}
+            </span>
+          </div>
+        </div>
       </div>
     </div>
   );
@@ -117,55 +269,3 @@ function MessageBubbleComponent({ message }: MessageBubbleProps) {
 
 // Memoize to prevent unnecessary re-renders
 export const MessageBubble = memo(MessageBubbleComponent);
-
-// Parse and render message content with code blocks
-function MessageContent({ content }: { content: string }) {
-  // Simple markdown-like parsing for code blocks
-  const parts = content.split(/(```[\s\S]*?```|`[^`]+`)/g);
-
-  return (
-    <div className="space-y-2">
-      {parts.map((part, index) => {
-        // Multi-line code block
-        if (part.startsWith('```') && part.endsWith('```')) {
-          const lines = part.slice(3, -3).split('\n');
-          const language = lines[0].trim() || 'plaintext';
-          const code = lines.slice(1).join('\n').trim();
-
-          return (
-            <pre
-              key={index}
-              className="overflow-x-auto rounded-lg bg-[hsl(var(--syntax-bg))] p-3 text-xs"
-            >
-              <div className="mb-2 text-[10px] uppercase tracking-wider text-muted-foreground">
-                {language}
-              </div>
-              <code className="font-mono text-[hsl(var(--syntax-text))]">
-                {code}
-              </code>
-            </pre>
-          );
-        }
-
-        // Inline code
-        if (part.startsWith('`') && part.endsWith('`')) {
-          return (
-            <code
-              key={index}
-              className="rounded bg-muted px-1.5 py-0.5 font-mono text-xs"
-            >
-              {part.slice(1, -1)}
-            </code>
-          );
-        }
-
-        // Regular text
-        if (part.trim()) {
-          return <span key={index}>{part}</span>;
-        }
-
-        return null;
-      })}
-    </div>
-  );
-}
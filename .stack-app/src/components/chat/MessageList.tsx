@@ -1,28 +1,69 @@
 'use client';
 
-import { useEffect, useRef } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { MessageSquare } from 'lucide-react';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { MessageBubble } from './MessageBubble';
 import { EmptyState } from '@/components/error/ErrorBoundary';
 import type { Message } from '@/types';
+import type { MessageCodeBlock } from '@/lib/code-files';
 
 interface MessageListProps {
   messages: Message[];
   isLoading?: boolean;
+  /** Sibling version IDs for messages that have been regenerated or edited */
+  branches?: Record<string, string[]>;
+  onSelectBranch?: (messageId: string) => void;
+  onRegenerate?: (messageId: string) => void;
+  onEdit?: (messageId: string, content: string) => void;
+  onOpenInPanel?: (block: MessageCodeBlock) => void;
+  /**
+   * Message to scroll to and highlight instead of following the latest one.
+   * Each request is handled once; pass a new object to focus it again.
+   */
+  focusRequest?: { messageId: string };
   className?: string;
 }
 
-export function MessageList({ messages, isLoading, className }: MessageListProps) {
+const FOCUS_HIGHLIGHT_MS = 2000;
+
+export function MessageList({
+  messages,
+  isLoading,
+  branches,
+  onSelectBranch,
+  onRegenerate,
+  onEdit,
+  onOpenInPanel,
+  focusRequest,
+  className,
+}: MessageListProps) {
   const bottomRef = useRef<HTMLDivElement>(null);
   const scrollAreaRef = useRef<HTMLDivElement>(null);
+  const handledFocusRef = useRef<{ messageId: string } | undefined>(undefined);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
 
-  // Auto-scroll to bottom when new messages arrive
+  // Auto-scroll to bottom when new messages arrive, unless a message is
+  // waiting to be focused
   useEffect(() => {
+    const id = focusRequest?.messageId;
+    if (id && focusRequest !== handledFocusRef.current && messages.some((m) => m.id === id)) {
+      handledFocusRef.current = focusRequest;
+      const element = scrollAreaRef.current?.querySelector(`[data-message-id="${CSS.escape(id)}"]`);
+      element?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      setHighlightedId(id);
+      return;
+    }
     if (bottomRef.current) {
       bottomRef.current.scrollIntoView({ behavior: 'smooth' });
     }
-  }, [messages]);
+  }, [messages, focusRequest]);
+
+  useEffect(() => {
+    if (!highlightedId) return;
+    const timer = setTimeout(() => setHighlightedId(null), FOCUS_HIGHLIGHT_MS);
+    return () => clearTimeout(timer);
+  }, [highlightedId]);
 
   if (messages.length === 0 && !isLoading) {
     return (
@@ -39,8 +80,19 @@ export function MessageList({ messages, isLoading, className }: MessageListProps
   return (
     <ScrollArea className={className} ref={scrollAreaRef}>
       <div className="flex flex-col gap-4 p-4">
-        {messages.map((message) => (
-          <MessageBubble key={message.id} message={message} />
+        {messages.map((message, index) => (
+          <MessageBubble
+            key={message.id}
+            message={message}
+            siblingIds={branches?.[message.id]}
+            onSelectBranch={onSelectBranch}
+            onRegenerate={
+              index === messages.length - 1 && message.role === 'assistant' ? onRegenerate : undefined
+            }
+            onEdit={onEdit}
+            onOpenInPanel={onOpenInPanel}
+            highlighted={message.id === highlightedId}
+          />
         ))}
 
         {/* Loading indicator for streaming response */}
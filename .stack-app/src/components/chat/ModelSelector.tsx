@@ -0,0 +1,108 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ChevronDown, Check, Eye } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { ModelCatalogEntry, ProviderStatus } from '@/types/api';
+import type { ModelId } from '@/types/chat';
+import { cn } from '@/lib/utils';
+import { formatTokenCount } from '@/lib/ai/tokens';
+
+interface ModelSelectorProps {
+  providers?: ProviderStatus[];
+  models: ModelCatalogEntry[];
+  value: ModelId | null;
+  onChange: (model: ModelId) => void;
+  isLoading?: boolean;
+  className?: string;
+}
+
+export function ModelSelector({ providers = [], models, value, onChange, isLoading, className }: ModelSelectorProps) {
+  const [open, setOpen] = useState(false);
+  const selected = models.find((m) => m.id === value);
+
+  // Close dropdown on outside click
+  useEffect(() => {
+    const handleClickOutside = () => setOpen(false);
+    if (open) {
+      document.addEventListener('click', handleClickOutside);
+      return () => document.removeEventListener('click', handleClickOutside);
+    }
+  }, [open]);
+
+  // Group models by provider, keeping catalog order
+  const groups = models.reduce<Array<{ provider: string; models: ModelCatalogEntry[] }>>(
+    (acc, model) => {
+      const group = acc.find((g) => g.provider === model.provider);
+      if (group) group.models.push(model);
+      else acc.push({ provider: model.provider, models: [model] });
+      return acc;
+    },
+    []
+  );
+
+  return (
+    <div className={cn('relative', className)}>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-8 gap-2 cursor-pointer hover:bg-muted text-xs"
+        onClick={(e) => {
+          e.stopPropagation();
+          setOpen(!open);
+        }}
+        disabled={isLoading || models.length === 0}
+        aria-haspopup="listbox"
+        aria-expanded={open}
+      >
+        <span className="font-medium">
+          {isLoading ? 'Loading models...' : selected?.label ?? 'Select model'}
+        </span>
+        <ChevronDown className="h-3 w-3 text-muted-foreground" />
+      </Button>
+
+      {open && (
+        <div
+          role="listbox"
+          className="absolute right-0 top-full z-50 mt-1 min-w-[280px] rounded-md border border-border bg-popover py-1 shadow-lg animate-fade-in"
+        >
+          {groups.map((group) => (
+            <div key={group.provider}>
+              <div className="px-3 pt-2 pb-1 text-[10px] font-bold uppercase tracking-widest text-muted-foreground">
+                {providers.find((p) => p.id === group.provider)?.name ?? group.provider}
+              </div>
+              {group.models.map((model) => (
+                <button
+                  key={model.id}
+                  role="option"
+                  aria-selected={model.id === value}
+                  disabled={!model.configured}
+                  className={cn(
+                    'flex w-full items-center gap-2 px-3 py-2 text-left text-sm transition-colors',
+                    model.configured ? 'cursor-pointer hover:bg-muted' : 'cursor-not-allowed opacity-50',
+                    model.id === value && 'bg-muted'
+                  )}
+                  onClick={() => {
+                    onChange(model.id);
+                    setOpen(false);
+                  }}
+                >
+                  <Check className={cn('h-3.5 w-3.5 shrink-0', model.id === value ? 'opacity-100' : 'opacity-0')} />
+                  <span className="flex-1 truncate">{model.label}</span>
+                  {model.vision && (
+                    <Eye className="h-3.5 w-3.5 shrink-0 text-muted-foreground" aria-label="Supports images" />
+                  )}
+                  <span className="shrink-0 text-xs text-muted-foreground">
+                    {model.configured
+                      ? `${formatTokenCount(model.contextWindow)} ctx · ${formatTokenCount(model.maxOutputTokens)} out`
+                      : 'Not configured'}
+                  </span>
+                </button>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
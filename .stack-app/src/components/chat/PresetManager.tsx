@@ -0,0 +1,172 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { TEMPLATE_VARIABLES } from '@/lib/prompt-template';
+import type { CreatePresetBody, PromptPreset, UpdatePresetBody } from '@/types/prompts';
+import { cn } from '@/lib/utils';
+
+interface PresetManagerProps {
+  presets: PromptPreset[];
+  error?: string | null;
+  onCreate: (body: CreatePresetBody) => Promise<PromptPreset | null>;
+  onUpdate: (id: string, updates: UpdatePresetBody) => Promise<PromptPreset | null>;
+  onDelete: (id: string) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const EMPTY_FORM: CreatePresetBody = { name: '', description: '', content: '' };
+
+/**
+ * Modal for creating, editing and deleting prompt presets
+ */
+export function PresetManager({ presets, error, onCreate, onUpdate, onDelete, onClose }: PresetManagerProps) {
+  // null while creating a new preset
+  const [editingId, setEditingId] = useState<string | null>(presets[0]?.id ?? null);
+  const [form, setForm] = useState<CreatePresetBody>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const editing = presets.find((p) => p.id === editingId);
+
+  useEffect(() => {
+    setForm(
+      editing ? { name: editing.name, description: editing.description ?? '', content: editing.content } : EMPTY_FORM
+    );
+  }, [editing]);
+
+  // Close on Escape
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const canSave = !!form.name.trim() && !!form.content.trim() && !isSaving;
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const saved = editing ? await onUpdate(editing.id, form) : await onCreate(form);
+    setIsSaving(false);
+    if (saved) setEditingId(saved.id);
+  };
+
+  const handleDelete = async () => {
+    if (!editing) return;
+    if (await onDelete(editing.id)) setEditingId(null);
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-background/80 backdrop-blur-sm animate-fade-in"
+      onClick={onClose}
+    >
+      <div
+        className="flex h-[560px] w-full max-w-3xl flex-col rounded-lg border border-border bg-card shadow-lg animate-slide-up"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between border-b border-border px-6 py-4">
+          <h2 className="text-lg font-semibold">Prompt Presets</h2>
+          <Button variant="ghost" size="icon" className="h-8 w-8 cursor-pointer" onClick={onClose}>
+            <span className="sr-only">Close</span>
+            ×
+          </Button>
+        </div>
+
+        <div className="flex min-h-0 flex-1">
+          {/* Preset list */}
+          <div className="flex w-52 shrink-0 flex-col border-r border-border">
+            <ScrollArea className="flex-1">
+              <div className="p-2">
+                {presets.map((preset) => (
+                  <button
+                    key={preset.id}
+                    className={cn(
+                      'w-full truncate rounded-md px-2 py-1.5 text-left text-sm cursor-pointer hover:bg-muted',
+                      preset.id === editingId && 'bg-muted'
+                    )}
+                    onClick={() => setEditingId(preset.id)}
+                    title={preset.description || preset.name}
+                  >
+                    {preset.name}
+                  </button>
+                ))}
+                {presets.length === 0 && <p className="px-2 py-1.5 text-xs text-muted-foreground">No presets yet</p>}
+              </div>
+            </ScrollArea>
+            <div className="border-t border-border p-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="w-full justify-start gap-2 cursor-pointer"
+                onClick={() => setEditingId(null)}
+              >
+                <Plus className="h-4 w-4" />
+                New preset
+              </Button>
+            </div>
+          </div>
+
+          {/* Editor */}
+          <div className="flex min-w-0 flex-1 flex-col gap-3 p-4">
+            <input
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="Name"
+              maxLength={100}
+              className="rounded-md border border-input bg-transparent px-3 py-1.5 text-sm outline-none focus-visible:ring-1 focus-visible:ring-ring"
+              aria-label="Preset name"
+            />
+            <input
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              placeholder="Description (optional)"
+              maxLength={500}
+              className="rounded-md border border-input bg-transparent px-3 py-1.5 text-sm outline-none focus-visible:ring-1 focus-visible:ring-ring"
+              aria-label="Preset description"
+            />
+            <Textarea
+              value={form.content}
+              onChange={(e) => setForm({ ...form, content: e.target.value })}
+              placeholder="System prompt"
+              className="flex-1 resize-none font-mono text-xs"
+              aria-label="System prompt"
+            />
+            <p className="text-xs text-muted-foreground">
+              Variables:{' '}
+              {TEMPLATE_VARIABLES.map((v, i) => (
+                <span key={v.name} title={v.description}>
+                  {i > 0 && ', '}
+                  <code className="rounded bg-muted px-1 font-mono">{`{{${v.name}}}`}</code>
+                </span>
+              ))}
+            </p>
+            {error && <p className="text-xs text-destructive">{error}</p>}
+            <div className="flex items-center justify-between">
+              {editing ? (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="gap-2 text-destructive cursor-pointer hover:text-destructive"
+                  onClick={handleDelete}
+                >
+                  <Trash2 className="h-4 w-4" />
+                  Delete
+                </Button>
+              ) : (
+                <span />
+              )}
+              <Button size="sm" className="cursor-pointer" onClick={handleSave} disabled={!canSave}>
+                {editing ? 'Save changes' : 'Create preset'}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
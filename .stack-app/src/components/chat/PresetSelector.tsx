@@ -0,0 +1,95 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ChevronDown, Check, Settings2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { PromptPreset } from '@/types/prompts';
+import { cn } from '@/lib/utils';
+
+interface PresetSelectorProps {
+  presets: PromptPreset[];
+  /** Selected preset; undefined uses the built-in prompt */
+  value?: string;
+  onChange: (presetId: string | undefined) => void;
+  onManage: () => void;
+  isLoading?: boolean;
+  className?: string;
+}
+
+export function PresetSelector({ presets, value, onChange, onManage, isLoading, className }: PresetSelectorProps) {
+  const [open, setOpen] = useState(false);
+  const selected = presets.find((p) => p.id === value);
+
+  // Close dropdown on outside click
+  useEffect(() => {
+    const handleClickOutside = () => setOpen(false);
+    if (open) {
+      document.addEventListener('click', handleClickOutside);
+      return () => document.removeEventListener('click', handleClickOutside);
+    }
+  }, [open]);
+
+  const option = (id: string | undefined, label: string, description?: string) => (
+    <button
+      key={id ?? 'default'}
+      role="option"
+      aria-selected={id === value}
+      className={cn(
+        'flex w-full items-start gap-2 px-3 py-2 text-left text-sm transition-colors cursor-pointer hover:bg-muted',
+        id === value && 'bg-muted'
+      )}
+      onClick={() => {
+        onChange(id);
+        setOpen(false);
+      }}
+    >
+      <Check className={cn('mt-0.5 h-3.5 w-3.5 shrink-0', id === value ? 'opacity-100' : 'opacity-0')} />
+      <span className="min-w-0 flex-1">
+        <span className="block truncate">{label}</span>
+        {description && <span className="block truncate text-xs text-muted-foreground">{description}</span>}
+      </span>
+    </button>
+  );
+
+  return (
+    <div className={cn('relative', className)}>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-8 gap-2 cursor-pointer hover:bg-muted text-xs"
+        onClick={(e) => {
+          e.stopPropagation();
+          setOpen(!open);
+        }}
+        disabled={isLoading}
+        aria-haspopup="listbox"
+        aria-expanded={open}
+        title="System prompt"
+      >
+        <span className="max-w-[140px] truncate font-medium">{selected?.name ?? 'Default prompt'}</span>
+        <ChevronDown className="h-3 w-3 text-muted-foreground" />
+      </Button>
+
+      {open && (
+        <div
+          role="listbox"
+          className="absolute right-0 top-full z-50 mt-1 min-w-[240px] max-w-[320px] rounded-md border border-border bg-popover py-1 shadow-lg animate-fade-in"
+        >
+          {option(undefined, 'Default prompt', 'Built-in coding assistant prompt')}
+          {presets.map((preset) => option(preset.id, preset.name, preset.description))}
+          <div className="my-1 border-t border-border" />
+          <button
+            className="flex w-full items-center gap-2 px-3 py-2 text-left text-sm cursor-pointer hover:bg-muted"
+            onClick={() => {
+              setOpen(false);
+              onManage();
+            }}
+          >
+            <Settings2 className="h-3.5 w-3.5 shrink-0" />
+            Manage presets…
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+'use client';
+
+import { History, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { RelatedAnswer } from '@/types/chat-history';
+import { cn } from '@/lib/utils';
+
+interface RelatedAnswersProps {
+  answers: RelatedAnswer[];
+  onOpen: (answer: RelatedAnswer) => void;
+  onDismiss: () => void;
+  className?: string;
+}
+
+/**
+ * Earlier answers to questions like the one being written, shown above the
+ * input so the user can reuse them instead of asking again
+ */
+export function RelatedAnswers({ answers, onOpen, onDismiss, className }: RelatedAnswersProps) {
+  if (answers.length === 0) return null;
+
+  return (
+    <div className={cn('rounded-lg border border-border bg-muted/30 p-2 text-xs', className)}>
+      <div className="mb-1 flex items-center gap-1.5 px-1 text-muted-foreground">
+        <History className="h-3.5 w-3.5 shrink-0" />
+        <span className="flex-1 font-medium">Answered before</span>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-5 w-5 cursor-pointer"
+          onClick={onDismiss}
+          aria-label="Hide related answers"
+        >
+          <X className="h-3 w-3" />
+        </Button>
+      </div>
+      <div className="space-y-0.5">
+        {answers.map((answer) => (
+          <button
+            key={answer.answerId}
+            className="block w-full rounded-md px-1.5 py-1 text-left transition-colors hover:bg-muted cursor-pointer"
+            onClick={() => onOpen(answer)}
+            title={answer.answer}
+          >
+            <span className="font-medium text-foreground">{answer.chatTitle || 'New Chat'}</span>
+            <span className="text-muted-foreground"> · {answer.question}</span>
+            <p className="truncate text-muted-foreground">{answer.answer}</p>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,18 @@
 export { ChatContainer } from './ChatContainer';
 export { ChatHistoryList } from './ChatHistoryList';
 export { ChatHistorySidebar } from './ChatHistorySidebar';
+export { ChatSearchResults } from './ChatSearchResults';
+export { ChatListFilters } from './ChatListFilters';
+export { ChatListItemMenu } from './ChatListItemMenu';
+export { ChatTrashList } from './ChatTrashList';
+export { DeletedChatToast } from './DeletedChatToast';
 export { ChatInput } from './ChatInput';
 export { MessageList } from './MessageList';
 export { MessageBubble } from './MessageBubble';
+export { MarkdownContent } from './MarkdownContent';
+export { ModelSelector } from './ModelSelector';
+export { PresetSelector } from './PresetSelector';
+export { PresetManager } from './PresetManager';
+export { ContextUsageIndicator } from './ContextUsageIndicator';
+export { ConversationSummaryCard } from './ConversationSummaryCard';
+export { RelatedAnswers } from './RelatedAnswers';
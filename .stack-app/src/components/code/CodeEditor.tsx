@@ -0,0 +1,316 @@
+'use client';
+
+import { useState, useCallback, useRef, useEffect, type KeyboardEvent } from 'react';
+import { Highlight, themes } from 'prism-react-renderer';
+import { useTheme } from 'next-themes';
+import { ChevronDown, ChevronUp, Search, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+
+const INDENT = '  ';
+/** Keystrokes closer together than this are undone as one step */
+const UNDO_GROUP_MS = 800;
+const MAX_UNDO_STEPS = 200;
+
+interface EditorSnapshot {
+  value: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+interface CodeEditorProps {
+  value: string;
+  language: string;
+  onChange: (value: string) => void;
+  className?: string;
+}
+
+/**
+ * Lightweight code editor: a transparent textarea over a Prism render.
+ * Handles undo/redo, Tab/Shift+Tab indentation, auto-indent on Enter and
+ * Ctrl/Cmd+F search.
+ */
+export function CodeEditor({ value, language, onChange, className }: CodeEditorProps) {
+  const { resolvedTheme } = useTheme();
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const searchRef = useRef<HTMLInputElement>(null);
+  const undoStack = useRef<EditorSnapshot[]>([]);
+  const redoStack = useRef<EditorSnapshot[]>([]);
+  const lastEditAt = useRef(0);
+  // Selection to restore after a programmatic edit re-renders the textarea
+  const pendingSelection = useRef<[number, number] | null>(null);
+
+  const [showSearch, setShowSearch] = useState(false);
+  const [query, setQuery] = useState('');
+  const [matchIndex, setMatchIndex] = useState(0);
+
+  const isDark = resolvedTheme === 'dark';
+  const lineCount = value.split('\n').length;
+
+  useEffect(() => {
+    const selection = pendingSelection.current;
+    const textarea = textareaRef.current;
+    if (selection && textarea) {
+      textarea.setSelectionRange(selection[0], selection[1]);
+      pendingSelection.current = null;
+    }
+  }, [value]);
+
+  const snapshot = useCallback((): EditorSnapshot => {
+    const textarea = textareaRef.current;
+    return {
+      value,
+      selectionStart: textarea?.selectionStart ?? 0,
+      selectionEnd: textarea?.selectionEnd ?? 0,
+    };
+  }, [value]);
+
+  /**
+   * Apply an edit, recording an undo step unless it continues the previous
+   * burst of typing
+   */
+  const commit = useCallback(
+    (next: string, selection: [number, number] | null, grouped: boolean) => {
+      const now = Date.now();
+      if (!grouped || now - lastEditAt.current > UNDO_GROUP_MS) {
+        undoStack.current = [...undoStack.current, snapshot()].slice(-MAX_UNDO_STEPS);
+      }
+      lastEditAt.current = grouped ? now : 0;
+      redoStack.current = [];
+      pendingSelection.current = selection;
+      onChange(next);
+    },
+    [onChange, snapshot]
+  );
+
+  const restore = useCallback(
+    (from: typeof undoStack, to: typeof undoStack) => {
+      const previous = from.current[from.current.length - 1];
+      if (!previous) return;
+      from.current = from.current.slice(0, -1);
+      to.current = [...to.current, snapshot()];
+      lastEditAt.current = 0;
+      pendingSelection.current = [previous.selectionStart, previous.selectionEnd];
+      onChange(previous.value);
+    },
+    [onChange, snapshot]
+  );
+
+  const indentSelection = useCallback(
+    (outdent: boolean) => {
+      const textarea = textareaRef.current;
+      if (!textarea) return;
+      const { selectionStart: start, selectionEnd: end } = textarea;
+
+      // Plain Tab with no selection inserts an indent at the caret
+      if (!outdent && start === end) {
+        commit(value.slice(0, start) + INDENT + value.slice(end), [start + INDENT.length, start + INDENT.length], false);
+        return;
+      }
+
+      const lineStart = value.lastIndexOf('\n', start - 1) + 1;
+      const lines = value.slice(lineStart, end).split('\n');
+      let firstDelta = 0;
+      let totalDelta = 0;
+      const changed = lines.map((line, i) => {
+        let delta: number;
+        let next: string;
+        if (outdent) {
+          const removable = line.match(/^ {1,2}|^\t/)?.[0].length ?? 0;
+          next = line.slice(removable);
+          delta = -removable;
+        } else {
+          next = INDENT + line;
+          delta = INDENT.length;
+        }
+        if (i === 0) firstDelta = delta;
+        totalDelta += delta;
+        return next;
+      });
+
+      commit(
+        value.slice(0, lineStart) + changed.join('\n') + value.slice(end),
+        [Math.max(lineStart, start + firstDelta), end + totalDelta],
+        false
+      );
+    },
+    [value, commit]
+  );
+
+  const insertNewline = useCallback(() => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const { selectionStart: start, selectionEnd: end } = textarea;
+    const lineStart = value.lastIndexOf('\n', start - 1) + 1;
+    const indent = value.slice(lineStart, start).match(/^[ \t]*/)?.[0] ?? '';
+    // Indent one level further after an opening bracket
+    const extra = /[{[(:]\s*$/.test(value.slice(lineStart, start)) ? INDENT : '';
+    const insert = `\n${indent}${extra}`;
+    const caret = start + insert.length;
+    commit(value.slice(0, start) + insert + value.slice(end), [caret, caret], false);
+  }, [value, commit]);
+
+  const matches = useCallback((): number[] => {
+    if (!query) return [];
+    const haystack = value.toLowerCase();
+    const needle = query.toLowerCase();
+    const found: number[] = [];
+    for (let i = haystack.indexOf(needle); i !== -1; i = haystack.indexOf(needle, i + needle.length)) {
+      found.push(i);
+    }
+    return found;
+  }, [value, query]);
+
+  const matchCount = matches().length;
+
+  const selectMatch = useCallback(
+    (index: number, focusEditor: boolean) => {
+      const found = matches();
+      if (found.length === 0) return;
+      const wrapped = ((index % found.length) + found.length) % found.length;
+      setMatchIndex(wrapped);
+      const textarea = textareaRef.current;
+      if (!textarea) return;
+      if (focusEditor) textarea.focus();
+      textarea.setSelectionRange(found[wrapped], found[wrapped] + query.length);
+      // Scroll the caret into view
+      const line = value.slice(0, found[wrapped]).split('\n').length;
+      textarea.closest('[data-editor-scroll]')?.scrollTo({ top: Math.max(0, (line - 5) * 24) });
+    },
+    [matches, query, value]
+  );
+
+  const openSearch = useCallback(() => {
+    const textarea = textareaRef.current;
+    const selected = textarea ? value.slice(textarea.selectionStart, textarea.selectionEnd) : '';
+    if (selected && !selected.includes('\n')) setQuery(selected);
+    setShowSearch(true);
+    requestAnimationFrame(() => searchRef.current?.select());
+  }, [value]);
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    const mod = e.metaKey || e.ctrlKey;
+    if (mod && e.key.toLowerCase() === 'z') {
+      e.preventDefault();
+      if (e.shiftKey) restore(redoStack, undoStack);
+      else restore(undoStack, redoStack);
+    } else if (mod && e.key.toLowerCase() === 'y') {
+      e.preventDefault();
+      restore(redoStack, undoStack);
+    } else if (mod && e.key.toLowerCase() === 'f') {
+      e.preventDefault();
+      openSearch();
+    } else if (e.key === 'Tab') {
+      e.preventDefault();
+      indentSelection(e.shiftKey);
+    } else if (e.key === 'Enter' && !mod) {
+      e.preventDefault();
+      insertNewline();
+    } else if (e.key === 'Escape' && showSearch) {
+      setShowSearch(false);
+    }
+  };
+
+  return (
+    <div className={cn('relative flex h-full flex-col', className)}>
+      {/* Search bar */}
+      {showSearch && (
+        <div className="absolute right-4 top-2 z-10 flex items-center gap-1 rounded-md border border-border bg-popover px-2 py-1 shadow-md">
+          <Search className="h-3.5 w-3.5 text-muted-foreground" />
+          <input
+            ref={searchRef}
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setMatchIndex(0);
+            }}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                selectMatch(matchIndex + (e.shiftKey ? -1 : 1), false);
+              } else if (e.key === 'Escape') {
+                setShowSearch(false);
+                textareaRef.current?.focus();
+              }
+            }}
+            placeholder="Find"
+            className="w-36 bg-transparent text-xs outline-none"
+            aria-label="Find in file"
+          />
+          <span className="min-w-[3rem] text-right text-[10px] tabular-nums text-muted-foreground">
+            {query ? `${matchCount ? matchIndex + 1 : 0}/${matchCount}` : ''}
+          </span>
+          <Button variant="ghost" size="icon" className="h-6 w-6 cursor-pointer" onClick={() => selectMatch(matchIndex - 1, true)} aria-label="Previous match">
+            <ChevronUp className="h-3 w-3" />
+          </Button>
+          <Button variant="ghost" size="icon" className="h-6 w-6 cursor-pointer" onClick={() => selectMatch(matchIndex + 1, true)} aria-label="Next match">
+            <ChevronDown className="h-3 w-3" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 cursor-pointer"
+            onClick={() => {
+              setShowSearch(false);
+              textareaRef.current?.focus();
+            }}
+            aria-label="Close search"
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+      )}
+
+      <div data-editor-scroll className="flex-1 overflow-auto scrollbar-thin">
+        <div className="flex min-w-full w-max p-4 text-sm leading-6 font-mono">
+          {/* Line numbers */}
+          <div aria-hidden className="select-none pr-4 text-right text-muted-foreground/50 w-12 shrink-0">
+            {Array.from({ length: lineCount }, (_, i) => (
+              <div key={i}>{i + 1}</div>
+            ))}
+          </div>
+
+          {/* Highlighted text with the editable textarea on top */}
+          <div className="relative flex-1">
+            <Highlight theme={isDark ? themes.vsDark : themes.vsLight} code={value} language={language as never}>
+              {({ className: highlightClassName, style, tokens, getLineProps, getTokenProps }) => (
+                <pre
+                  aria-hidden
+                  className={cn(highlightClassName, 'm-0 whitespace-pre font-mono')}
+                  style={{ ...style, background: 'transparent' }}
+                >
+                  {tokens.map((line, i) => (
+                    <div key={i} {...getLineProps({ line })}>
+                      {line.map((token, key) => (
+                        <span key={key} {...getTokenProps({ token })} />
+                      ))}
+                      {/* Keep empty lines one row tall */}
+                      {line.length === 1 && line[0].empty ? '\n' : null}
+                    </div>
+                  ))}
+                </pre>
+              )}
+            </Highlight>
+            <textarea
+              ref={textareaRef}
+              value={value}
+              onChange={(e) => {
+                pendingSelection.current = null;
+                commit(e.target.value, null, true);
+              }}
+              onKeyDown={handleKeyDown}
+              spellCheck={false}
+              autoCapitalize="off"
+              autoComplete="off"
+              autoCorrect="off"
+              wrap="off"
+              aria-label="Code editor"
+              className="absolute inset-0 h-full w-full resize-none overflow-hidden whitespace-pre bg-transparent p-0 font-mono text-transparent caret-foreground outline-none selection:bg-primary/20"
+              style={{ font: 'inherit', lineHeight: 'inherit' }}
+            />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
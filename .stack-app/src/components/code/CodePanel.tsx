@@ -1,14 +1,19 @@
 'use client';
 
-import { useState, useCallback, useRef, useEffect } from 'react';
+import { Fragment, useState, useCallback, useRef, useEffect, type ReactNode } from 'react';
 import { Highlight, themes } from 'prism-react-renderer';
 import { useTheme } from 'next-themes';
 import {
   FileCode,
   Copy,
   Check,
-  ChevronDown,
   X,
+  Pencil,
+  Eye,
+  GitCompare,
+  FilePlus2,
+  PanelLeft,
+  PanelLeftClose,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
@@ -18,14 +23,47 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from '@/components/ui/tooltip';
+import { CodeEditor } from './CodeEditor';
+import { DiffView } from './DiffView';
 import type { CodeFile, CodeContext } from '@/types';
+import type { ChatMode } from '@/types/chat';
 import { cn } from '@/lib/utils';
+import { withRevision } from '@/lib/code-files';
+import {
+  getLinesRange,
+  getSelectionRange,
+  normalizeRange,
+  sliceRange,
+  type CodeRange,
+} from '@/lib/code-selection';
+
+/** Selection popup actions that ask right away, each in its own task mode */
+const TASK_ACTIONS: { mode: Exclude<ChatMode, 'chat'>; label: string; message: (fileName: string) => string }[] = [
+  { mode: 'explain', label: 'Explain code', message: (fileName) => `Explain this code snippet from ${fileName}:` },
+  { mode: 'review', label: 'Review', message: (fileName) => `Review this code from ${fileName}.` },
+  { mode: 'refactor', label: 'Refactor', message: (fileName) => `Suggest a refactoring of this code from ${fileName}.` },
+  { mode: 'write-tests', label: 'Write tests', message: (fileName) => `Write tests for this code from ${fileName}.` },
+  { mode: 'find-bugs', label: 'Find bugs', message: (fileName) => `Find bugs in this code from ${fileName}.` },
+];
 
 interface CodePanelProps {
   files: CodeFile[];
   activeFileId?: string;
   onFileChange?: (fileId: string) => void;
+  /** Unpins a file; shows a close button on each tab */
+  onFileClose?: (fileId: string) => void;
+  /** Saves edits and resolved revisions; enables editing when set */
+  onFileUpdate?: (file: CodeFile) => void;
   onSelectionChat?: (context: CodeContext) => void;
+  /**
+   * Attaches whole files to the chat input. Ctrl/Cmd-click on tabs picks
+   * several files to add at once.
+   */
+  onAddToContext?: (fileIds: string[]) => void;
+  /** Ranges attached to the chat input; highlighted while they are attached */
+  attachedRanges?: Pick<CodeContext, 'fileId' | 'fileName' | 'startLine' | 'endLine' | 'wholeFile'>[];
+  /** Shown beside the code, e.g. an imported project's file tree; can be hidden */
+  sidebar?: ReactNode;
   className?: string;
 }
 
@@ -33,74 +71,155 @@ export function CodePanel({
   files,
   activeFileId,
   onFileChange,
+  onFileClose,
+  onFileUpdate,
   onSelectionChat,
+  onAddToContext,
+  attachedRanges = [],
+  sidebar,
   className,
 }: CodePanelProps) {
   const { resolvedTheme } = useTheme();
-  const [selectedText, setSelectedText] = useState<string>('');
-  const [selectionRange, setSelectionRange] = useState<{ start: number; end: number } | null>(null);
+  const [selection, setSelection] = useState<CodeRange | null>(null);
+  // Gutter selections have no DOM selection, so their lines are highlighted
+  const [gutterSelection, setGutterSelection] = useState(false);
   const [popupPosition, setPopupPosition] = useState<{ top: number; left: number } | null>(null);
   const [lastPopupPosition, setLastPopupPosition] = useState<{ top: number; left: number } | null>(null);
+  const anchorLine = useRef<number | null>(null);
   const [copied, setCopied] = useState(false);
-  const [showFileDropdown, setShowFileDropdown] = useState(false);
+  // Tabs picked with Ctrl/Cmd-click for "add to context"
+  const [pickedIds, setPickedIds] = useState<string[]>([]);
+  const [showSidebar, setShowSidebar] = useState(true);
   const codeRef = useRef<HTMLPreElement>(null);
 
+  const [mode, setMode] = useState<'view' | 'edit' | 'review'>('view');
+
   const activeFile = files.find((f) => f.id === activeFileId) || files[0];
   const isDark = resolvedTheme === 'dark';
 
+  // Open the diff when a file gets a suggested revision; leave it once resolved
+  const pendingRevision = activeFile?.revision;
+  useEffect(() => {
+    setMode((current) => {
+      if (pendingRevision !== undefined && onFileUpdate) return 'review';
+      return current === 'review' ? 'view' : current;
+    });
+  }, [pendingRevision, onFileUpdate]);
+
+  const selectedText = selection && activeFile ? sliceRange(activeFile.content, selection) : '';
+
+  const clearSelection = useCallback(() => {
+    setSelection(null);
+    setGutterSelection(false);
+    setPopupPosition(null);
+  }, []);
+
+  const showPopupAt = useCallback((rect: DOMRect) => {
+    // Place it above the selection, centered horizontally
+    const pos = {
+      top: rect.top - 50,
+      left: rect.left + rect.width / 2,
+    };
+    setPopupPosition(pos);
+    setLastPopupPosition(pos);
+  }, []);
+
   // Handle text selection
   const handleMouseUp = useCallback(() => {
-    const selection = window.getSelection();
-    if (!selection || selection.isCollapsed) {
-      setSelectedText('');
-      setSelectionRange(null);
-      setPopupPosition(null);
+    const domSelection = window.getSelection();
+    if (!domSelection || domSelection.isCollapsed) {
+      if (!gutterSelection) clearSelection();
       return;
     }
+    if (!activeFile || !codeRef.current?.contains(domSelection.anchorNode)) return;
 
-    const text = selection.toString().trim();
-    if (text && codeRef.current?.contains(selection.anchorNode)) {
-      setSelectedText(text);
+    const range = getSelectionRange(domSelection);
+    if (!range || !sliceRange(activeFile.content, range).trim()) return;
 
-      const range = selection.getRangeAt(0);
-      const rangeRect = range.getBoundingClientRect();
-      const preElement = codeRef.current;
-      const preRect = preElement.getBoundingClientRect();
+    setSelection(normalizeRange(activeFile.content, range));
+    setGutterSelection(false);
+    anchorLine.current = range.start.line;
+    showPopupAt(domSelection.getRangeAt(0).getBoundingClientRect());
+  }, [activeFile, gutterSelection, clearSelection, showPopupAt]);
 
-      // Calculate relative position for the popup
-      // Place it above the selection, slightly to the right
-      const pos = {
-        top: rangeRect.top - 50, // 50px above the top of selection
-        left: rangeRect.left + (rangeRect.width / 2),
-      };
-      setPopupPosition(pos);
-      setLastPopupPosition(pos);
+  // Click a line number to select the line; shift-click extends from the anchor
+  const handleGutterClick = useCallback(
+    (line: number, extend: boolean, rowRect: DOMRect) => {
+      if (!activeFile) return;
+      window.getSelection()?.removeAllRanges();
+      const from = extend && anchorLine.current !== null ? anchorLine.current : line;
+      if (!extend) anchorLine.current = line;
+      setSelection(getLinesRange(activeFile.content, from, line));
+      setGutterSelection(true);
+      showPopupAt(rowRect);
+    },
+    [activeFile, showPopupAt]
+  );
 
-      // Estimate line numbers based on position
-      const lineHeight = 24; // Approximate line height
-      const startLine = Math.max(1, Math.floor((rangeRect.top - preRect.top) / lineHeight) + 1);
-      const endLine = Math.max(startLine, Math.ceil((rangeRect.bottom - preRect.top) / lineHeight));
+  // Selections belong to one file
+  useEffect(() => {
+    clearSelection();
+    anchorLine.current = null;
+  }, [activeFile?.id, clearSelection]);
 
-      setSelectionRange({ start: startLine, end: endLine });
-    }
-  }, []);
+  // Whole files are attached without highlighting every line
+  const attachedLines = activeFile
+    ? attachedRanges.filter(
+        (range) =>
+          !range.wholeFile && (range.fileId ? range.fileId === activeFile.id : range.fileName === activeFile.name)
+      )
+    : [];
+  const firstAttachedLine = attachedLines.length ? Math.min(...attachedLines.map((r) => r.startLine)) : null;
+
+  // Bring the attached ranges into view
+  useEffect(() => {
+    if (firstAttachedLine === null) return;
+    codeRef.current
+      ?.querySelector(`[data-line="${firstAttachedLine}"]`)
+      ?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [firstAttachedLine]);
+
+  // Drop picks for files that were closed
+  const livePickedIds = pickedIds.filter((id) => files.some((f) => f.id === id));
+
+  const handleTabClick = useCallback(
+    (fileId: string, pick: boolean) => {
+      if (pick && onAddToContext) {
+        setPickedIds((ids) => (ids.includes(fileId) ? ids.filter((id) => id !== fileId) : [...ids, fileId]));
+        return;
+      }
+      onFileChange?.(fileId);
+    },
+    [onAddToContext, onFileChange]
+  );
+
+  const handleAddToContext = useCallback(() => {
+    if (!activeFile) return;
+    onAddToContext?.(livePickedIds.length ? livePickedIds : [activeFile.id]);
+    setPickedIds([]);
+  }, [activeFile, livePickedIds, onAddToContext]);
 
   // Chat actions
-  const handleAction = useCallback((action: 'explain' | 'ask') => {
-    if (!selectedText || !selectionRange || !activeFile) return;
+  const handleAction = useCallback((action: Exclude<ChatMode, 'chat'> | 'ask') => {
+    if (!selectedText || !selection || !activeFile) return;
 
     const context: CodeContext = {
+      fileId: activeFile.id,
       fileName: activeFile.name,
       language: activeFile.language,
       selectedCode: selectedText,
-      startLine: selectionRange.start,
-      endLine: selectionRange.end,
+      startLine: selection.start.line,
+      endLine: selection.end.line,
+      startColumn: selection.start.column,
+      endColumn: selection.end.column,
     };
 
-    if (action === 'explain') {
+    const task = TASK_ACTIONS.find((t) => t.mode === action);
+    if (task) {
       onSelectionChat?.({
         ...context,
-        initialMessage: `Explain this code snippet from ${activeFile.name}:`
+        initialMessage: task.message(activeFile.name),
+        mode: task.mode,
       });
     } else {
       onSelectionChat?.(context);
@@ -108,10 +227,8 @@ export function CodePanel({
 
     // Clear selection
     window.getSelection()?.removeAllRanges();
-    setSelectedText('');
-    setSelectionRange(null);
-    setPopupPosition(null);
-  }, [selectedText, selectionRange, activeFile, onSelectionChat]);
+    clearSelection();
+  }, [selectedText, selection, activeFile, onSelectionChat, clearSelection]);
 
   // Copy to clipboard
   const handleCopy = useCallback(async () => {
@@ -121,186 +238,295 @@ export function CodePanel({
     setTimeout(() => setCopied(false), 2000);
   }, [selectedText, activeFile?.content]);
 
-  // Close dropdown on outside click
-  useEffect(() => {
-    const handleClickOutside = () => setShowFileDropdown(false);
-    if (showFileDropdown) {
-      document.addEventListener('click', handleClickOutside);
-      return () => document.removeEventListener('click', handleClickOutside);
-    }
-  }, [showFileDropdown]);
-
   if (!activeFile) {
     return (
-      <div className={cn('flex h-full items-center justify-center bg-card', className)}>
-        <div className="text-center text-muted-foreground">
-          <FileCode className="mx-auto h-12 w-12 mb-4 opacity-50" />
-          <p>No files to display</p>
+      <div className={cn('flex h-full bg-card', className)}>
+        {sidebar && <div className="w-60 shrink-0 border-r border-border">{sidebar}</div>}
+        <div className="flex flex-1 items-center justify-center">
+          <div className="text-center text-muted-foreground">
+            <FileCode className="mx-auto h-12 w-12 mb-4 opacity-50" />
+            <p>No files to display</p>
+          </div>
         </div>
       </div>
     );
   }
 
   return (
-    <div className={cn('flex h-full flex-col bg-card border-l border-border', className)}>
-      {/* Header */}
-      <div className="flex items-center justify-between border-b border-border px-4 py-2 bg-muted/30">
-        {/* File Selector */}
-        <div className="relative">
-          <Button
-            variant="ghost"
-            size="sm"
-            className="h-8 gap-2 cursor-pointer hover:bg-background font-bold text-xs uppercase tracking-widest"
-            onClick={(e) => {
-              e.stopPropagation();
-              setShowFileDropdown(!showFileDropdown);
-            }}
-          >
-            <div className="h-2 w-2 rounded-full bg-primary" />
-            <span className="font-mono">{activeFile.name}</span>
-            <ChevronDown className="h-3 w-3 text-muted-foreground" />
-          </Button>
-
-          {/* Dropdown */}
-          {showFileDropdown && files.length > 1 && (
-            <div className="absolute left-0 top-full z-10 mt-1 min-w-[200px] rounded-md border border-border bg-popover py-1 shadow-lg animate-fade-in">
-              {files.map((file) => (
+    <div className={cn('flex h-full bg-card border-l border-border', className)}>
+      {sidebar && showSidebar && <div className="w-60 shrink-0 border-r border-border">{sidebar}</div>}
+      <div className="flex min-w-0 flex-1 flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between border-b border-border px-4 py-2 bg-muted/30">
+          {sidebar && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="mr-1 h-8 w-8 shrink-0 cursor-pointer"
+              onClick={() => setShowSidebar(!showSidebar)}
+              aria-label={showSidebar ? 'Hide project files' : 'Show project files'}
+              title={showSidebar ? 'Hide project files' : 'Show project files'}
+            >
+              {showSidebar ? <PanelLeftClose className="h-4 w-4" /> : <PanelLeft className="h-4 w-4" />}
+            </Button>
+          )}
+          {/* File Tabs */}
+          <div className="flex min-w-0 flex-1 items-center gap-1 overflow-x-auto scrollbar-thin">
+            {files.map((file) => (
+              <div
+                key={file.id}
+                className={cn(
+                  'group/tab flex shrink-0 items-center rounded-md text-xs transition-colors',
+                  file.id === activeFile.id
+                    ? 'bg-background text-foreground shadow-sm'
+                    : 'text-muted-foreground hover:bg-background/60',
+                  livePickedIds.includes(file.id) && 'ring-1 ring-accent'
+                )}
+              >
                 <button
-                  key={file.id}
-                  className={cn(
-                    'flex w-full items-center gap-2 px-3 py-2 text-left text-sm cursor-pointer transition-colors hover:bg-muted',
-                    file.id === activeFile.id && 'bg-muted'
-                  )}
-                  onClick={() => {
-                    onFileChange?.(file.id);
-                    setShowFileDropdown(false);
-                  }}
+                  className="flex items-center gap-2 px-2.5 py-1.5 cursor-pointer"
+                  onClick={(e) => handleTabClick(file.id, e.metaKey || e.ctrlKey)}
+                  title={`${file.name} (${file.language})`}
+                  aria-pressed={onAddToContext ? livePickedIds.includes(file.id) : undefined}
                 >
-                  <FileCode className="h-4 w-4 text-muted-foreground" />
+                  {file.id === activeFile.id && <div className="h-2 w-2 rounded-full bg-primary" />}
                   <span className="font-mono">{file.name}</span>
-                  <span className="ml-auto text-xs text-muted-foreground">
-                    {file.language}
-                  </span>
                 </button>
-              ))}
-            </div>
-          )}
-        </div>
+                {onFileClose && (
+                  <button
+                    className="mr-1 rounded p-0.5 opacity-0 transition-opacity cursor-pointer hover:bg-muted group-hover/tab:opacity-100"
+                    onClick={() => onFileClose(file.id)}
+                    aria-label={`Close ${file.name}`}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
 
-        {/* Actions */}
-        <div className="flex items-center gap-1">
-          <TooltipProvider>
-            <Tooltip>
-              <TooltipTrigger asChild>
-                <Button
-                  variant="ghost"
-                  size="icon"
-                  className="h-8 w-8 cursor-pointer"
-                  onClick={handleCopy}
-                >
-                  {copied ? (
-                    <Check className="h-4 w-4 text-accent" />
-                  ) : (
-                    <Copy className="h-4 w-4" />
-                  )}
-                </Button>
-              </TooltipTrigger>
-              <TooltipContent>
-                <p>{copied ? 'Copied!' : selectedText ? 'Copy selection' : 'Copy all'}</p>
-              </TooltipContent>
-            </Tooltip>
-          </TooltipProvider>
+          {/* Actions */}
+          <div className="flex items-center gap-1">
+            {onAddToContext && (
+              <TooltipProvider>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size={livePickedIds.length ? 'sm' : 'icon'}
+                      className={cn('h-8 cursor-pointer', livePickedIds.length ? 'gap-1.5 text-xs text-accent' : 'w-8')}
+                      onClick={handleAddToContext}
+                      aria-label={livePickedIds.length ? `Add ${livePickedIds.length} files to context` : 'Add file to context'}
+                    >
+                      <FilePlus2 className="h-4 w-4" />
+                      {livePickedIds.length > 0 && `Add ${livePickedIds.length} to context`}
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <p>
+                      {livePickedIds.length
+                        ? 'Attach the picked files to the next message'
+                        : 'Add file to context (Ctrl/Cmd-click tabs to pick several)'}
+                    </p>
+                  </TooltipContent>
+                </Tooltip>
+              </TooltipProvider>
+            )}
+            {onFileUpdate && activeFile.revision !== undefined && mode !== 'review' && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 gap-1.5 cursor-pointer text-xs text-accent"
+                onClick={() => setMode('review')}
+              >
+                <GitCompare className="h-3.5 w-3.5" />
+                Review changes
+              </Button>
+            )}
+            {onFileUpdate && mode !== 'review' && (
+              <TooltipProvider>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 cursor-pointer"
+                      onClick={() => setMode(mode === 'edit' ? 'view' : 'edit')}
+                      aria-label={mode === 'edit' ? 'Stop editing' : 'Edit file'}
+                    >
+                      {mode === 'edit' ? <Eye className="h-4 w-4" /> : <Pencil className="h-4 w-4" />}
+                    </Button>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <p>{mode === 'edit' ? 'Done editing' : 'Edit file'}</p>
+                  </TooltipContent>
+                </Tooltip>
+              </TooltipProvider>
+            )}
+            {mode === 'review' && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 cursor-pointer text-xs"
+                onClick={() => setMode('view')}
+              >
+                Close diff
+              </Button>
+            )}
+            <TooltipProvider>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 cursor-pointer"
+                    onClick={handleCopy}
+                  >
+                    {copied ? (
+                      <Check className="h-4 w-4 text-accent" />
+                    ) : (
+                      <Copy className="h-4 w-4" />
+                    )}
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>{copied ? 'Copied!' : selectedText ? 'Copy selection' : 'Copy all'}</p>
+                </TooltipContent>
+              </Tooltip>
+            </TooltipProvider>
+          </div>
         </div>
-      </div>
 
-      {/* Floating Selection Popup - smooth fade-in on appear */}
-      <div
-        className={cn(
-          "fixed z-[100] flex items-center gap-1 rounded-md border border-black dark:border-white bg-white dark:bg-black p-0.5 shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] dark:shadow-[4px_4px_0px_0px_rgba(255,255,255,1)] -translate-x-1/2",
-          "transition-[opacity,transform] duration-350 ease-out",
-          popupPosition && selectedText
-            ? "opacity-100 scale-100 translate-y-0 pointer-events-auto"
-            : "opacity-0 scale-[0.97] translate-y-1.5 pointer-events-none"
-        )}
-        style={{
-          top: `${(popupPosition || lastPopupPosition)?.top || 0}px`,
-          left: `${(popupPosition || lastPopupPosition)?.left || 0}px`,
-        }}
-      >
-        <Button
-          variant="ghost"
-          size="sm"
-          className="h-7 px-2 text-[10px] font-bold uppercase tracking-tight hover:bg-black hover:text-white dark:hover:bg-white dark:hover:text-black rounded-none text-black dark:text-white"
-          onClick={() => handleAction('explain')}
-        >
-          Explain code
-        </Button>
-        <div className="h-3 w-[1px] bg-black/10 dark:bg-white/20 mx-0.5" />
-        <Button
-          variant="ghost"
-          size="sm"
-          className="h-7 px-2 text-[10px] font-bold uppercase tracking-tight hover:bg-black hover:text-white dark:hover:bg-white dark:hover:text-black rounded-none text-black dark:text-white"
-          onClick={() => handleAction('ask')}
-        >
-          Ask about this
-        </Button>
-        <Button
-          variant="ghost"
-          size="icon"
-          className="h-7 w-7 text-black dark:text-white hover:bg-black hover:text-white dark:hover:bg-white dark:hover:text-black rounded-none"
-          onClick={() => {
-            window.getSelection()?.removeAllRanges();
-            setSelectedText('');
-            setPopupPosition(null);
+        {/* Floating Selection Popup - smooth fade-in on appear */}
+        <div
+          className={cn(
+            "fixed z-[100] flex items-center gap-1 rounded-md border border-black dark:border-white bg-white dark:bg-black p-0.5 shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] dark:shadow-[4px_4px_0px_0px_rgba(255,255,255,1)] -translate-x-1/2",
+            "transition-[opacity,transform] duration-350 ease-out",
+            popupPosition && selectedText
+              ? "opacity-100 scale-100 translate-y-0 pointer-events-auto"
+              : "opacity-0 scale-[0.97] translate-y-1.5 pointer-events-none"
+          )}
+          style={{
+            top: `${(popupPosition || lastPopupPosition)?.top || 0}px`,
+            left: `${(popupPosition || lastPopupPosition)?.left || 0}px`,
           }}
         >
-          <X className="h-3.5 w-3.5" />
-        </Button>
-      </div>
-
-      {/* Code Content */}
-      <ScrollArea className="flex-1">
-        <div className="relative" onMouseUp={handleMouseUp}>
-          <Highlight
-            theme={isDark ? themes.vsDark : themes.vsLight}
-            code={activeFile.content}
-            language={activeFile.language as never}
-          >
-            {({ className: highlightClassName, style, tokens, getLineProps, getTokenProps }) => (
-              <pre
-                ref={codeRef}
-                className={cn(
-                  highlightClassName,
-                  'overflow-x-auto p-4 text-sm leading-6 font-mono'
-                )}
-                style={{ ...style, background: 'transparent' }}
+          {TASK_ACTIONS.map((task) => (
+            <Fragment key={task.mode}>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2 text-[10px] font-bold uppercase tracking-tight hover:bg-black hover:text-white dark:hover:bg-white dark:hover:text-black rounded-none text-black dark:text-white"
+                onClick={() => handleAction(task.mode)}
               >
-                {tokens.map((line, i) => {
-                  const lineProps = getLineProps({ line, key: i });
-                  return (
-                    <div
-                      key={i}
-                      {...lineProps}
-                      className={cn(lineProps.className, 'table-row')}
-                    >
-                      {/* Line Number */}
-                      <span className="table-cell select-none pr-4 text-right text-muted-foreground/50 w-12">
-                        {i + 1}
-                      </span>
-                      {/* Code */}
-                      <span className="table-cell">
-                        {line.map((token, key) => (
-                          <span key={key} {...getTokenProps({ token, key })} />
-                        ))}
-                      </span>
-                    </div>
-                  );
-                })}
-              </pre>
-            )}
-          </Highlight>
+                {task.label}
+              </Button>
+              <div className="h-3 w-[1px] bg-black/10 dark:bg-white/20 mx-0.5" />
+            </Fragment>
+          ))}
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 text-[10px] font-bold uppercase tracking-tight hover:bg-black hover:text-white dark:hover:bg-white dark:hover:text-black rounded-none text-black dark:text-white"
+            onClick={() => handleAction('ask')}
+          >
+            Ask about this
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 text-black dark:text-white hover:bg-black hover:text-white dark:hover:bg-white dark:hover:text-black rounded-none"
+            onClick={() => {
+              window.getSelection()?.removeAllRanges();
+              clearSelection();
+            }}
+          >
+            <X className="h-3.5 w-3.5" />
+          </Button>
         </div>
-      </ScrollArea>
+
+        {/* Code Content */}
+        {mode === 'review' && onFileUpdate && activeFile.revision !== undefined ? (
+          <DiffView
+            key={activeFile.id}
+            original={activeFile.content}
+            revision={activeFile.revision}
+            onResolve={(content, revision) => onFileUpdate(withRevision({ ...activeFile, content }, revision))}
+            className="flex-1 min-h-0"
+          />
+        ) : mode === 'edit' && onFileUpdate ? (
+          <CodeEditor
+            key={activeFile.id}
+            value={activeFile.content}
+            language={activeFile.language}
+            onChange={(content) => onFileUpdate({ ...activeFile, content })}
+            className="flex-1 min-h-0"
+          />
+        ) : (
+          <ScrollArea className="flex-1">
+            <div className="relative" onMouseUp={handleMouseUp}>
+              <Highlight
+                theme={isDark ? themes.vsDark : themes.vsLight}
+                code={activeFile.content}
+                language={activeFile.language as never}
+              >
+                {({ className: highlightClassName, style, tokens, getLineProps, getTokenProps }) => (
+                  <pre
+                    ref={codeRef}
+                    className={cn(
+                      highlightClassName,
+                      'overflow-x-auto p-4 text-sm leading-6 font-mono'
+                    )}
+                    style={{ ...style, background: 'transparent' }}
+                  >
+                    {tokens.map((line, i) => {
+                      const lineProps = getLineProps({ line, key: i });
+                      const lineNumber = i + 1;
+                      const isAttached = attachedLines.some(
+                        (range) => lineNumber >= range.startLine && lineNumber <= range.endLine
+                      );
+                      const isSelected =
+                        gutterSelection && !!selection && lineNumber >= selection.start.line && lineNumber <= selection.end.line;
+                      return (
+                        <div
+                          key={i}
+                          {...lineProps}
+                          data-line={lineNumber}
+                          className={cn(
+                            lineProps.className,
+                            'table-row',
+                            isAttached && 'bg-accent/10',
+                            isSelected && 'bg-primary/10'
+                          )}
+                        >
+                          {/* Line Number */}
+                          <span
+                            className={cn(
+                              'table-cell select-none pr-4 text-right w-12 cursor-pointer hover:text-foreground',
+                              isAttached ? 'text-accent' : 'text-muted-foreground/50'
+                            )}
+                            onClick={(e) =>
+                              handleGutterClick(lineNumber, e.shiftKey, e.currentTarget.parentElement!.getBoundingClientRect())
+                            }
+                          >
+                            {lineNumber}
+                          </span>
+                          {/* Code */}
+                          <span className="table-cell" data-line-code>
+                            {line.map((token, key) => (
+                              <span key={key} {...getTokenProps({ token, key })} />
+                            ))}
+                          </span>
+                        </div>
+                      );
+                    })}
+                  </pre>
+                )}
+              </Highlight>
+            </div>
+          </ScrollArea>
+        )}
+      </div>
     </div>
   );
 }
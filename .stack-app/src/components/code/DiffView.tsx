@@ -0,0 +1,254 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Check, Columns2, Rows2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { buildText, diffLines, type ChangeSegment, type DiffSegment } from '@/lib/diff';
+import { cn } from '@/lib/utils';
+
+/** Unchanged lines shown around each hunk; longer runs are collapsed */
+const CONTEXT_LINES = 3;
+
+interface DiffViewProps {
+  /** Current file content */
+  original: string;
+  /** Suggested revision */
+  revision: string;
+  /**
+   * Called after a hunk is resolved with the new content and the remaining
+   * revision, or undefined once nothing is left to review
+   */
+  onResolve: (content: string, revision: string | undefined) => void;
+  className?: string;
+}
+
+type Layout = 'inline' | 'split';
+
+export function DiffView({ original, revision, onResolve, className }: DiffViewProps) {
+  const [layout, setLayout] = useState<Layout>('inline');
+  const segments = useMemo(() => diffLines(original, revision), [original, revision]);
+  const hunkCount = segments.filter((s) => s.type === 'change').length;
+
+  /**
+   * Accepting a hunk writes it into the content; rejecting drops it from the
+   * revision. Either way the remaining hunks stay pending.
+   */
+  const resolve = (hunk: number | 'all', accept: boolean) => {
+    const matches = (i: number) => hunk === 'all' || i === hunk;
+    const content = accept ? buildText(segments, (_, i) => (matches(i) ? 'new' : 'old')) : original;
+    const remaining = accept ? revision : buildText(segments, (_, i) => (matches(i) ? 'old' : 'new'));
+    onResolve(content, content === remaining ? undefined : remaining);
+  };
+
+  let hunkIndex = 0;
+
+  return (
+    <div className={cn('flex h-full flex-col', className)}>
+      {/* Toolbar */}
+      <div className="flex items-center gap-2 border-b border-border bg-muted/20 px-4 py-1.5 text-xs">
+        <span className="text-muted-foreground">
+          {hunkCount} suggested {hunkCount === 1 ? 'change' : 'changes'}
+        </span>
+        <div className="ml-auto flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 cursor-pointer"
+            onClick={() => setLayout(layout === 'inline' ? 'split' : 'inline')}
+            aria-label={layout === 'inline' ? 'Side-by-side diff' : 'Inline diff'}
+            title={layout === 'inline' ? 'Side by side' : 'Inline'}
+          >
+            {layout === 'inline' ? <Columns2 className="h-3.5 w-3.5" /> : <Rows2 className="h-3.5 w-3.5" />}
+          </Button>
+          <Button variant="ghost" size="sm" className="h-7 cursor-pointer text-xs" onClick={() => resolve('all', false)}>
+            Reject all
+          </Button>
+          <Button size="sm" className="h-7 cursor-pointer text-xs" onClick={() => resolve('all', true)}>
+            Accept all
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto scrollbar-thin font-mono text-sm leading-6">
+        {segments.map((segment, i) => {
+          if (segment.type === 'equal') {
+            return (
+              <EqualLines
+                key={i}
+                segment={segment}
+                layout={layout}
+                isFirst={i === 0}
+                isLast={i === segments.length - 1}
+              />
+            );
+          }
+          const index = hunkIndex++;
+          return (
+            <Hunk
+              key={i}
+              segment={segment}
+              layout={layout}
+              onAccept={() => resolve(index, true)}
+              onReject={() => resolve(index, false)}
+            />
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+function LineNumber({ value }: { value?: number }) {
+  return (
+    <span className="w-10 shrink-0 select-none pr-2 text-right text-muted-foreground/50">
+      {value ?? ''}
+    </span>
+  );
+}
+
+function DiffLine({
+  text,
+  oldNumber,
+  newNumber,
+  kind,
+}: {
+  text: string;
+  oldNumber?: number;
+  newNumber?: number;
+  kind: 'equal' | 'delete' | 'insert';
+}) {
+  return (
+    <div
+      className={cn(
+        'flex whitespace-pre',
+        kind === 'delete' && 'bg-red-500/10',
+        kind === 'insert' && 'bg-green-500/10'
+      )}
+    >
+      <LineNumber value={oldNumber} />
+      <LineNumber value={newNumber} />
+      <span className="w-4 shrink-0 select-none text-muted-foreground">
+        {kind === 'delete' ? '-' : kind === 'insert' ? '+' : ' '}
+      </span>
+      <span className="pr-4">{text}</span>
+    </div>
+  );
+}
+
+function SplitLine({ number, text, kind }: { number?: number; text?: string; kind: 'equal' | 'delete' | 'insert' }) {
+  return (
+    <div
+      className={cn(
+        'flex min-h-6 whitespace-pre',
+        text !== undefined && kind === 'delete' && 'bg-red-500/10',
+        text !== undefined && kind === 'insert' && 'bg-green-500/10'
+      )}
+    >
+      <LineNumber value={number} />
+      <span className="pr-4">{text ?? ''}</span>
+    </div>
+  );
+}
+
+function EqualLines({
+  segment,
+  layout,
+  isFirst,
+  isLast,
+}: {
+  segment: Extract<DiffSegment, { type: 'equal' }>;
+  layout: Layout;
+  isFirst: boolean;
+  isLast: boolean;
+}) {
+  const [expanded, setExpanded] = useState(false);
+  const { lines, oldStart, newStart } = segment;
+
+  // Show context next to hunks and collapse the middle of long runs
+  const head = isFirst ? 0 : CONTEXT_LINES;
+  const tail = isLast ? 0 : CONTEXT_LINES;
+  const collapsible = !expanded && lines.length > head + tail + 1;
+  const visible = collapsible
+    ? [...lines.slice(0, head).map((l, i) => [l, i] as const), null, ...lines.slice(lines.length - tail).map((l, i) => [l, lines.length - tail + i] as const)]
+    : lines.map((l, i) => [l, i] as const);
+
+  return (
+    <>
+      {visible.map((entry, k) => {
+        if (entry === null) {
+          return (
+            <button
+              key={`gap-${k}`}
+              className="block w-full cursor-pointer bg-muted/40 py-0.5 text-center text-xs text-muted-foreground hover:bg-muted"
+              onClick={() => setExpanded(true)}
+            >
+              Show {lines.length - head - tail} unchanged lines
+            </button>
+          );
+        }
+        const [text, offset] = entry;
+        return layout === 'inline' ? (
+          <DiffLine key={offset} text={text} oldNumber={oldStart + offset} newNumber={newStart + offset} kind="equal" />
+        ) : (
+          <div key={offset} className="grid grid-cols-2">
+            <SplitLine number={oldStart + offset} text={text} kind="equal" />
+            <SplitLine number={newStart + offset} text={text} kind="equal" />
+          </div>
+        );
+      })}
+    </>
+  );
+}
+
+function Hunk({
+  segment,
+  layout,
+  onAccept,
+  onReject,
+}: {
+  segment: ChangeSegment;
+  layout: Layout;
+  onAccept: () => void;
+  onReject: () => void;
+}) {
+  const { oldLines, newLines, oldStart, newStart } = segment;
+  const rows = Math.max(oldLines.length, newLines.length);
+
+  return (
+    <div className="group/hunk relative border-y border-border/60">
+      <div className="absolute right-2 top-1 z-10 flex gap-1 opacity-60 transition-opacity group-hover/hunk:opacity-100">
+        <Button variant="outline" size="sm" className="h-6 cursor-pointer gap-1 px-2 text-[10px]" onClick={onReject}>
+          <X className="h-3 w-3" /> Reject
+        </Button>
+        <Button size="sm" className="h-6 cursor-pointer gap-1 px-2 text-[10px]" onClick={onAccept}>
+          <Check className="h-3 w-3" /> Accept
+        </Button>
+      </div>
+      {layout === 'inline' ? (
+        <>
+          {oldLines.map((text, i) => (
+            <DiffLine key={`d${i}`} text={text} oldNumber={oldStart + i} kind="delete" />
+          ))}
+          {newLines.map((text, i) => (
+            <DiffLine key={`i${i}`} text={text} newNumber={newStart + i} kind="insert" />
+          ))}
+        </>
+      ) : (
+        Array.from({ length: rows }, (_, i) => (
+          <div key={i} className="grid grid-cols-2">
+            <SplitLine
+              number={i < oldLines.length ? oldStart + i : undefined}
+              text={oldLines[i]}
+              kind="delete"
+            />
+            <SplitLine
+              number={i < newLines.length ? newStart + i : undefined}
+              text={newLines[i]}
+              kind="insert"
+            />
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,293 @@
+'use client';
+
+import { useState, useMemo, useRef, type DragEvent, type ReactNode } from 'react';
+import {
+  ChevronDown,
+  ChevronRight,
+  FileArchive,
+  FileCode,
+  Folder,
+  FolderOpen,
+  Loader2,
+  Plus,
+  Search,
+  X,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { buildFileTree, IMPORT_LIMITS, type FileTreeNode, type ImportedProject, type ProjectSource } from '@/lib/project-import';
+import { cn } from '@/lib/utils';
+
+interface ProjectBrowserProps {
+  project: ImportedProject | null;
+  isImporting?: boolean;
+  error?: string | null;
+  /** Called with a picked folder or zip, or with the drop event's DataTransfer */
+  onImport: (source: ProjectSource) => void;
+  /** Opens a project file in a panel tab */
+  onOpenFile: (path: string) => void;
+  /** Opens a project file and attaches it to the next message */
+  onAddToContext?: (path: string) => void;
+  onClose: () => void;
+  /** Path of the file shown in the active tab */
+  activePath?: string;
+  className?: string;
+}
+
+const SKIP_REASONS = {
+  'too-large': `over ${IMPORT_LIMITS.maxFileBytes / 1024}KB`,
+  binary: 'binary',
+  limit: 'over the import limit',
+} as const;
+
+/**
+ * File tree of an imported folder or zip, with the import controls.
+ * Folders and zips can also be dropped onto it.
+ */
+export function ProjectBrowser({
+  project,
+  isImporting,
+  error,
+  onImport,
+  onOpenFile,
+  onAddToContext,
+  onClose,
+  activePath,
+  className,
+}: ProjectBrowserProps) {
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const zipInputRef = useRef<HTMLInputElement>(null);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [query, setQuery] = useState('');
+  const [dragging, setDragging] = useState(false);
+  const [showSkipped, setShowSkipped] = useState(false);
+
+  const tree = useMemo(() => (project ? buildFileTree(project.files) : []), [project]);
+  const matches = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    return needle && project ? project.files.filter((f) => f.path.toLowerCase().includes(needle)) : null;
+  }, [project, query]);
+
+  const toggle = (path: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+  };
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setDragging(false);
+    if (e.dataTransfer.items.length > 0) {
+      setExpanded(new Set());
+      setQuery('');
+      onImport(e.dataTransfer);
+    }
+  };
+
+  const handlePicked = (files: FileList | null) => {
+    if (files?.length) {
+      setExpanded(new Set());
+      setQuery('');
+      onImport(files);
+    }
+  };
+
+  const fileRow = (path: string, label: string, depth: number) => (
+    <div
+      key={path}
+      className={cn(
+        'group/row flex items-center rounded-sm pr-1 text-xs hover:bg-muted',
+        path === activePath && 'bg-muted text-foreground'
+      )}
+      style={{ paddingLeft: depth * 12 + 20 }}
+    >
+      <button
+        className="flex min-w-0 flex-1 items-center gap-1.5 py-1 text-left cursor-pointer"
+        onClick={() => onOpenFile(path)}
+        title={path}
+      >
+        <FileCode className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+        <span className="truncate font-mono">{label}</span>
+      </button>
+      {onAddToContext && (
+        <button
+          className="rounded p-0.5 opacity-0 transition-opacity cursor-pointer hover:bg-background group-hover/row:opacity-100"
+          onClick={() => onAddToContext(path)}
+          aria-label={`Add ${path} to context`}
+          title="Add to context"
+        >
+          <Plus className="h-3 w-3" />
+        </button>
+      )}
+    </div>
+  );
+
+  const renderNodes = (nodes: FileTreeNode[], depth: number): ReactNode =>
+    nodes.map((node) => {
+      if (!node.children) return fileRow(node.path, node.name, depth);
+      const open = expanded.has(node.path);
+      return (
+        <div key={node.path}>
+          <button
+            className="flex w-full items-center gap-1 rounded-sm py-1 pr-1 text-left text-xs cursor-pointer hover:bg-muted"
+            style={{ paddingLeft: depth * 12 + 4 }}
+            onClick={() => toggle(node.path)}
+            aria-expanded={open}
+          >
+            {open ? <ChevronDown className="h-3 w-3 shrink-0" /> : <ChevronRight className="h-3 w-3 shrink-0" />}
+            {open ? (
+              <FolderOpen className="h-3.5 w-3.5 shrink-0 text-accent" />
+            ) : (
+              <Folder className="h-3.5 w-3.5 shrink-0 text-accent" />
+            )}
+            <span className="truncate">{node.name}</span>
+          </button>
+          {open && renderNodes(node.children, depth + 1)}
+        </div>
+      );
+    });
+
+  return (
+    <div
+      className={cn('flex h-full flex-col bg-card', dragging && 'ring-2 ring-inset ring-accent', className)}
+      onDragOver={(e) => {
+        e.preventDefault();
+        setDragging(true);
+      }}
+      onDragLeave={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDragging(false);
+      }}
+      onDrop={handleDrop}
+    >
+      {/* Hidden pickers; webkitdirectory is not in React's input typings */}
+      <input
+        ref={folderInputRef}
+        type="file"
+        className="hidden"
+        {...{ webkitdirectory: '', directory: '' }}
+        onChange={(e) => {
+          handlePicked(e.target.files);
+          e.target.value = '';
+        }}
+        aria-label="Import folder"
+      />
+      <input
+        ref={zipInputRef}
+        type="file"
+        accept=".zip,application/zip"
+        className="hidden"
+        onChange={(e) => {
+          handlePicked(e.target.files);
+          e.target.value = '';
+        }}
+        aria-label="Import zip"
+      />
+
+      {/* Header */}
+      <div className="flex items-center gap-1 border-b border-border px-2 py-2">
+        <span className="min-w-0 flex-1 truncate text-xs font-medium" title={project?.name}>
+          {project ? project.name : 'Project'}
+        </span>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6 cursor-pointer"
+          onClick={() => folderInputRef.current?.click()}
+          disabled={isImporting}
+          aria-label="Import folder"
+          title="Import folder"
+        >
+          <FolderOpen className="h-3.5 w-3.5" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6 cursor-pointer"
+          onClick={() => zipInputRef.current?.click()}
+          disabled={isImporting}
+          aria-label="Import zip"
+          title="Import zip"
+        >
+          <FileArchive className="h-3.5 w-3.5" />
+        </Button>
+        {project && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 cursor-pointer"
+            onClick={onClose}
+            aria-label="Close project"
+            title="Close project"
+          >
+            <X className="h-3.5 w-3.5" />
+          </Button>
+        )}
+      </div>
+
+      {project && (
+        <div className="flex items-center gap-1.5 border-b border-border px-2 py-1">
+          <Search className="h-3 w-3 shrink-0 text-muted-foreground" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Filter files"
+            className="min-w-0 flex-1 bg-transparent text-xs outline-none"
+            aria-label="Filter project files"
+          />
+        </div>
+      )}
+
+      {error && <p className="px-2 py-1.5 text-xs text-destructive">{error}</p>}
+
+      <ScrollArea className="flex-1">
+        <div className="p-1">
+          {isImporting ? (
+            <div className="flex items-center gap-2 p-2 text-xs text-muted-foreground">
+              <Loader2 className="h-3.5 w-3.5 animate-spin" /> Importing…
+            </div>
+          ) : !project ? (
+            <p className="p-2 text-xs text-muted-foreground">
+              Drop a folder or zip here, or use the buttons above. Files in .gitignore are skipped.
+            </p>
+          ) : matches ? (
+            matches.length ? (
+              matches.map((f) => fileRow(f.path, f.path, 0))
+            ) : (
+              <p className="p-2 text-xs text-muted-foreground">No matching files</p>
+            )
+          ) : (
+            renderNodes(tree, 0)
+          )}
+        </div>
+      </ScrollArea>
+
+      {/* Import summary */}
+      {project && !isImporting && (
+        <div className="border-t border-border px-2 py-1.5 text-[10px] text-muted-foreground">
+          {project.files.length} files
+          {project.ignoredCount > 0 && ` · ${project.ignoredCount} ignored`}
+          {project.skipped.length > 0 && (
+            <>
+              {' · '}
+              <button className="underline cursor-pointer" onClick={() => setShowSkipped(!showSkipped)}>
+                {project.skipped.length} skipped
+              </button>
+            </>
+          )}
+          {showSkipped && (
+            <ul className="mt-1 max-h-32 overflow-y-auto scrollbar-thin">
+              {project.skipped.map((s) => (
+                <li key={s.path} className="truncate" title={s.path}>
+                  <span className="font-mono">{s.path}</span> ({SKIP_REASONS[s.reason]})
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1 +1,2 @@
 export { CodePanel } from './CodePanel';
+export { ProjectBrowser } from './ProjectBrowser';
@@ -1,45 +1,165 @@
 'use client';
 
-import { useState, useCallback, useEffect } from 'react';
-import type { ChatSession, ChatListItem } from '@/types/chat-history';
-import type { Message } from '@/types';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { compareChatListItems, matchesChatListQuery, toChatListItem } from '@/lib/chat-list';
+import type {
+  ChatSession,
+  ChatLabelsResponse,
+  ChatListItem,
+  ChatListQuery,
+  ChatListResponse,
+  CreateChatBody,
+  TrashedChat,
+  UpdateChatBody,
+} from '@/types/chat-history';
+
+const PAGE_SIZE = 50;
 
 interface UseChatHistoryReturn {
+  /** Loaded pages of the chat list */
   chats: ChatListItem[];
+  /** More chats match the list query than are loaded */
+  hasMoreChats: boolean;
+  isLoadingMore: boolean;
+  listQuery: ChatListQuery;
+  /** Change sorting or filters; reloads the list from the first page */
+  setListQuery: (query: ChatListQuery) => void;
+  /** Folders and tags in use, for grouping and filing chats */
+  labels: ChatLabelsResponse;
   activeChat: ChatSession | null;
   activeChatId: string | null;
   isLoading: boolean;
   error: string | null;
   loadChats: () => Promise<void>;
+  loadMoreChats: () => Promise<void>;
   loadChat: (id: string) => Promise<void>;
-  createChat: () => Promise<string | null>;
-  updateChat: (id: string, updates: { title?: string; messages?: Message[] }) => Promise<void>;
-  deleteChat: (id: string) => Promise<void>;
+  createChat: (body?: CreateChatBody) => Promise<string | null>;
+  updateChat: (id: string, updates: UpdateChatBody) => Promise<void>;
+  /** Move a chat to the trash; resolves to the trashed chat, or null on failure */
+  deleteChat: (id: string) => Promise<TrashedChat | null>;
+  /** Take a chat out of the trash; resolves false on failure */
+  restoreChat: (id: string) => Promise<boolean>;
+  /** Title the chat from its first exchange unless it already has a title */
+  generateTitle: (id: string, model?: string) => Promise<void>;
+  /** Update the chat's summary of older turns; resolves false on failure */
+  summarizeChat: (id: string, options?: { model?: string; rebuild?: boolean }) => Promise<boolean>;
   clearActiveChat: () => void;
 }
 
+interface ChatListState {
+  chats: ChatListItem[];
+  nextCursor: string | null;
+}
+
+/** Updates that can change which folders and tags are in use */
+function changesLabels(updates: UpdateChatBody | CreateChatBody): boolean {
+  return updates.tags !== undefined || updates.folder !== undefined || 'archived' in updates;
+}
+
+function buildListUrl(query: ChatListQuery, cursor?: string): string {
+  const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  }
+  if (cursor) params.set('cursor', cursor);
+  return `/api/chats?${params}`;
+}
+
+/**
+ * Put a created or updated chat where the list query sorts it, or drop it
+ * when it no longer matches. Chats that sort past the loaded pages are left
+ * for a later page.
+ */
+function upsertListItem(list: ChatListState, item: ChatListItem, query: ChatListQuery): ChatListState {
+  const chats = list.chats.filter((c) => c.id !== item.id);
+  const last = chats[chats.length - 1];
+  if (
+    !matchesChatListQuery(item, query) ||
+    (list.nextCursor && last && compareChatListItems(item, last, query) > 0)
+  ) {
+    return { ...list, chats };
+  }
+  const index = chats.findIndex((c) => compareChatListItems(item, c, query) < 0);
+  chats.splice(index === -1 ? chats.length : index, 0, item);
+  return { ...list, chats };
+}
+
 export function useChatHistory(): UseChatHistoryReturn {
-  const [chats, setChats] = useState<ChatListItem[]>([]);
+  const [list, setList] = useState<ChatListState>({ chats: [], nextCursor: null });
+  const [listQuery, setListQuery] = useState<ChatListQuery>({});
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [labels, setLabels] = useState<ChatLabelsResponse>({ folders: [], tags: [] });
   const [activeChat, setActiveChat] = useState<ChatSession | null>(null);
   const [activeChatId, setActiveChatId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // Responses for an older list query are ignored
+  const listRequestRef = useRef(0);
 
   const loadChats = useCallback(async () => {
+    const request = ++listRequestRef.current;
     try {
       setError(null);
-      const res = await fetch('/api/chats');
+      const res = await fetch(buildListUrl(listQuery));
       if (!res.ok) throw new Error('Failed to load chats');
-      const data = await res.json();
-      setChats(data.chats ?? []);
+      const data: ChatListResponse = await res.json();
+      if (request !== listRequestRef.current) return;
+      setList({ chats: data.chats ?? [], nextCursor: data.nextCursor ?? null });
     } catch (err) {
+      if (request !== listRequestRef.current) return;
       setError(err instanceof Error ? err.message : 'Failed to load chats');
-      setChats([]);
+      setList({ chats: [], nextCursor: null });
     } finally {
-      setIsLoading(false);
+      if (request === listRequestRef.current) {
+        setIsLoading(false);
+        setIsLoadingMore(false);
+      }
+    }
+  }, [listQuery]);
+
+  const loadMoreChats = useCallback(async () => {
+    if (!list.nextCursor || isLoadingMore) return;
+    const request = listRequestRef.current;
+    setIsLoadingMore(true);
+    try {
+      const res = await fetch(buildListUrl(listQuery, list.nextCursor));
+      if (!res.ok) throw new Error('Failed to load more chats');
+      const data: ChatListResponse = await res.json();
+      if (request !== listRequestRef.current) return;
+      setList((prev) => {
+        const loaded = new Set(prev.chats.map((c) => c.id));
+        return {
+          chats: [...prev.chats, ...(data.chats ?? []).filter((c) => !loaded.has(c.id))],
+          nextCursor: data.nextCursor ?? null,
+        };
+      });
+    } catch (err) {
+      if (request === listRequestRef.current) {
+        setError(err instanceof Error ? err.message : 'Failed to load more chats');
+      }
+    } finally {
+      if (request === listRequestRef.current) setIsLoadingMore(false);
+    }
+  }, [list.nextCursor, isLoadingMore, listQuery]);
+
+  const loadLabels = useCallback(async () => {
+    try {
+      const res = await fetch('/api/chats/labels');
+      if (!res.ok) throw new Error('Failed to load folders and tags');
+      setLabels(await res.json());
+    } catch (err) {
+      // Grouping and filing still work with the names already loaded
+      console.error('Loading chat labels failed:', err);
     }
   }, []);
 
+  const upsertChat = useCallback(
+    (session: ChatSession) => {
+      setList((prev) => upsertListItem(prev, toChatListItem(session), listQuery));
+    },
+    [listQuery]
+  );
+
   const parseMessages = useCallback((raw: ChatSession['messages']) => {
     if (!Array.isArray(raw)) return [];
     return raw.map((m) => ({
@@ -58,6 +178,10 @@ export function useChatHistory(): UseChatHistoryReturn {
         const session: ChatSession = {
           ...data,
           messages: parseMessages(data.messages ?? []),
+          tree: {
+            nodes: parseMessages(data.tree?.nodes ?? []),
+            selected: data.tree?.selected ?? {},
+          },
         };
         setActiveChat(session);
         setActiveChatId(id);
@@ -70,28 +194,29 @@ export function useChatHistory(): UseChatHistoryReturn {
     [parseMessages]
   );
 
-  const createChat = useCallback(async (): Promise<string | null> => {
+  const createChat = useCallback(async (body: CreateChatBody = {}): Promise<string | null> => {
     try {
       setError(null);
       const res = await fetch('/api/chats', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ title: 'New Chat', messages: [] }),
+        body: JSON.stringify({ title: 'New Chat', titleSource: 'placeholder', messages: [], ...body }),
       });
       if (!res.ok) throw new Error('Failed to create chat');
       const session: ChatSession = await res.json();
       setActiveChat(session);
       setActiveChatId(session.id);
-      await loadChats();
+      upsertChat(session);
+      if (changesLabels(body)) loadLabels();
       return session.id;
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to create chat');
       return null;
     }
-  }, [loadChats]);
+  }, [upsertChat, loadLabels]);
 
   const updateChat = useCallback(
-    async (id: string, updates: { title?: string; messages?: Message[] }) => {
+    async (id: string, updates: UpdateChatBody) => {
       try {
         setError(null);
         const res = await fetch(`/api/chats/${id}`, {
@@ -102,30 +227,98 @@ export function useChatHistory(): UseChatHistoryReturn {
         if (!res.ok) throw new Error('Failed to update chat');
         const session: ChatSession = await res.json();
         if (activeChatId === id) setActiveChat(session);
-        await loadChats();
+        upsertChat(session);
+        if (changesLabels(updates)) loadLabels();
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to update chat');
       }
     },
-    [activeChatId, loadChats]
+    [activeChatId, upsertChat, loadLabels]
   );
 
   const deleteChat = useCallback(
-    async (id: string) => {
+    async (id: string): Promise<TrashedChat | null> => {
       try {
         setError(null);
         const res = await fetch(`/api/chats/${id}`, { method: 'DELETE' });
         if (!res.ok) throw new Error('Failed to delete chat');
+        const trashed: TrashedChat = await res.json();
         if (activeChatId === id) {
           setActiveChat(null);
           setActiveChatId(null);
         }
-        await loadChats();
+        setList((prev) => ({ ...prev, chats: prev.chats.filter((c) => c.id !== id) }));
+        loadLabels();
+        return trashed;
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to delete chat');
+        return null;
       }
     },
-    [activeChatId, loadChats]
+    [activeChatId, loadLabels]
+  );
+
+  const restoreChat = useCallback(
+    async (id: string): Promise<boolean> => {
+      try {
+        setError(null);
+        const res = await fetch(`/api/chats/${id}/restore`, { method: 'POST' });
+        if (!res.ok) throw new Error('Failed to restore chat');
+        const session: ChatSession = await res.json();
+        upsertChat(session);
+        loadLabels();
+        return true;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to restore chat');
+        return false;
+      }
+    },
+    [upsertChat, loadLabels]
+  );
+
+  const generateTitle = useCallback(
+    async (id: string, model?: string) => {
+      try {
+        const res = await fetch(`/api/chats/${id}/title`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(model ? { model } : {}),
+        });
+        if (!res.ok) throw new Error('Failed to generate title');
+        const session: ChatSession = await res.json();
+        setActiveChat((current) => (current?.id === id ? { ...current, title: session.title, titleSource: session.titleSource } : current));
+        upsertChat(session);
+      } catch (err) {
+        // The placeholder title stays; nothing for the user to act on
+        console.error('Title generation failed:', err);
+      }
+    },
+    [upsertChat]
+  );
+
+  const summarizeChat = useCallback(
+    async (id: string, options: { model?: string; rebuild?: boolean } = {}): Promise<boolean> => {
+      try {
+        const res = await fetch(`/api/chats/${id}/summary`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(options),
+        });
+        if (!res.ok) {
+          const data = await res.json().catch(() => ({}));
+          throw new Error(data.error || 'Failed to summarize chat');
+        }
+        const session: ChatSession = await res.json();
+        // Summaries take a while; the user may have switched chats meanwhile
+        setActiveChat((current) => (current?.id === id ? session : current));
+        upsertChat(session);
+        return true;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to summarize chat');
+        return false;
+      }
+    },
+    [upsertChat]
   );
 
   const clearActiveChat = useCallback(() => {
@@ -137,17 +330,30 @@ export function useChatHistory(): UseChatHistoryReturn {
     loadChats();
   }, [loadChats]);
 
+  useEffect(() => {
+    loadLabels();
+  }, [loadLabels]);
+
   return {
-    chats,
+    chats: list.chats,
+    hasMoreChats: !!list.nextCursor,
+    isLoadingMore,
+    listQuery,
+    setListQuery,
+    labels,
     activeChat,
     activeChatId,
     isLoading,
     error,
     loadChats,
+    loadMoreChats,
     loadChat,
     createChat,
     updateChat,
     deleteChat,
+    restoreChat,
+    generateTitle,
+    summarizeChat,
     clearActiveChat,
   };
 }
@@ -0,0 +1,57 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { ChatSearchHit, ChatSearchResponse } from '@/types/chat-history';
+
+/** Wait for typing to pause before searching */
+const SEARCH_DELAY_MS = 200;
+
+interface UseChatSearchReturn {
+  query: string;
+  setQuery: (query: string) => void;
+  hits: ChatSearchHit[];
+  isSearching: boolean;
+  error: string | null;
+}
+
+export function useChatSearch(): UseChatSearchReturn {
+  const [query, setQuery] = useState('');
+  const [hits, setHits] = useState<ChatSearchHit[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const q = query.trim();
+    if (!q) {
+      setHits([]);
+      setIsSearching(false);
+      setError(null);
+      return;
+    }
+
+    // Results of an older query must not replace those of a newer one
+    const controller = new AbortController();
+    setIsSearching(true);
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch(`/api/chats/search?q=${encodeURIComponent(q)}`, { signal: controller.signal });
+        if (!res.ok) throw new Error('Search failed');
+        const data: ChatSearchResponse = await res.json();
+        setHits(data.hits ?? []);
+        setError(null);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err.message : 'Search failed');
+        setHits([]);
+      }
+      setIsSearching(false);
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query]);
+
+  return { query, setQuery, hits, isSearching, error };
+}
@@ -0,0 +1,85 @@
+'use client';
+
+import { useState, useCallback, useEffect } from 'react';
+import type { ChatTrashResponse, TrashedChat } from '@/types/chat-history';
+
+interface UseChatTrashOptions {
+  /** Load the trash; it is loaded again each time this turns on */
+  enabled: boolean;
+  /** Restore through the chat history so the chat list picks it up */
+  onRestore: (id: string) => Promise<boolean>;
+}
+
+interface UseChatTrashReturn {
+  chats: TrashedChat[];
+  retentionDays: number | null;
+  isLoading: boolean;
+  error: string | null;
+  restore: (id: string) => Promise<void>;
+  /** Delete one chat for good */
+  purge: (id: string) => Promise<void>;
+  emptyTrash: () => Promise<void>;
+}
+
+export function useChatTrash({ enabled, onRestore }: UseChatTrashOptions): UseChatTrashReturn {
+  const [chats, setChats] = useState<TrashedChat[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const controller = new AbortController();
+    setIsLoading(true);
+    setError(null);
+    (async () => {
+      try {
+        const res = await fetch('/api/chats/trash', { signal: controller.signal });
+        if (!res.ok) throw new Error('Failed to load trash');
+        const data: ChatTrashResponse = await res.json();
+        setChats(data.chats ?? []);
+        setRetentionDays(data.retentionDays);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err.message : 'Failed to load trash');
+      } finally {
+        if (!controller.signal.aborted) setIsLoading(false);
+      }
+    })();
+
+    return () => controller.abort();
+  }, [enabled]);
+
+  const restore = useCallback(
+    async (id: string) => {
+      if (await onRestore(id)) setChats((prev) => prev.filter((c) => c.id !== id));
+    },
+    [onRestore]
+  );
+
+  const purge = useCallback(async (id: string) => {
+    try {
+      setError(null);
+      const res = await fetch(`/api/chats/trash/${id}`, { method: 'DELETE' });
+      // Already gone, e.g. purged on schedule
+      if (!res.ok && res.status !== 404) throw new Error('Failed to delete chat');
+      setChats((prev) => prev.filter((c) => c.id !== id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete chat');
+    }
+  }, []);
+
+  const emptyTrash = useCallback(async () => {
+    try {
+      setError(null);
+      const res = await fetch('/api/chats/trash', { method: 'DELETE' });
+      if (!res.ok) throw new Error('Failed to empty trash');
+      setChats([]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to empty trash');
+    }
+  }, []);
+
+  return { chats, retentionDays, isLoading, error, restore, purge, emptyTrash };
+}
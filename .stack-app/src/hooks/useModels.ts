@@ -0,0 +1,50 @@
+'use client';
+
+import { useState, useCallback, useEffect } from 'react';
+import { DEFAULT_MAX_TOKENS } from '@/lib/ai/context-budget';
+import type { ModelCatalogEntry, ModelsResponse, ProviderStatus } from '@/types/api';
+import type { ModelId } from '@/types/chat';
+
+interface UseModelsReturn {
+  providers: ProviderStatus[];
+  models: ModelCatalogEntry[];
+  defaultModel: ModelId | null;
+  /** Max tokens requested for a reply; see getReservedOutputTokens */
+  maxTokens: number;
+  isLoading: boolean;
+  error: string | null;
+  reload: () => Promise<void>;
+}
+
+export function useModels(): UseModelsReturn {
+  const [providers, setProviders] = useState<ProviderStatus[]>([]);
+  const [models, setModels] = useState<ModelCatalogEntry[]>([]);
+  const [defaultModel, setDefaultModel] = useState<ModelId | null>(null);
+  const [maxTokens, setMaxTokens] = useState(DEFAULT_MAX_TOKENS);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    try {
+      setError(null);
+      const res = await fetch('/api/models');
+      if (!res.ok) throw new Error('Failed to load models');
+      const data: ModelsResponse = await res.json();
+      setProviders(data.providers ?? []);
+      setModels(data.models ?? []);
+      setDefaultModel(data.defaultModel ?? null);
+      setMaxTokens(data.maxTokens ?? DEFAULT_MAX_TOKENS);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load models');
+      setModels([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  return { providers, models, defaultModel, maxTokens, isLoading, error, reload };
+}
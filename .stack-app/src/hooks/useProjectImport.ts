@@ -0,0 +1,43 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import { importProject, type ImportedProject, type ProjectSource } from '@/lib/project-import';
+
+interface UseProjectImportReturn {
+  project: ImportedProject | null;
+  isImporting: boolean;
+  error: string | null;
+  /**
+   * Import a picked or dropped folder or zip, replacing the current project.
+   * Call it from the drop handler itself: dropped items are only readable
+   * during the event.
+   */
+  importFrom: (source: ProjectSource) => Promise<void>;
+  closeProject: () => void;
+}
+
+export function useProjectImport(): UseProjectImportReturn {
+  const [project, setProject] = useState<ImportedProject | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const importFrom = useCallback(async (source: ProjectSource) => {
+    const pending = importProject(source);
+    setIsImporting(true);
+    setError(null);
+    try {
+      setProject(await pending);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import project');
+    } finally {
+      setIsImporting(false);
+    }
+  }, []);
+
+  const closeProject = useCallback(() => {
+    setProject(null);
+    setError(null);
+  }, []);
+
+  return { project, isImporting, error, importFrom, closeProject };
+}
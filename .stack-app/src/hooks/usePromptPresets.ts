@@ -0,0 +1,104 @@
+'use client';
+
+import { useState, useCallback, useEffect } from 'react';
+import type { CreatePresetBody, PromptPreset, UpdatePresetBody } from '@/types/prompts';
+
+interface UsePromptPresetsReturn {
+  presets: PromptPreset[];
+  isLoading: boolean;
+  error: string | null;
+  loadPresets: () => Promise<void>;
+  createPreset: (body: CreatePresetBody) => Promise<PromptPreset | null>;
+  updatePreset: (id: string, updates: UpdatePresetBody) => Promise<PromptPreset | null>;
+  deletePreset: (id: string) => Promise<boolean>;
+}
+
+async function readError(res: Response, fallback: string): Promise<string> {
+  const data = await res.json().catch(() => ({}));
+  return typeof data.error === 'string' ? data.error : fallback;
+}
+
+export function usePromptPresets(): UsePromptPresetsReturn {
+  const [presets, setPresets] = useState<PromptPreset[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPresets = useCallback(async () => {
+    try {
+      setError(null);
+      const res = await fetch('/api/prompts');
+      if (!res.ok) throw new Error('Failed to load prompt presets');
+      const data = await res.json();
+      setPresets(data.presets ?? []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load prompt presets');
+      setPresets([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const createPreset = useCallback(
+    async (body: CreatePresetBody): Promise<PromptPreset | null> => {
+      try {
+        setError(null);
+        const res = await fetch('/api/prompts', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        });
+        if (!res.ok) throw new Error(await readError(res, 'Failed to create preset'));
+        const preset: PromptPreset = await res.json();
+        await loadPresets();
+        return preset;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to create preset');
+        return null;
+      }
+    },
+    [loadPresets]
+  );
+
+  const updatePreset = useCallback(
+    async (id: string, updates: UpdatePresetBody): Promise<PromptPreset | null> => {
+      try {
+        setError(null);
+        const res = await fetch(`/api/prompts/${id}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(updates),
+        });
+        if (!res.ok) throw new Error(await readError(res, 'Failed to update preset'));
+        const preset: PromptPreset = await res.json();
+        await loadPresets();
+        return preset;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to update preset');
+        return null;
+      }
+    },
+    [loadPresets]
+  );
+
+  const deletePreset = useCallback(
+    async (id: string): Promise<boolean> => {
+      try {
+        setError(null);
+        const res = await fetch(`/api/prompts/${id}`, { method: 'DELETE' });
+        if (!res.ok) throw new Error('Failed to delete preset');
+        await loadPresets();
+        return true;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to delete preset');
+        return false;
+      }
+    },
+    [loadPresets]
+  );
+
+  useEffect(() => {
+    loadPresets();
+  }, [loadPresets]);
+
+  return { presets, isLoading, error, loadPresets, createPreset, updatePreset, deletePreset };
+}
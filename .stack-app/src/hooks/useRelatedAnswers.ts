@@ -0,0 +1,53 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { RelatedAnswer } from '@/types/chat-history';
+
+/** Wait for typing to pause; each lookup embeds the draft */
+const LOOKUP_DELAY_MS = 600;
+
+/** Shorter drafts say too little to find related questions */
+const MIN_DRAFT_LENGTH = 15;
+
+/**
+ * Past answers to questions like the one being written, from other chats
+ */
+export function useRelatedAnswers(draft: string, excludeChatId?: string | null): RelatedAnswer[] {
+  const [answers, setAnswers] = useState<RelatedAnswer[]>([]);
+
+  useEffect(() => {
+    const text = draft.trim();
+    if (text.length < MIN_DRAFT_LENGTH) {
+      setAnswers([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch('/api/chats/related', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ text, ...(excludeChatId && { excludeChatId }) }),
+          signal: controller.signal,
+        });
+        if (!res.ok) throw new Error('Failed to find related answers');
+        const data = await res.json();
+        setAnswers(data.answers ?? []);
+      } catch (err) {
+        // Suggestions are optional; keep composing without them
+        if (!controller.signal.aborted) {
+          console.error('Related answers failed:', err);
+          setAnswers([]);
+        }
+      }
+    }, LOOKUP_DELAY_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [draft, excludeChatId]);
+
+  return answers;
+}
@@ -0,0 +1,37 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { SimilarChat } from '@/types/chat-history';
+
+/**
+ * Chats about the same things as `chatId`. Looked up again when the chat
+ * gets new messages (`messageCount`).
+ */
+export function useSimilarChats(chatId: string | null, messageCount: number): SimilarChat[] {
+  const [chats, setChats] = useState<SimilarChat[]>([]);
+
+  // Results of the previous chat must not show while the next one loads
+  useEffect(() => {
+    setChats([]);
+  }, [chatId]);
+
+  useEffect(() => {
+    if (!chatId || messageCount === 0) return;
+
+    const controller = new AbortController();
+    (async () => {
+      try {
+        const res = await fetch(`/api/chats/${chatId}/similar`, { signal: controller.signal });
+        if (!res.ok) throw new Error('Failed to load similar chats');
+        const data = await res.json();
+        setChats(data.chats ?? []);
+      } catch (err) {
+        if (!controller.signal.aborted) console.error('Similar chats failed:', err);
+      }
+    })();
+
+    return () => controller.abort();
+  }, [chatId, messageCount]);
+
+  return chats;
+}
@@ -3,7 +3,10 @@
  */
 
 import Anthropic from '@anthropic-ai/sdk';
-import type { Message } from '@/types/chat';
+import type { MessageStream } from '@anthropic-ai/sdk/lib/MessageStream';
+import { createAnthropicStream, toAnthropicFinishReason } from './stream';
+import type { AIProvider } from './types';
+import type { CompletionResult, Message, ModelId, ModelInfo } from '@/types/chat';
 
 // Lazy initialization to avoid errors when API key is not set
 let anthropicClient: Anthropic | null = null;
@@ -27,11 +30,47 @@ export function isAnthropicConfigured(): boolean {
 }
 
 /**
- * Model mapping from our model IDs to Anthropic model IDs
+ * Claude models, mapping our model IDs to Anthropic model IDs
  */
-const MODEL_MAP = {
-  'claude-3-5-sonnet': 'claude-sonnet-4-20250514',
-} as const;
+export const ANTHROPIC_MODELS: ModelInfo[] = [
+  {
+    id: 'claude-3-5-sonnet',
+    provider: 'anthropic',
+    label: 'Claude Sonnet',
+    upstreamId: 'claude-sonnet-4-20250514',
+    contextWindow: 200000,
+    maxOutputTokens: 64000,
+    vision: true,
+  },
+];
+
+const DEFAULT_MODEL = ANTHROPIC_MODELS[0];
+
+function resolveUpstreamModel(model: ModelId): string {
+  return (ANTHROPIC_MODELS.find((m) => m.id === model) ?? DEFAULT_MODEL).upstreamId;
+}
+
+/**
+ * Convert our messages to Anthropic messages, sending images as image blocks
+ */
+function buildAnthropicMessages(messages: Message[]): Anthropic.MessageParam[] {
+  return messages.map((msg) => {
+    const role = msg.role as 'user' | 'assistant';
+    if (!msg.images?.length) {
+      return { role, content: msg.content };
+    }
+    return {
+      role,
+      content: [
+        ...msg.images.map((image): Anthropic.ImageBlockParam => ({
+          type: 'image',
+          source: { type: 'base64', media_type: image.mimeType, data: image.data },
+        })),
+        { type: 'text', text: msg.content },
+      ],
+    };
+  });
+}
 
 /**
  * Stream a response from Claude
@@ -39,21 +78,23 @@ const MODEL_MAP = {
 export async function streamClaudeResponse(
   messages: Message[],
   systemPrompt: string,
-  maxTokens: number = 4096
-): Promise<AsyncIterable<Anthropic.MessageStreamEvent>> {
+  model: ModelId = DEFAULT_MODEL.id,
+  maxTokens: number = 4096,
+  signal?: AbortSignal
+): Promise<MessageStream> {
   const client = getClient();
 
-  const anthropicMessages = messages.map((msg) => ({
-    role: msg.role as 'user' | 'assistant',
-    content: msg.content,
-  }));
+  const anthropicMessages = buildAnthropicMessages(messages);
 
-  const stream = client.messages.stream({
-    model: MODEL_MAP['claude-3-5-sonnet'],
-    max_tokens: maxTokens,
-    system: systemPrompt,
-    messages: anthropicMessages,
-  });
+  const stream = client.messages.stream(
+    {
+      model: resolveUpstreamModel(model),
+      max_tokens: maxTokens,
+      system: systemPrompt,
+      messages: anthropicMessages,
+    },
+    { signal }
+  );
 
   return stream;
 }
@@ -64,22 +105,49 @@ export async function streamClaudeResponse(
 export async function getClaudeResponse(
   messages: Message[],
   systemPrompt: string,
-  maxTokens: number = 4096
-): Promise<string> {
+  model: ModelId = DEFAULT_MODEL.id,
+  maxTokens: number = 4096,
+  signal?: AbortSignal
+): Promise<CompletionResult> {
   const client = getClient();
 
-  const anthropicMessages = messages.map((msg) => ({
-    role: msg.role as 'user' | 'assistant',
-    content: msg.content,
-  }));
+  const anthropicMessages = buildAnthropicMessages(messages);
 
-  const response = await client.messages.create({
-    model: MODEL_MAP['claude-3-5-sonnet'],
-    max_tokens: maxTokens,
-    system: systemPrompt,
-    messages: anthropicMessages,
-  });
+  const response = await client.messages.create(
+    {
+      model: resolveUpstreamModel(model),
+      max_tokens: maxTokens,
+      system: systemPrompt,
+      messages: anthropicMessages,
+    },
+    { signal }
+  );
 
   const textContent = response.content.find((block) => block.type === 'text');
-  return textContent ? textContent.text : '';
+  return {
+    content: textContent ? textContent.text : '',
+    finishReason: toAnthropicFinishReason(response.stop_reason),
+    usage: {
+      inputTokens: response.usage.input_tokens,
+      outputTokens: response.usage.output_tokens,
+    },
+  };
 }
+
+/**
+ * Anthropic provider registration
+ */
+export const anthropicProvider: AIProvider = {
+  id: 'anthropic',
+  name: 'Anthropic',
+  capabilities: { streaming: true, vision: true },
+  models: ANTHROPIC_MODELS,
+  isConfigured: isAnthropicConfigured,
+  async stream({ messages, systemPrompt, model, maxTokens, signal }) {
+    const stream = await streamClaudeResponse(messages, systemPrompt, model.id, maxTokens, signal);
+    return createAnthropicStream(stream, model);
+  },
+  complete({ messages, systemPrompt, model, maxTokens, signal }) {
+    return getClaudeResponse(messages, systemPrompt, model.id, maxTokens, signal);
+  },
+};
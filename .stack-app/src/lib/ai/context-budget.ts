@@ -0,0 +1,187 @@
+/**
+ * Fit a chat request into the model's context window
+ *
+ * The reply's max tokens are reserved first. If the system prompt (with its
+ * code context) and the messages still do not fit, the oldest turns are
+ * dropped and replaced by a short note of what was asked, then large files
+ * in the code context are cut down, and finally older turns are dropped down
+ * to the latest user message. Used by /api/chat and, for the usage
+ * indicator, by the chat UI.
+ */
+
+import { estimateMessageTokens, estimateTextTokens } from './tokens';
+import type { CodeExcerptOptions } from './prompts';
+import { truncate } from '@/lib/utils';
+import type { CodeContext, Message, ModelInfo } from '@/types/chat';
+
+/** Max tokens for a reply when MAX_TOKENS is not set */
+export const DEFAULT_MAX_TOKENS = 4096;
+
+/** Share of the context window left unused to absorb estimation error */
+const SAFETY_MARGIN = 0.05;
+
+/** Messages kept before the code context is trimmed */
+const MIN_RECENT_MESSAGES = 4;
+
+/** Questions from dropped turns listed in the note that replaces them */
+const MAX_NOTED_QUESTIONS = 8;
+
+export interface ContextUsage {
+  /** Estimated tokens of the system prompt and messages that are sent */
+  inputTokens: number;
+  /** Input tokens allowed: the window minus reserved output and the safety margin */
+  inputLimit: number;
+  contextWindow: number;
+  /** Tokens kept free for the reply */
+  reservedOutputTokens: number;
+  /** Oldest messages left out of the request */
+  droppedMessages: number;
+  /** Whether files in the code context were cut down to excerpts */
+  codeContextTrimmed: boolean;
+  /** False when the latest message with fully trimmed code still does not fit */
+  fits: boolean;
+}
+
+export interface ContextBudgetOptions {
+  messages: Message[];
+  codeContext?: CodeContext[];
+  model: Pick<ModelInfo, 'provider' | 'contextWindow'>;
+  /** Max tokens requested for the reply */
+  reservedOutputTokens: number;
+  /** Builds the system prompt around a (possibly trimmed) code context */
+  buildSystemPrompt: (codeContext: CodeContext[], excerpt: CodeExcerptOptions) => string;
+  excerpt: CodeExcerptOptions;
+}
+
+export interface FittedRequest {
+  messages: Message[];
+  systemPrompt: string;
+  usage: ContextUsage;
+}
+
+interface CodeTrimLevel {
+  codeContext: CodeContext[];
+  excerpt: CodeExcerptOptions;
+}
+
+/**
+ * Keep the first `maxLines` lines of files sent without a selection range;
+ * files with one are excerpted around it by the prompt builder instead
+ */
+function truncateWholeFiles(codeContext: CodeContext[], maxLines: number): CodeContext[] {
+  return codeContext.map((context) => {
+    if (context.startLine !== undefined) return context;
+    const lines = context.fullCode.split('\n');
+    if (lines.length <= maxLines) return context;
+    return {
+      ...context,
+      fullCode: `${lines.slice(0, maxLines).join('\n')}\n… (${lines.length - maxLines} more lines omitted to fit the context window)`,
+    };
+  });
+}
+
+/**
+ * Progressively smaller versions of the code context, starting with the
+ * request as given
+ */
+function codeTrimLevels(codeContext: CodeContext[], excerpt: CodeExcerptOptions): CodeTrimLevel[] {
+  if (codeContext.length === 0) return [{ codeContext, excerpt }];
+  return [
+    { codeContext, excerpt },
+    { codeContext, excerpt: { maxFullLines: 0, windowLines: excerpt.windowLines } },
+    {
+      codeContext: truncateWholeFiles(codeContext, 200),
+      excerpt: { maxFullLines: 0, windowLines: Math.min(excerpt.windowLines, 20) },
+    },
+    {
+      codeContext: truncateWholeFiles(codeContext, 40),
+      excerpt: { maxFullLines: 0, windowLines: Math.min(excerpt.windowLines, 5) },
+    },
+  ];
+}
+
+/**
+ * Stands in for dropped turns so the model knows the conversation is longer
+ * than what it sees
+ */
+function describeDroppedMessages(dropped: Message[]): string {
+  if (dropped.length === 0) return '';
+  const questions = dropped
+    .filter((m) => m.role === 'user' && m.content.trim())
+    .slice(-MAX_NOTED_QUESTIONS)
+    .map((m) => `- ${truncate(m.content.replace(/\s+/g, ' ').trim(), 160)}`);
+  let note = `\n\n## Earlier Conversation\n\n${dropped.length} earlier messages were left out to fit the context window.`;
+  if (questions.length) note += ` Before that, the user asked:\n${questions.join('\n')}`;
+  return note;
+}
+
+/**
+ * The first message index to keep after dropping the oldest turn. Requests
+ * must start with a user message, so a trailing assistant reply goes too.
+ */
+function nextStart(messages: Message[], start: number): number {
+  let next = start + 1;
+  while (next < messages.length - 1 && messages[next].role !== 'user') next++;
+  return next;
+}
+
+/**
+ * Output tokens to reserve for a reply: the configured max, capped by what
+ * the model can generate
+ */
+export function getReservedOutputTokens(model: Pick<ModelInfo, 'maxOutputTokens'>, maxTokens: number): number {
+  return Math.min(maxTokens, model.maxOutputTokens);
+}
+
+export function fitToContextWindow({
+  messages,
+  codeContext = [],
+  model,
+  reservedOutputTokens,
+  buildSystemPrompt,
+  excerpt,
+}: ContextBudgetOptions): FittedRequest {
+  const inputLimit = Math.max(0, Math.floor(model.contextWindow * (1 - SAFETY_MARGIN)) - reservedOutputTokens);
+
+  // Tokens of messages[i..] for every i
+  const suffixTokens = new Array<number>(messages.length + 1).fill(0);
+  for (let i = messages.length - 1; i >= 0; i--) {
+    suffixTokens[i] = suffixTokens[i + 1] + estimateMessageTokens(messages[i], model);
+  }
+
+  const levels = codeTrimLevels(codeContext, excerpt);
+  const prompts = new Map<number, string>();
+  const promptFor = (level: number) => {
+    if (!prompts.has(level)) prompts.set(level, buildSystemPrompt(levels[level].codeContext, levels[level].excerpt));
+    return prompts.get(level)!;
+  };
+  const systemPromptFor = (level: number, start: number) =>
+    promptFor(level) + describeDroppedMessages(messages.slice(0, start));
+  const total = (level: number, start: number) =>
+    estimateTextTokens(systemPromptFor(level, start), model) + suffixTokens[start];
+
+  let level = 0;
+  let start = 0;
+  while (total(level, start) > inputLimit && messages.length - start > MIN_RECENT_MESSAGES) {
+    start = nextStart(messages, start);
+  }
+  while (total(level, start) > inputLimit && level < levels.length - 1) level++;
+  while (total(level, start) > inputLimit && start < messages.length - 1) {
+    start = nextStart(messages, start);
+  }
+
+  const inputTokens = total(level, start);
+  return {
+    messages: messages.slice(start),
+    systemPrompt: systemPromptFor(level, start),
+    usage: {
+      inputTokens,
+      inputLimit,
+      contextWindow: model.contextWindow,
+      reservedOutputTokens,
+      droppedMessages: start,
+      codeContextTrimmed: level > 0,
+      fits: inputTokens <= inputLimit,
+    },
+  };
+}
@@ -0,0 +1,168 @@
+/**
+ * Local OpenAI-compatible provider (Ollama, llama.cpp server, vLLM, ...)
+ *
+ * Configure via LOCAL_AI_BASE_URL, e.g. http://localhost:11434/v1 for Ollama.
+ * Models are discovered from the server's /models endpoint and exposed with
+ * a 'local:' prefix, e.g. 'local:llama3.1:8b'.
+ */
+
+import OpenAI from 'openai';
+import { buildOpenAIMessages, toCompletionResult } from './openai';
+import { createOpenAIStream } from './stream';
+import type { AIProvider } from './types';
+import type { CompletionResult, Message, ModelInfo } from '@/types/chat';
+import { getNumericEnv } from '@/lib/utils';
+
+const MODEL_PREFIX = 'local:';
+
+/** How long a /models listing is reused before querying the server again */
+const DISCOVERY_TTL_MS = 60 * 1000;
+
+/** How long to wait after a failed lookup before trying the server again */
+const DISCOVERY_RETRY_MS = 15 * 1000;
+
+let localClient: OpenAI | null = null;
+let discoveryCache: { models: ModelInfo[]; expiresAt: number } | null = null;
+
+function getClient(): OpenAI {
+  if (!localClient) {
+    const baseURL = process.env.LOCAL_AI_BASE_URL;
+    if (!baseURL) {
+      throw new Error('LOCAL_AI_BASE_URL environment variable is not set');
+    }
+    localClient = new OpenAI({
+      baseURL,
+      // Most local servers ignore the key, but the SDK requires one
+      apiKey: process.env.LOCAL_AI_API_KEY || 'local',
+    });
+  }
+  return localClient;
+}
+
+/**
+ * Check if a local OpenAI-compatible server is configured
+ */
+export function isLocalConfigured(): boolean {
+  return !!process.env.LOCAL_AI_BASE_URL;
+}
+
+function toModelInfo(upstreamId: string): ModelInfo {
+  const contextWindow = getNumericEnv('LOCAL_AI_CONTEXT_WINDOW', 8192);
+  return {
+    id: `${MODEL_PREFIX}${upstreamId}`,
+    provider: 'local',
+    label: `${upstreamId} (local)`,
+    upstreamId,
+    contextWindow,
+    maxOutputTokens: Math.min(getNumericEnv('LOCAL_AI_MAX_OUTPUT', 4096), contextWindow),
+    vision: false,
+  };
+}
+
+/**
+ * Models pinned via LOCAL_AI_MODELS (comma-separated), used when the server
+ * does not implement /models
+ */
+function getConfiguredModels(): ModelInfo[] {
+  return (process.env.LOCAL_AI_MODELS ?? '')
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean)
+    .map(toModelInfo);
+}
+
+/**
+ * List models served by the local server
+ */
+export async function discoverLocalModels(): Promise<ModelInfo[]> {
+  if (discoveryCache && discoveryCache.expiresAt > Date.now()) {
+    return discoveryCache.models;
+  }
+
+  const configured = getConfiguredModels();
+  try {
+    const ids: string[] = [];
+    for await (const model of getClient().models.list()) {
+      ids.push(model.id);
+    }
+    const known = new Set(ids);
+    const models = [
+      ...ids.map(toModelInfo),
+      ...configured.filter((m) => !known.has(m.upstreamId)),
+    ];
+    discoveryCache = { models, expiresAt: Date.now() + DISCOVERY_TTL_MS };
+    return models;
+  } catch (error) {
+    console.error('Local model discovery failed:', error);
+    // Keep serving the last good listing rather than dropping every model,
+    // and do not query a server that is down on every request
+    const models = discoveryCache?.models ?? configured;
+    discoveryCache = { models, expiresAt: Date.now() + DISCOVERY_RETRY_MS };
+    return models;
+  }
+}
+
+/**
+ * Stream a response from the local server
+ */
+export async function streamLocalResponse(
+  messages: Message[],
+  systemPrompt: string,
+  upstreamModel: string,
+  maxTokens: number = 4096,
+  signal?: AbortSignal
+) {
+  return getClient().chat.completions.create(
+    {
+      model: upstreamModel,
+      max_tokens: maxTokens,
+      stream: true,
+      messages: buildOpenAIMessages(messages, systemPrompt),
+    },
+    { signal }
+  );
+}
+
+/**
+ * Get a non-streaming response from the local server
+ */
+export async function getLocalResponse(
+  messages: Message[],
+  systemPrompt: string,
+  upstreamModel: string,
+  maxTokens: number = 4096,
+  signal?: AbortSignal
+): Promise<CompletionResult> {
+  const response = await getClient().chat.completions.create(
+    {
+      model: upstreamModel,
+      max_tokens: maxTokens,
+      stream: false,
+      messages: buildOpenAIMessages(messages, systemPrompt),
+    },
+    { signal }
+  );
+
+  return toCompletionResult(response);
+}
+
+/**
+ * Local provider registration
+ */
+export const localProvider: AIProvider = {
+  id: 'local',
+  name: 'Local (OpenAI-compatible)',
+  capabilities: { streaming: true, vision: false },
+  models: [],
+  modelPrefix: MODEL_PREFIX,
+  discoverModels: discoverLocalModels,
+  isConfigured: isLocalConfigured,
+  optional: true,
+  async stream({ messages, systemPrompt, model, maxTokens, signal }) {
+    const stream = await streamLocalResponse(messages, systemPrompt, model.upstreamId, maxTokens, signal);
+    return createOpenAIStream(stream, model);
+  },
+  complete({ messages, systemPrompt, model, maxTokens, signal }) {
+    return getLocalResponse(messages, systemPrompt, model.upstreamId, maxTokens, signal);
+  },
+};
@@ -3,7 +3,9 @@
  */
 
 import OpenAI from 'openai';
-import type { Message, ModelId } from '@/types/chat';
+import { createOpenAIStream, toOpenAIFinishReason } from './stream';
+import type { AIProvider } from './types';
+import type { CompletionResult, Message, ModelId, ModelInfo } from '@/types/chat';
 import type { Stream } from 'openai/streaming';
 import type { ChatCompletionChunk } from 'openai/resources/chat/completions';
 
@@ -29,12 +31,82 @@ export function isOpenAIConfigured(): boolean {
 }
 
 /**
- * Model mapping from our model IDs to OpenAI model IDs
+ * GPT models, mapping our model IDs to OpenAI model IDs
  */
-const MODEL_MAP: Record<string, string> = {
-  'gpt-4o': 'gpt-4o',
-  'gpt-4o-mini': 'gpt-4o-mini',
-};
+export const OPENAI_MODELS: ModelInfo[] = [
+  {
+    id: 'gpt-4o',
+    provider: 'openai',
+    label: 'GPT-4o',
+    upstreamId: 'gpt-4o',
+    contextWindow: 128000,
+    maxOutputTokens: 16384,
+    vision: true,
+  },
+  {
+    id: 'gpt-4o-mini',
+    provider: 'openai',
+    label: 'GPT-4o mini',
+    upstreamId: 'gpt-4o-mini',
+    contextWindow: 128000,
+    maxOutputTokens: 16384,
+    vision: true,
+  },
+];
+
+const DEFAULT_MODEL = OPENAI_MODELS[0];
+
+function resolveUpstreamModel(model: ModelId): string {
+  return (OPENAI_MODELS.find((m) => m.id === model) ?? DEFAULT_MODEL).upstreamId;
+}
+
+/**
+ * Convert our messages to OpenAI chat messages, prefixed with the system prompt.
+ * Images on user messages are sent as data URL image parts.
+ */
+export function buildOpenAIMessages(
+  messages: Message[],
+  systemPrompt: string
+): OpenAI.Chat.ChatCompletionMessageParam[] {
+  return [
+    { role: 'system', content: systemPrompt },
+    ...messages.map((msg): OpenAI.Chat.ChatCompletionMessageParam => {
+      if (msg.role === 'user' && msg.images?.length) {
+        return {
+          role: 'user',
+          content: [
+            { type: 'text', text: msg.content },
+            ...msg.images.map((image): OpenAI.Chat.ChatCompletionContentPartImage => ({
+              type: 'image_url',
+              image_url: { url: `data:${image.mimeType};base64,${image.data}` },
+            })),
+          ],
+        };
+      }
+      return {
+        role: msg.role as 'user' | 'assistant',
+        content: msg.content,
+      };
+    }),
+  ];
+}
+
+/**
+ * Convert a chat completion to our completion result
+ */
+export function toCompletionResult(response: OpenAI.Chat.ChatCompletion): CompletionResult {
+  const choice = response.choices[0];
+  return {
+    content: choice?.message?.content || '',
+    finishReason: toOpenAIFinishReason(choice?.finish_reason ?? null),
+    ...(response.usage && {
+      usage: {
+        inputTokens: response.usage.prompt_tokens,
+        outputTokens: response.usage.completion_tokens,
+      },
+    }),
+  };
+}
 
 /**
  * Stream a response from OpenAI
@@ -42,25 +114,24 @@ const MODEL_MAP: Record<string, string> = {
 export async function streamOpenAIResponse(
   messages: Message[],
   systemPrompt: string,
-  model: ModelId = 'gpt-4o',
-  maxTokens: number = 4096
+  model: ModelId = DEFAULT_MODEL.id,
+  maxTokens: number = 4096,
+  signal?: AbortSignal
 ): Promise<Stream<ChatCompletionChunk>> {
   const client = getClient();
 
-  const openaiMessages: OpenAI.Chat.ChatCompletionMessageParam[] = [
-    { role: 'system', content: systemPrompt },
-    ...messages.map((msg) => ({
-      role: msg.role as 'user' | 'assistant',
-      content: msg.content,
-    })),
-  ];
+  const openaiMessages = buildOpenAIMessages(messages, systemPrompt);
 
-  const stream = await client.chat.completions.create({
-    model: MODEL_MAP[model] || 'gpt-4o',
-    max_tokens: maxTokens,
-    stream: true,
-    messages: openaiMessages,
-  });
+  const stream = await client.chat.completions.create(
+    {
+      model: resolveUpstreamModel(model),
+      max_tokens: maxTokens,
+      stream: true,
+      stream_options: { include_usage: true },
+      messages: openaiMessages,
+    },
+    { signal }
+  );
 
   return stream;
 }
@@ -71,25 +142,41 @@ export async function streamOpenAIResponse(
 export async function getOpenAIResponse(
   messages: Message[],
   systemPrompt: string,
-  model: ModelId = 'gpt-4o',
-  maxTokens: number = 4096
-): Promise<string> {
+  model: ModelId = DEFAULT_MODEL.id,
+  maxTokens: number = 4096,
+  signal?: AbortSignal
+): Promise<CompletionResult> {
   const client = getClient();
 
-  const openaiMessages: OpenAI.Chat.ChatCompletionMessageParam[] = [
-    { role: 'system', content: systemPrompt },
-    ...messages.map((msg) => ({
-      role: msg.role as 'user' | 'assistant',
-      content: msg.content,
-    })),
-  ];
+  const openaiMessages = buildOpenAIMessages(messages, systemPrompt);
 
-  const response = await client.chat.completions.create({
-    model: MODEL_MAP[model] || 'gpt-4o',
-    max_tokens: maxTokens,
-    stream: false,
-    messages: openaiMessages,
-  });
+  const response = await client.chat.completions.create(
+    {
+      model: resolveUpstreamModel(model),
+      max_tokens: maxTokens,
+      stream: false,
+      messages: openaiMessages,
+    },
+    { signal }
+  );
 
-  return response.choices[0]?.message?.content || '';
+  return toCompletionResult(response);
 }
+
+/**
+ * OpenAI provider registration
+ */
+export const openaiProvider: AIProvider = {
+  id: 'openai',
+  name: 'OpenAI',
+  capabilities: { streaming: true, vision: true },
+  models: OPENAI_MODELS,
+  isConfigured: isOpenAIConfigured,
+  async stream({ messages, systemPrompt, model, maxTokens, signal }) {
+    const stream = await streamOpenAIResponse(messages, systemPrompt, model.id, maxTokens, signal);
+    return createOpenAIStream(stream, model);
+  },
+  complete({ messages, systemPrompt, model, maxTokens, signal }) {
+    return getOpenAIResponse(messages, systemPrompt, model.id, maxTokens, signal);
+  },
+};
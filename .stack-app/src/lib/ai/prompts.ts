@@ -2,7 +2,8 @@
  * Coding-focused system prompts with code context support
  */
 
-import type { CodeContext } from '@/types/chat';
+import { getTemplateValues, renderPromptTemplate } from '@/lib/prompt-template';
+import type { ChatMode, CodeContext } from '@/types/chat';
 
 /**
  * Base system prompt for coding assistance
@@ -33,101 +34,282 @@ const BASE_CODING_PROMPT = `You are an expert coding assistant with deep knowled
 - Provide the fix with before/after comparison when helpful`;
 
 /**
- * Build a complete system prompt with optional code context
+ * How much of a large file to include around the selection
  */
-export function buildCodingPrompt(codeContext?: CodeContext): string {
-  let prompt = BASE_CODING_PROMPT;
+export interface CodeExcerptOptions {
+  /** Files up to this many lines are sent whole */
+  maxFullLines: number;
+  /** Lines of surrounding code kept on each side of the selection */
+  windowLines: number;
+}
 
-  if (codeContext) {
-    prompt += '\n\n## Current Code Context\n\n';
-    prompt += `The user is referencing code in their project.\n\n`;
+export const DEFAULT_EXCERPT_OPTIONS: CodeExcerptOptions = {
+  maxFullLines: 400,
+  windowLines: 60,
+};
 
-    if (codeContext.filename) {
-      prompt += `**File**: \`${codeContext.filename}\`\n`;
-    }
+export interface PromptOptions extends CodeExcerptOptions {
+  /**
+   * Replaces the built-in base prompt, e.g. a user's prompt preset; template
+   * variables in it are filled in from the code context
+   */
+  basePrompt?: string;
+  /** Summary of earlier messages that are not sent as written */
+  conversationSummary?: string;
+}
 
-    prompt += `**Language**: ${codeContext.language}\n\n`;
-    prompt += `**Full Code**:\n\`\`\`${codeContext.language}\n${codeContext.fullCode}\n\`\`\`\n`;
+/**
+ * The base prompt (built-in or preset) with template variables rendered,
+ * followed by the summary of earlier messages if there is one
+ */
+function renderBasePrompt(codeContexts: CodeContext[], options: PromptOptions): string {
+  const base = options.basePrompt === undefined
+    ? BASE_CODING_PROMPT
+    : renderPromptTemplate(options.basePrompt, getTemplateValues(codeContexts)).trim();
+  if (!options.conversationSummary) return base;
+  return (
+    `${base}\n\n## Earlier in This Conversation\n\n` +
+    `The first messages of this conversation are not shown; this is a summary of them:\n\n` +
+    options.conversationSummary.trim()
+  );
+}
 
-    if (codeContext.selectedPortion) {
-      prompt += `\n**Selected/Highlighted Portion**:\n`;
-      prompt += `The user specifically highlighted this section for attention:\n`;
-      prompt += `\`\`\`${codeContext.language}\n${codeContext.selectedPortion}\n\`\`\`\n`;
-      prompt += `\nFocus your response on this highlighted portion while considering the full code context.`;
-    }
+/**
+ * Prefix each line with its 1-based number, e.g. `  12 | return x;`
+ */
+function numberLines(lines: string[], firstLine: number): string {
+  const width = String(firstLine + lines.length - 1).length;
+  return lines.map((line, i) => `${String(firstLine + i).padStart(width)} | ${line}`).join('\n');
+}
+
+/**
+ * The file as sent to the model: whole when small, otherwise a window
+ * around the selected lines
+ */
+function formatCodeForPrompt(codeContext: CodeContext, options: CodeExcerptOptions): string {
+  const lines = codeContext.fullCode.split('\n');
+  const { startLine, endLine } = codeContext;
+
+  if (startLine === undefined || endLine === undefined) {
+    return `**Full Code**:\n\`\`\`${codeContext.language}\n${codeContext.fullCode}\n\`\`\`\n`;
   }
 
-  return prompt;
+  if (lines.length <= options.maxFullLines) {
+    return (
+      `**Full Code** (line numbers are for reference only):\n` +
+      `\`\`\`${codeContext.language}\n${numberLines(lines, 1)}\n\`\`\`\n`
+    );
+  }
+
+  const from = Math.max(1, startLine - options.windowLines);
+  const to = Math.min(lines.length, endLine + options.windowLines);
+  return (
+    `**Excerpt** (lines ${from}-${to} of ${lines.length}; the rest of the file is omitted, line numbers are for reference only):\n` +
+    `\`\`\`${codeContext.language}\n${numberLines(lines.slice(from - 1, to), from)}\n\`\`\`\n`
+  );
 }
 
 /**
- * Build a prompt specifically for code explanation
+ * One file of the code context: name, language, code and any selection
+ */
+function formatFileContext(codeContext: CodeContext, options: CodeExcerptOptions): string {
+  let section = '';
+
+  if (codeContext.filename) {
+    section += `**File**: \`${codeContext.filename}\`\n`;
+  }
+
+  section += `**Language**: ${codeContext.language}\n\n`;
+  section += formatCodeForPrompt(codeContext, options);
+
+  if (codeContext.selectedPortion) {
+    const location = codeContext.startLine !== undefined
+      ? ` (lines ${codeContext.startLine}-${codeContext.endLine})`
+      : '';
+    section += `\n**Selected/Highlighted Portion**${location}:\n`;
+    section += `The user specifically highlighted this section for attention:\n`;
+    section += `\`\`\`${codeContext.language}\n${codeContext.selectedPortion}\n\`\`\`\n`;
+    section += `\nFocus your response on this highlighted portion while considering the full code context.\n`;
+  }
+
+  return section;
+}
+
+/**
+ * The "Current Code Context" section. Several files are numbered and labeled
+ * with their names so replies can refer to them.
  */
-export function buildExplanationPrompt(codeContext: CodeContext): string {
-  return `${BASE_CODING_PROMPT}
+function formatCodeContextSection(codeContexts: CodeContext[], options: CodeExcerptOptions): string {
+  if (codeContexts.length === 0) return '';
 
-## Task: Code Explanation
+  let section = '\n\n## Current Code Context\n\n';
+  if (codeContexts.length === 1) {
+    section += `The user is referencing code in their project.\n\n`;
+    return section + formatFileContext(codeContexts[0], options);
+  }
+
+  section += `The user is referencing ${codeContexts.length} files from their project. `;
+  section += `Refer to each file by its name when discussing it.\n`;
+  codeContexts.forEach((codeContext, i) => {
+    const label = codeContext.filename ? `\`${codeContext.filename}\`` : codeContext.language;
+    section += `\n### File ${i + 1} of ${codeContexts.length}: ${label}\n\n`;
+    section += formatFileContext(codeContext, options);
+  });
+  return section;
+}
+
+/**
+ * Build a complete system prompt with optional code context
+ */
+export function buildCodingPrompt(
+  codeContexts: CodeContext[] = [],
+  options: PromptOptions = DEFAULT_EXCERPT_OPTIONS
+): string {
+  return (renderBasePrompt(codeContexts, options) + formatCodeContextSection(codeContexts, options)).trimEnd();
+}
 
-The user wants you to explain the following code. Provide a clear, educational explanation covering:
+/**
+ * System prompt for a focused task on the code in context (or, without
+ * context, on code the user includes in their message)
+ */
+function buildTaskPrompt(task: string, codeContexts: CodeContext[], options: PromptOptions): string {
+  const base = renderBasePrompt(codeContexts, options);
+  return `${base}\n\n${task}${formatCodeContextSection(codeContexts, options)}`.trimEnd();
+}
+
+/**
+ * Build a prompt specifically for code explanation
+ */
+export function buildExplanationPrompt(
+  codeContexts: CodeContext[] = [],
+  options: PromptOptions = DEFAULT_EXCERPT_OPTIONS
+): string {
+  return buildTaskPrompt(
+    `## Task: Code Explanation
+
+The user wants you to explain their code. Provide a clear, educational explanation covering:
 - What the code does (high-level purpose)
 - How it works (step-by-step breakdown)
 - Key concepts or patterns used
-- Any potential issues or improvements
-
-**File**: ${codeContext.filename || 'Unknown'}
-**Language**: ${codeContext.language}
-
-\`\`\`${codeContext.language}
-${codeContext.fullCode}
-\`\`\``;
+- Any potential issues or improvements`,
+    codeContexts,
+    options
+  );
 }
 
 /**
  * Build a prompt specifically for code review
  */
-export function buildReviewPrompt(codeContext: CodeContext): string {
-  return `${BASE_CODING_PROMPT}
-
-## Task: Code Review
+export function buildReviewPrompt(
+  codeContexts: CodeContext[] = [],
+  options: PromptOptions = DEFAULT_EXCERPT_OPTIONS
+): string {
+  return buildTaskPrompt(
+    `## Task: Code Review
 
-Perform a thorough code review of the following code. Consider:
+Perform a thorough code review of the user's code. Consider:
 - **Correctness**: Does the code work as intended?
 - **Performance**: Are there any performance issues or optimizations?
 - **Security**: Are there any security vulnerabilities?
 - **Maintainability**: Is the code readable and well-structured?
 - **Best Practices**: Does it follow language/framework conventions?
 
-Provide specific, actionable feedback with code examples for improvements.
-
-**File**: ${codeContext.filename || 'Unknown'}
-**Language**: ${codeContext.language}
-
-\`\`\`${codeContext.language}
-${codeContext.fullCode}
-\`\`\``;
+Provide specific, actionable feedback with code examples for improvements.`,
+    codeContexts,
+    options
+  );
 }
 
 /**
  * Build a prompt for refactoring suggestions
  */
-export function buildRefactorPrompt(codeContext: CodeContext): string {
-  return `${BASE_CODING_PROMPT}
+export function buildRefactorPrompt(
+  codeContexts: CodeContext[] = [],
+  options: PromptOptions = DEFAULT_EXCERPT_OPTIONS
+): string {
+  return buildTaskPrompt(
+    `## Task: Code Refactoring
 
-## Task: Code Refactoring
-
-Analyze the following code and suggest refactoring improvements. Focus on:
+Analyze the user's code and suggest refactoring improvements. Focus on:
 - Reducing complexity and improving readability
 - Applying appropriate design patterns
 - Improving modularity and reusability
 - Enhancing testability
 - Following SOLID principles where applicable
 
-Provide the refactored code with explanations for each change.
+Provide the refactored code with explanations for each change.`,
+    codeContexts,
+    options
+  );
+}
 
-**File**: ${codeContext.filename || 'Unknown'}
-**Language**: ${codeContext.language}
+/**
+ * Build a prompt for writing tests
+ */
+export function buildTestPrompt(
+  codeContexts: CodeContext[] = [],
+  options: PromptOptions = DEFAULT_EXCERPT_OPTIONS
+): string {
+  return buildTaskPrompt(
+    `## Task: Write Tests
 
-\`\`\`${codeContext.language}
-${codeContext.fullCode}
-\`\`\``;
+Write tests for the user's code. Cover:
+- The main behavior and expected outputs
+- Edge cases and boundary values
+- Error paths and invalid input
+
+Use the test framework and conventions the code already suggests (or the most common one for the language), and mock external dependencies. Provide complete, runnable test files.`,
+    codeContexts,
+    options
+  );
+}
+
+/**
+ * Build a prompt for hunting down bugs
+ */
+export function buildBugFindingPrompt(
+  codeContexts: CodeContext[] = [],
+  options: PromptOptions = DEFAULT_EXCERPT_OPTIONS
+): string {
+  return buildTaskPrompt(
+    `## Task: Find Bugs
+
+Look for bugs in the user's code, such as:
+- Logic errors and off-by-one mistakes
+- Unhandled errors, null/undefined access and missing edge cases
+- Race conditions and resource leaks
+- Incorrect API or library usage
+
+List each bug with its location, why it is wrong and a fix, most severe first. Say so if you find none rather than inventing issues.`,
+    codeContexts,
+    options
+  );
+}
+
+type PromptBuilder = (codeContexts?: CodeContext[], options?: PromptOptions) => string;
+
+/**
+ * System prompt builder per chat mode. Add a mode to `ChatMode` and register
+ * its builder here to make it available to /api/chat.
+ */
+const MODE_PROMPTS: Record<ChatMode, PromptBuilder> = {
+  chat: buildCodingPrompt,
+  explain: buildExplanationPrompt,
+  review: buildReviewPrompt,
+  refactor: buildRefactorPrompt,
+  'write-tests': buildTestPrompt,
+  'find-bugs': buildBugFindingPrompt,
+};
+
+export const CHAT_MODES = Object.keys(MODE_PROMPTS) as ChatMode[];
+
+/**
+ * Build the system prompt for a chat mode
+ */
+export function buildPromptForMode(
+  mode: ChatMode,
+  codeContexts: CodeContext[] = [],
+  options: PromptOptions = DEFAULT_EXCERPT_OPTIONS
+): string {
+  return MODE_PROMPTS[mode](codeContexts, options);
 }
@@ -0,0 +1,115 @@
+/**
+ * AI provider registry
+ *
+ * Routes resolve models and providers here instead of branching on
+ * provider names. To add a backend, implement AIProvider and register it.
+ */
+
+import { anthropicProvider } from './anthropic';
+import { openaiProvider } from './openai';
+import { localProvider } from './local';
+import type { AIProvider } from './types';
+import type { ModelId, ModelInfo, ProviderId } from '@/types/chat';
+
+const providers = new Map<ProviderId, AIProvider>();
+
+/**
+ * Register a provider. Model IDs must be unique across providers.
+ */
+export function registerProvider(provider: AIProvider): void {
+  for (const model of provider.models) {
+    const owner = findProviderForModel(model.id);
+    if (owner && owner.id !== provider.id) {
+      throw new Error(`Model ${model.id} is already registered by ${owner.id}`);
+    }
+  }
+  providers.set(provider.id, provider);
+}
+
+function findProviderForModel(model: ModelId): AIProvider | undefined {
+  const all = Array.from(providers.values());
+  return (
+    all.find((p) => p.models.some((m) => m.id === model)) ??
+    all.find((p) => p.modelPrefix && model.startsWith(p.modelPrefix))
+  );
+}
+
+/**
+ * All registered providers, in registration order
+ */
+export function listProviders(): AIProvider[] {
+  return Array.from(providers.values());
+}
+
+export function getProvider(id: ProviderId): AIProvider | undefined {
+  return providers.get(id);
+}
+
+/**
+ * Statically declared models across registered providers
+ */
+export function listModels(): ModelInfo[] {
+  return listProviders().flatMap((p) => p.models);
+}
+
+async function listProviderModels(provider: AIProvider): Promise<ModelInfo[]> {
+  if (!provider.discoverModels || !provider.isConfigured()) return provider.models;
+  const discovered = await provider.discoverModels();
+  const known = new Set(discovered.map((m) => m.id));
+  return [...provider.models.filter((m) => !known.has(m.id)), ...discovered];
+}
+
+/**
+ * All models across registered providers, including ones found by discovery
+ */
+export async function listAvailableModels(): Promise<ModelInfo[]> {
+  const perProvider = await Promise.all(listProviders().map(listProviderModels));
+  return perProvider.flat();
+}
+
+/**
+ * Look up a statically declared model by our model ID
+ */
+export function getModel(model: ModelId): ModelInfo | undefined {
+  return listModels().find((m) => m.id === model);
+}
+
+/**
+ * Look up a model by our model ID, querying its provider if it was not
+ * declared statically
+ */
+export async function resolveModel(model: ModelId): Promise<ModelInfo | undefined> {
+  const declared = getModel(model);
+  if (declared) return declared;
+  const provider = findProviderForModel(model);
+  if (!provider) return undefined;
+  const models = await listProviderModels(provider);
+  return models.find((m) => m.id === model);
+}
+
+/**
+ * Get the provider that serves a model
+ */
+export function getProviderForModel(model: ModelId): AIProvider | undefined {
+  return findProviderForModel(model);
+}
+
+/**
+ * Whether a model ID is declared or claimed by a provider's model prefix
+ */
+export function isSupportedModel(model: ModelId): boolean {
+  return !!findProviderForModel(model);
+}
+
+/**
+ * The first of the given model IDs whose provider is configured, e.g. for
+ * background tasks that prefer a cheap model but can use the chat's own
+ */
+export function findConfiguredModel(candidates: (ModelId | undefined)[]): ModelId | undefined {
+  return candidates.find((m): m is ModelId => !!m && !!findProviderForModel(m)?.isConfigured());
+}
+
+// Built-in providers
+registerProvider(anthropicProvider);
+registerProvider(openaiProvider);
+registerProvider(localProvider);
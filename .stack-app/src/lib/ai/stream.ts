@@ -1,100 +1,171 @@
 /**
  * Unified streaming handler for AI providers
+ *
+ * Provider streams are translated into the versioned StreamEvent schema
+ * (see types/chat) and encoded as SSE `data:` lines.
  */
 
 import type Anthropic from '@anthropic-ai/sdk';
+import type { MessageStream } from '@anthropic-ai/sdk/lib/MessageStream';
 import type { Stream } from 'openai/streaming';
 import type { ChatCompletionChunk } from 'openai/resources/chat/completions';
+import { handleError } from '@/lib/errors';
+import type { FinishReason, ModelInfo, StreamEvent, StreamProtocolVersion, TokenUsage } from '@/types/chat';
 
-export type AIProvider = 'anthropic' | 'openai';
+export const STREAM_PROTOCOL_VERSION: StreamProtocolVersion = 1;
 
-/**
- * Extract text content from Anthropic stream chunk
- */
-function extractAnthropicText(event: Anthropic.MessageStreamEvent): string | null {
-  if (event.type === 'content_block_delta') {
-    const delta = event.delta;
-    if ('text' in delta) {
-      return delta.text;
-    }
-  }
-  return null;
-}
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+/** A StreamEvent before the protocol version is stamped on */
+type EventPayload = DistributiveOmit<StreamEvent, 'v'>;
+
+type Emit = (event: EventPayload) => void;
 
 /**
- * Extract text content from OpenAI stream chunk
+ * Encode one event as an SSE frame
  */
-function extractOpenAIText(chunk: ChatCompletionChunk): string | null {
-  const delta = chunk.choices[0]?.delta;
-  return delta?.content || null;
+export function encodeStreamEvent(event: EventPayload): string {
+  return `data: ${JSON.stringify({ v: STREAM_PROTOCOL_VERSION, ...event })}\n\n`;
 }
 
 /**
- * Create a ReadableStream from an Anthropic message stream
+ * Build an SSE stream around a provider-specific producer. The producer
+ * emits start/delta/usage events and returns the finish reason; failures
+ * are reported as an `error` event followed by `finish` with reason 'error'.
+ * When the client goes away the stream is cancelled and `abort` stops the
+ * upstream request so it no longer consumes tokens.
  */
-export function createAnthropicStream(
-  stream: AsyncIterable<Anthropic.MessageStreamEvent>
+function createEventStream(
+  model: ModelInfo,
+  produce: (emit: Emit) => Promise<FinishReason>,
+  abort: () => void
 ): ReadableStream<Uint8Array> {
   const encoder = new TextEncoder();
+  let cancelled = false;
 
   return new ReadableStream({
     async start(controller) {
+      const emit: Emit = (event) => {
+        if (!cancelled) controller.enqueue(encoder.encode(encodeStreamEvent(event)));
+      };
+
+      emit({ type: 'start', model: model.id, provider: model.provider });
       try {
-        for await (const event of stream) {
-          const text = extractAnthropicText(event);
-          if (text) {
-            const data = JSON.stringify({ text });
-            controller.enqueue(encoder.encode(`data: ${data}\n\n`));
-          }
-        }
-        controller.enqueue(encoder.encode('data: [DONE]\n\n'));
-        controller.close();
+        const reason = await produce(emit);
+        emit({ type: 'finish', reason });
       } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Stream error';
-        controller.enqueue(
-          encoder.encode(`data: ${JSON.stringify({ error: errorMessage })}\n\n`)
-        );
-        controller.close();
+        const apiError = handleError(error);
+        emit({ type: 'error', error: apiError.message, code: apiError.code });
+        emit({ type: 'finish', reason: 'error' });
       }
+      if (!cancelled) controller.close();
+    },
+    cancel() {
+      cancelled = true;
+      abort();
     },
   });
 }
 
 /**
- * Create a ReadableStream from an OpenAI chat completion stream
+ * Map an Anthropic stop reason to our finish reason
  */
-export function createOpenAIStream(
-  stream: Stream<ChatCompletionChunk>
+export function toAnthropicFinishReason(reason: Anthropic.StopReason | null): FinishReason {
+  switch (reason) {
+    case 'max_tokens':
+      return 'length';
+    case 'refusal':
+      return 'content_filter';
+    case 'tool_use':
+      return 'tool_use';
+    default:
+      return 'stop';
+  }
+}
+
+/**
+ * Map an OpenAI finish reason to our finish reason
+ */
+export function toOpenAIFinishReason(reason: ChatCompletionChunk.Choice['finish_reason']): FinishReason {
+  switch (reason) {
+    case 'length':
+      return 'length';
+    case 'content_filter':
+      return 'content_filter';
+    case 'tool_calls':
+    case 'function_call':
+      return 'tool_use';
+    default:
+      return 'stop';
+  }
+}
+
+/**
+ * Create a ReadableStream from an Anthropic message stream
+ */
+export function createAnthropicStream(
+  stream: MessageStream,
+  model: ModelInfo
 ): ReadableStream<Uint8Array> {
-  const encoder = new TextEncoder();
+  return createEventStream(model, async (emit) => {
+    const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+    let stopReason: Anthropic.StopReason | null = null;
 
-  return new ReadableStream({
-    async start(controller) {
-      try {
-        for await (const chunk of stream) {
-          const text = extractOpenAIText(chunk);
-          if (text) {
-            const data = JSON.stringify({ text });
-            controller.enqueue(encoder.encode(`data: ${data}\n\n`));
+    for await (const event of stream) {
+      switch (event.type) {
+        case 'message_start':
+          usage.inputTokens = event.message.usage.input_tokens;
+          usage.outputTokens = event.message.usage.output_tokens;
+          break;
+        case 'content_block_delta':
+          if (event.delta.type === 'text_delta' && event.delta.text) {
+            emit({ type: 'delta', text: event.delta.text });
           }
+          break;
+        case 'message_delta':
+          stopReason = event.delta.stop_reason ?? stopReason;
+          usage.outputTokens = event.usage.output_tokens;
+          break;
+      }
+    }
 
-          // Check for finish reason
-          const finishReason = chunk.choices[0]?.finish_reason;
-          if (finishReason === 'stop' || finishReason === 'length') {
-            break;
-          }
-        }
-        controller.enqueue(encoder.encode('data: [DONE]\n\n'));
-        controller.close();
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Stream error';
-        controller.enqueue(
-          encoder.encode(`data: ${JSON.stringify({ error: errorMessage })}\n\n`)
-        );
-        controller.close();
+    emit({ type: 'usage', usage });
+    return toAnthropicFinishReason(stopReason);
+  }, () => stream.abort());
+}
+
+/**
+ * Create a ReadableStream from an OpenAI-compatible chat completion stream
+ */
+export function createOpenAIStream(
+  stream: Stream<ChatCompletionChunk>,
+  model: ModelInfo
+): ReadableStream<Uint8Array> {
+  return createEventStream(model, async (emit) => {
+    let finishReason: ChatCompletionChunk.Choice['finish_reason'] = null;
+
+    // Keep reading after finish_reason: the usage chunk arrives last
+    for await (const chunk of stream) {
+      const choice = chunk.choices[0];
+      if (choice?.delta?.content) {
+        emit({ type: 'delta', text: choice.delta.content });
       }
-    },
-  });
+      if (choice?.finish_reason) {
+        finishReason = choice.finish_reason;
+      }
+      if (chunk.usage) {
+        emit({
+          type: 'usage',
+          usage: {
+            inputTokens: chunk.usage.prompt_tokens,
+            outputTokens: chunk.usage.completion_tokens,
+          },
+        });
+      }
+    }
+
+    return toOpenAIFinishReason(finishReason);
+  }, () => stream.controller.abort());
 }
 
 /**
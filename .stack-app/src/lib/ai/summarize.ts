@@ -0,0 +1,105 @@
+/**
+ * Conversation summarizer
+ *
+ * Condenses older turns of a chat into a running summary. Histories too
+ * long for the summarizing model are folded in chunks: each chunk updates
+ * the summary produced from the ones before it.
+ */
+
+import { estimateTextTokens } from './tokens';
+import type { AIProvider } from './types';
+import type { Message } from '@/types';
+import type { ModelInfo } from '@/types/chat';
+
+/** Max tokens for a generated summary */
+export const SUMMARY_MAX_TOKENS = 1024;
+
+/** Longer messages are cut to this many characters in the transcript */
+const MAX_MESSAGE_CHARS = 6000;
+
+/** Share of the context window a transcript chunk may use */
+const CHUNK_WINDOW_SHARE = 0.6;
+
+const SUMMARY_SYSTEM_PROMPT = `You maintain a running summary of a conversation between a developer and a coding assistant. The summary replaces the summarized messages, so the assistant will only know what you keep.
+
+Keep:
+- The developer's goals, constraints and preferences
+- Files, functions, errors and commands that came up, with exact names
+- Decisions made, approaches tried and whether they worked
+- Open questions and the current state of the work
+
+Write concise markdown bullet points grouped under short headings. Include short code snippets only when the exact code matters. Do not add commentary about the summary itself.`;
+
+function formatMessage(message: Message): string {
+  const speaker = message.role === 'user' ? 'Developer' : 'Assistant';
+  let content = message.content;
+  if (content.length > MAX_MESSAGE_CHARS) {
+    content = `${content.slice(0, MAX_MESSAGE_CHARS)}\n[… message truncated]`;
+  }
+  const files = message.codeContexts?.map((c) => c.fileName).filter(Boolean);
+  const attached = files?.length ? ` (attached: ${files.join(', ')})` : '';
+  return `### ${speaker}${attached}\n${content}`;
+}
+
+function buildRequest(previousSummary: string | undefined, transcript: string[]): string {
+  const intro = previousSummary
+    ? `Here is the summary so far:\n\n${previousSummary}\n\nUpdate it with these later messages:`
+    : 'Summarize these messages:';
+  return `${intro}\n\n${transcript.join('\n\n')}`;
+}
+
+/**
+ * Split formatted messages into chunks that fit the model alongside the
+ * prompt, the running summary and the reply
+ */
+function chunkTranscript(transcript: string[], model: ModelInfo): string[][] {
+  const budget =
+    Math.floor(model.contextWindow * CHUNK_WINDOW_SHARE) -
+    SUMMARY_MAX_TOKENS * 2 -
+    estimateTextTokens(SUMMARY_SYSTEM_PROMPT, model);
+  const chunks: string[][] = [];
+  let current: string[] = [];
+  let used = 0;
+  for (const entry of transcript) {
+    const tokens = estimateTextTokens(entry, model);
+    if (current.length > 0 && used + tokens > budget) {
+      chunks.push(current);
+      current = [];
+      used = 0;
+    }
+    current.push(entry);
+    used += tokens;
+  }
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+}
+
+export interface SummarizeOptions {
+  provider: AIProvider;
+  model: ModelInfo;
+  /** Summary of the messages before `messages`, updated rather than replaced */
+  previousSummary?: string;
+  messages: Message[];
+  signal?: AbortSignal;
+}
+
+export async function summarizeMessages({
+  provider,
+  model,
+  previousSummary,
+  messages,
+  signal,
+}: SummarizeOptions): Promise<string> {
+  let summary = previousSummary;
+  for (const chunk of chunkTranscript(messages.map(formatMessage), model)) {
+    const result = await provider.complete({
+      messages: [{ role: 'user', content: buildRequest(summary, chunk) }],
+      systemPrompt: SUMMARY_SYSTEM_PROMPT,
+      model,
+      maxTokens: Math.min(SUMMARY_MAX_TOKENS, model.maxOutputTokens),
+      signal,
+    });
+    summary = result.content.trim();
+  }
+  return summary ?? '';
+}
@@ -0,0 +1,59 @@
+/**
+ * Chat title generation from the first exchange of a conversation
+ */
+
+import type { AIProvider } from './types';
+import type { ModelId, ModelInfo } from '@/types/chat';
+
+/** Cheap model used for titles unless TITLE_MODEL is set */
+export const DEFAULT_TITLE_MODEL: ModelId = 'gpt-4o-mini';
+
+const MAX_TITLE_LENGTH = 60;
+
+/** Only the start of each message is needed to name the chat */
+const MAX_EXCERPT_CHARS = 2000;
+
+const TITLE_SYSTEM_PROMPT = `You name conversations between a developer and a coding assistant. Reply with a title of 3 to 6 words that says what the conversation is about, in the language the developer used. Use sentence case. Do not use quotes or end punctuation, and reply with the title only.`;
+
+/**
+ * Strip what models tend to wrap titles in: a "Title:" label, quotes,
+ * markdown emphasis and a trailing period
+ */
+export function cleanTitle(raw: string): string {
+  const title = (raw.trim().split('\n')[0] ?? '')
+    .replace(/^title\s*:\s*/i, '')
+    .replace(/^[#*_\s]+|[*_\s]+$/g, '')
+    .replace(/^["'`“‘]+|["'`”’]+$/g, '')
+    .replace(/[.。!]+$/, '')
+    .trim();
+  return title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…` : title;
+}
+
+export interface GenerateTitleOptions {
+  provider: AIProvider;
+  model: ModelInfo;
+  /** First user message */
+  question: string;
+  /** First assistant reply, when it has been saved */
+  answer?: string;
+  signal?: AbortSignal;
+}
+
+export async function generateChatTitle({
+  provider,
+  model,
+  question,
+  answer,
+  signal,
+}: GenerateTitleOptions): Promise<string> {
+  let content = `Developer:\n${question.slice(0, MAX_EXCERPT_CHARS)}`;
+  if (answer) content += `\n\nAssistant:\n${answer.slice(0, MAX_EXCERPT_CHARS)}`;
+  const result = await provider.complete({
+    messages: [{ role: 'user', content }],
+    systemPrompt: TITLE_SYSTEM_PROMPT,
+    model,
+    maxTokens: 30,
+    signal,
+  });
+  return cleanTitle(result.content);
+}
@@ -0,0 +1,52 @@
+/**
+ * Token estimates for budgeting requests against a model's context window.
+ *
+ * Providers do not expose their tokenizers cheaply, so counts are estimated
+ * from character length using a ratio per provider. Estimates err on the
+ * high side; the budget also keeps a safety margin (see lib/ai/context-budget).
+ */
+
+import type { Message, ModelInfo, ProviderId } from '@/types/chat';
+
+/** Average characters per token; code and non-English text run lower */
+const CHARS_PER_TOKEN: Record<ProviderId, number> = {
+  anthropic: 3.5,
+  openai: 3.8,
+  local: 3.2,
+};
+
+const DEFAULT_CHARS_PER_TOKEN = 3.2;
+
+/** Role markers and separators added around each message */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/** Roughly what a typical screenshot costs with either provider */
+const IMAGE_TOKENS = 1600;
+
+export type TokenEstimateModel = Pick<ModelInfo, 'provider'>;
+
+export function estimateTextTokens(text: string, model: TokenEstimateModel): number {
+  if (!text) return 0;
+  return Math.ceil(text.length / (CHARS_PER_TOKEN[model.provider] ?? DEFAULT_CHARS_PER_TOKEN));
+}
+
+export function estimateMessageTokens(message: Message, model: TokenEstimateModel): number {
+  return (
+    MESSAGE_OVERHEAD_TOKENS +
+    estimateTextTokens(message.content, model) +
+    (message.images?.length ?? 0) * IMAGE_TOKENS
+  );
+}
+
+export function estimateMessagesTokens(messages: Message[], model: TokenEstimateModel): number {
+  return messages.reduce((sum, message) => sum + estimateMessageTokens(message, model), 0);
+}
+
+/**
+ * Compact token count for display, e.g. 8K or 1.2M
+ */
+export function formatTokenCount(count: number): string {
+  if (count >= 1000000) return `${Math.round(count / 100000) / 10}M`;
+  if (count >= 1000) return `${Math.round(count / 1000)}K`;
+  return String(count);
+}
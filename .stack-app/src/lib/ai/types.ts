@@ -0,0 +1,48 @@
+/**
+ * AI provider contracts
+ *
+ * Every backend (Anthropic, OpenAI, ...) implements AIProvider and is added
+ * to the registry, which is the only place routes look models up.
+ */
+
+import type { CompletionResult, Message, ModelInfo, ProviderId } from '@/types/chat';
+
+export interface ProviderCapabilities {
+  /** Supports streamed responses */
+  streaming: boolean;
+  /** At least one model accepts image input */
+  vision: boolean;
+}
+
+export interface ProviderRequest {
+  messages: Message[];
+  systemPrompt: string;
+  model: ModelInfo;
+  maxTokens: number;
+  /** Aborts the upstream request, e.g. when the client disconnects */
+  signal?: AbortSignal;
+}
+
+export interface AIProvider {
+  id: ProviderId;
+  /** Human-readable name */
+  name: string;
+  capabilities: ProviderCapabilities;
+  /** Models served by this provider */
+  models: ModelInfo[];
+  /**
+   * Prefix claiming model IDs that are not known until discovery,
+   * e.g. 'local:' for models listed by a local server
+   */
+  modelPrefix?: string;
+  /** Query the backend for the models it currently serves */
+  discoverModels?(): Promise<ModelInfo[]>;
+  /** Whether credentials/endpoint are set so requests can succeed */
+  isConfigured(): boolean;
+  /** Opt-in backend; leaving it unconfigured does not degrade health */
+  optional?: boolean;
+  /** Stream a response as SSE-encoded StreamEvents (see lib/ai/stream) */
+  stream(request: ProviderRequest): Promise<ReadableStream<Uint8Array>>;
+  /** Get a complete, non-streaming response */
+  complete(request: ProviderRequest): Promise<CompletionResult>;
+}
@@ -0,0 +1,122 @@
+/**
+ * Sorting, filtering and paging of the chat list
+ *
+ * Shared by the chats API and the client, which applies the same rules to
+ * keep an already loaded list up to date without fetching it again.
+ */
+
+import type {
+  ChatListCursor,
+  ChatListItem,
+  ChatListQuery,
+  ChatSession,
+  ChatSortField,
+  SortOrder,
+} from '@/types/chat-history';
+
+export const CHAT_SORT_FIELDS: readonly ChatSortField[] = ['updated', 'created', 'title'];
+
+export function toChatListItem(session: ChatSession): ChatListItem {
+  return {
+    id: session.id,
+    title: session.title,
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt,
+    messageCount: session.messages.length,
+    ...(session.model !== undefined && { model: session.model }),
+    ...(session.tags?.length && { tags: session.tags }),
+    ...(session.folder && { folder: session.folder }),
+    ...(session.pinned && { pinned: true }),
+    ...(session.archived && { archived: true }),
+    hasCodeContext:
+      session.files.length > 0 || session.tree.nodes.some((m) => (m.codeContexts?.length ?? 0) > 0),
+  };
+}
+
+export function getSortOrder(query: ChatListQuery): SortOrder {
+  return query.order ?? (query.sort === 'title' ? 'asc' : 'desc');
+}
+
+/**
+ * Value a chat is sorted by. ISO dates sort correctly as strings.
+ */
+export function getSortKey(item: ChatListItem, sort: ChatSortField = 'updated'): string {
+  switch (sort) {
+    case 'created':
+      return item.createdAt;
+    case 'title':
+      return item.title.toLowerCase();
+    case 'updated':
+    default:
+      return item.updatedAt;
+  }
+}
+
+function compareCursors(a: ChatListCursor, b: ChatListCursor, order: SortOrder): number {
+  if (a.pinned !== b.pinned) return a.pinned ? -1 : 1;
+  const byKey = a.key < b.key ? -1 : a.key > b.key ? 1 : 0;
+  // IDs break ties so every chat has one fixed position
+  const result = byKey || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+  return order === 'asc' ? result : -result;
+}
+
+export function getCursor(item: ChatListItem, sort?: ChatSortField): ChatListCursor {
+  return { pinned: !!item.pinned, key: getSortKey(item, sort), id: item.id };
+}
+
+export function compareChatListItems(a: ChatListItem, b: ChatListItem, query: ChatListQuery): number {
+  return compareCursors(getCursor(a, query.sort), getCursor(b, query.sort), getSortOrder(query));
+}
+
+/**
+ * Whether `item` comes after `cursor` in the list, i.e. on a later page
+ */
+export function isAfterCursor(item: ChatListItem, cursor: ChatListCursor, query: ChatListQuery): boolean {
+  return compareCursors(getCursor(item, query.sort), cursor, getSortOrder(query)) > 0;
+}
+
+export function matchesChatListQuery(item: ChatListItem, query: ChatListQuery): boolean {
+  if (!!item.archived !== !!query.archived) return false;
+  const date = query.sort === 'created' ? item.createdAt : item.updatedAt;
+  if (query.from && date < query.from) return false;
+  if (query.to && date >= query.to) return false;
+  if (query.model && item.model !== query.model) return false;
+  if (query.tag && !item.tags?.includes(query.tag)) return false;
+  if (query.folder && item.folder !== query.folder) return false;
+  if (query.hasCodeContext !== undefined && item.hasCodeContext !== query.hasCodeContext) return false;
+  return true;
+}
+
+/**
+ * Whether the query hides any chats (sorting alone does not). Listing the
+ * archive hides every chat that is not archived.
+ */
+export function hasChatListFilters(query: ChatListQuery): boolean {
+  return !!(
+    query.from ||
+    query.to ||
+    query.model ||
+    query.tag ||
+    query.folder ||
+    query.hasCodeContext !== undefined ||
+    query.archived
+  );
+}
+
+/**
+ * Cursors are opaque to clients; they only pass back `nextCursor`
+ */
+export function encodeCursor(cursor: ChatListCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+export function decodeCursor(value: string): ChatListCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    return typeof cursor?.key === 'string' && typeof cursor?.id === 'string'
+      ? { pinned: cursor.pinned === true, key: cursor.key, id: cursor.id }
+      : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,328 @@
+/**
+ * Full-text search over chat history
+ *
+ * An inverted index over chat titles, every message in each chat's tree
+ * (including inactive branches) and the names of attached and pinned
+ * files. Hits are ranked with BM25, weighted by field, and come with a
+ * snippet and the ranges of the matched words in it.
+ */
+
+import type { ChatSearchField, ChatSearchHit, ChatSession } from '@/types/chat-history';
+import type { Message } from '@/types';
+
+/** A title match counts for more than the same words in a message */
+const FIELD_WEIGHTS: Record<ChatSearchField, number> = {
+  title: 3,
+  file: 2,
+  message: 1,
+};
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+/** Hits returned per chat, so one long chat cannot fill the results */
+const MAX_HITS_PER_CHAT = 3;
+
+/** The last query word also matches longer words once it is this long */
+const MIN_PREFIX_LENGTH = 2;
+
+const SNIPPET_LENGTH = 160;
+const SNIPPET_LEAD = 50;
+
+// Letters and digits in any script. Built with the constructor because the
+// type-check target predates the `u` flag; every supported runtime has it.
+const WORD_PATTERN = new RegExp('[\\p{L}\\p{N}]+', 'gu');
+const ENDS_IN_WORD = new RegExp('[\\p{L}\\p{N}]$', 'u');
+const CAMEL_CASE_BOUNDARY = new RegExp(
+  '(?<=\\p{Ll})(?=\\p{Lu})|(?<=\\p{Lu})(?=\\p{Lu}\\p{Ll})|(?<=\\p{L})(?=\\p{N})|(?<=\\p{N})(?=\\p{L})',
+  'u'
+);
+
+interface IndexedDoc {
+  chatId: string;
+  field: ChatSearchField;
+  messageId?: string;
+  role?: Message['role'];
+  text: string;
+  /** Number of terms, for length normalization */
+  length: number;
+}
+
+interface IndexedChat {
+  title: string;
+  updatedAt: string;
+  docKeys: Set<string>;
+}
+
+export interface ChatSearchIndex {
+  /** Index a chat, or bring an indexed chat up to date */
+  add(session: ChatSession): void;
+  remove(chatId: string): void;
+  search(query: string, limit: number): ChatSearchHit[];
+}
+
+/**
+ * Split a camelCase or PascalCase word into its parts
+ */
+function splitCamelCase(word: string): string[] {
+  return word.split(CAMEL_CASE_BOUNDARY);
+}
+
+/**
+ * Lowercased words of `text`. Identifiers are also indexed by their parts,
+ * so "PrismaClient" is found by "prisma" and "schema.prisma" by "schema".
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  for (const word of text.match(WORD_PATTERN) ?? []) {
+    terms.push(word.toLowerCase());
+    const parts = splitCamelCase(word);
+    if (parts.length > 1) {
+      for (const part of parts) terms.push(part.toLowerCase());
+    }
+  }
+  return terms;
+}
+
+function docKey(chatId: string, field: ChatSearchField, id = ''): string {
+  return `${chatId}\u0000${field}\u0000${id}`;
+}
+
+function collectDocs(session: ChatSession): Map<string, Omit<IndexedDoc, 'length'>> {
+  const docs = new Map<string, Omit<IndexedDoc, 'length'>>();
+  const chatId = session.id;
+  docs.set(docKey(chatId, 'title'), { chatId, field: 'title', text: session.title });
+
+  for (const message of session.tree.nodes) {
+    if (message.content.trim()) {
+      docs.set(docKey(chatId, 'message', message.id), {
+        chatId,
+        field: 'message',
+        messageId: message.id,
+        role: message.role,
+        text: message.content,
+      });
+    }
+    const fileNames = Array.from(new Set((message.codeContexts ?? []).map((c) => c.fileName)));
+    if (fileNames.length > 0) {
+      docs.set(docKey(chatId, 'file', message.id), {
+        chatId,
+        field: 'file',
+        messageId: message.id,
+        role: message.role,
+        text: fileNames.join(', '),
+      });
+    }
+  }
+
+  if (session.files.length > 0) {
+    docs.set(docKey(chatId, 'file'), {
+      chatId,
+      field: 'file',
+      text: session.files.map((f) => f.name).join(', '),
+    });
+  }
+  return docs;
+}
+
+function countTerms(terms: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const term of terms) counts.set(term, (counts.get(term) ?? 0) + 1);
+  return counts;
+}
+
+/**
+ * Every word of `text` with its offset
+ */
+function findWords(text: string): { word: string; index: number }[] {
+  return Array.from(text.matchAll(WORD_PATTERN), (m) => ({ word: m[0], index: m.index ?? 0 }));
+}
+
+/**
+ * A window of `text` around its first match, with whitespace collapsed,
+ * and the ranges of every matched word in it
+ */
+function buildSnippet(
+  text: string,
+  matches: (word: string) => boolean
+): { snippet: string; highlights: [number, number][] } {
+  const flat = text.replace(/\s+/g, ' ').trim();
+
+  const first = findWords(flat).find(({ word }) => matches(word))?.index ?? 0;
+
+  let start = 0;
+  let end = flat.length;
+  if (flat.length > SNIPPET_LENGTH) {
+    start = Math.max(0, Math.min(first - SNIPPET_LEAD, flat.length - SNIPPET_LENGTH));
+    end = Math.min(flat.length, start + SNIPPET_LENGTH);
+    // Do not cut words in half
+    if (start > 0) {
+      const space = flat.indexOf(' ', start);
+      if (space !== -1 && space < first) start = space + 1;
+    }
+    if (end < flat.length) {
+      const space = flat.lastIndexOf(' ', end);
+      if (space > start) end = space;
+    }
+  }
+
+  const prefix = start > 0 ? '…' : '';
+  const snippet = prefix + flat.slice(start, end) + (end < flat.length ? '…' : '');
+  const highlights: [number, number][] = [];
+  for (const { word, index } of findWords(flat.slice(start, end))) {
+    if (matches(word)) {
+      highlights.push([prefix.length + index, prefix.length + index + word.length]);
+    }
+  }
+  return { snippet, highlights };
+}
+
+export function createChatSearchIndex(): ChatSearchIndex {
+  const docs = new Map<string, IndexedDoc>();
+  const postings = new Map<string, Map<string, number>>();
+  const chats = new Map<string, IndexedChat>();
+  const totalLength: Record<ChatSearchField, number> = { title: 0, file: 0, message: 0 };
+  const docCount: Record<ChatSearchField, number> = { title: 0, file: 0, message: 0 };
+
+  function addDoc(key: string, doc: Omit<IndexedDoc, 'length'>): void {
+    const terms = tokenize(doc.text);
+    countTerms(terms).forEach((count, term) => {
+      let list = postings.get(term);
+      if (!list) postings.set(term, (list = new Map()));
+      list.set(key, count);
+    });
+    docs.set(key, { ...doc, length: terms.length });
+    totalLength[doc.field] += terms.length;
+    docCount[doc.field] += 1;
+  }
+
+  function removeDoc(key: string): void {
+    const doc = docs.get(key);
+    if (!doc) return;
+    new Set(tokenize(doc.text)).forEach((term) => {
+      const list = postings.get(term);
+      list?.delete(key);
+      if (list?.size === 0) postings.delete(term);
+    });
+    docs.delete(key);
+    totalLength[doc.field] -= doc.length;
+    docCount[doc.field] -= 1;
+  }
+
+  function remove(chatId: string): void {
+    const chat = chats.get(chatId);
+    if (!chat) return;
+    chat.docKeys.forEach(removeDoc);
+    chats.delete(chatId);
+  }
+
+  function add(session: ChatSession): void {
+    const next = collectDocs(session);
+    const previous = chats.get(session.id)?.docKeys ?? new Set<string>();
+
+    // Messages never change once added, so most updates only add a few docs
+    previous.forEach((key) => {
+      const doc = next.get(key);
+      if (!doc || docs.get(key)?.text !== doc.text) removeDoc(key);
+    });
+    next.forEach((doc, key) => {
+      if (!docs.has(key)) addDoc(key, doc);
+    });
+    chats.set(session.id, { title: session.title, updatedAt: session.updatedAt, docKeys: new Set(next.keys()) });
+  }
+
+  function search(query: string, limit: number): ChatSearchHit[] {
+    const words = tokenize(query);
+    if (words.length === 0) return [];
+    const queryTerms = Array.from(new Set(words));
+    // While typing, the last word is usually unfinished
+    const prefix = ENDS_IN_WORD.test(query) ? words[words.length - 1] : undefined;
+
+    // Index terms each query term stands for
+    const expansions = queryTerms.map((term) => {
+      const terms = postings.has(term) ? [term] : [];
+      if (term === prefix && term.length >= MIN_PREFIX_LENGTH) {
+        postings.forEach((_, candidate) => {
+          if (candidate !== term && candidate.startsWith(term)) terms.push(candidate);
+        });
+      }
+      return terms;
+    });
+
+    const scores = new Map<string, { score: number; matched: Set<number> }>();
+    expansions.forEach((terms, queryIndex) => {
+      for (const term of terms) {
+        const list = postings.get(term)!;
+        // Document frequency per field, since fields are ranked separately
+        const df: Record<ChatSearchField, number> = { title: 0, file: 0, message: 0 };
+        list.forEach((_, key) => df[docs.get(key)!.field]++);
+        // Prefix expansions count for less than the word itself
+        const boost = term === queryTerms[queryIndex] ? 1 : 0.7;
+
+        list.forEach((tf, key) => {
+          const doc = docs.get(key)!;
+          const n = docCount[doc.field];
+          const idf = Math.log(1 + (n - df[doc.field] + 0.5) / (df[doc.field] + 0.5));
+          const avgLength = totalLength[doc.field] / n || 1;
+          const norm = tf + K1 * (1 - B + (B * doc.length) / avgLength);
+          const termScore = idf * ((tf * (K1 + 1)) / norm) * FIELD_WEIGHTS[doc.field] * boost;
+
+          const entry = scores.get(key) ?? { score: 0, matched: new Set<number>() };
+          entry.score += termScore;
+          entry.matched.add(queryIndex);
+          scores.set(key, entry);
+        });
+      }
+    });
+
+    // A chat matches when every query word appears somewhere in it
+    const chatTerms = new Map<string, Set<number>>();
+    scores.forEach(({ matched }, key) => {
+      const chatId = docs.get(key)!.chatId;
+      const set = chatTerms.get(chatId) ?? new Set<number>();
+      matched.forEach((i) => set.add(i));
+      chatTerms.set(chatId, set);
+    });
+
+    const phrase = query.trim().replace(/\s+/g, ' ').toLowerCase();
+    const ranked = Array.from(scores.entries())
+      .filter(([key]) => chatTerms.get(docs.get(key)!.chatId)!.size === queryTerms.length)
+      .map(([key, { score, matched }]) => {
+        const doc = docs.get(key)!;
+        const coverage = matched.size / queryTerms.length;
+        let total = score * coverage * coverage;
+        if (words.length > 1 && doc.text.replace(/\s+/g, ' ').toLowerCase().includes(phrase)) total *= 1.5;
+        return { doc, score: total };
+      })
+      // Equal scores: the more recently updated chat first
+      .sort((a, b) => b.score - a.score || chats.get(b.doc.chatId)!.updatedAt.localeCompare(chats.get(a.doc.chatId)!.updatedAt));
+
+    const matchedTerms = new Set(expansions.flat());
+    const matches = (word: string) =>
+      matchedTerms.has(word.toLowerCase()) || splitCamelCase(word).some((part) => matchedTerms.has(part.toLowerCase()));
+
+    const perChat = new Map<string, number>();
+    const hits: ChatSearchHit[] = [];
+    for (const { doc, score } of ranked) {
+      if (hits.length >= limit) break;
+      const count = perChat.get(doc.chatId) ?? 0;
+      if (count >= MAX_HITS_PER_CHAT) continue;
+      perChat.set(doc.chatId, count + 1);
+
+      const chat = chats.get(doc.chatId)!;
+      hits.push({
+        chatId: doc.chatId,
+        chatTitle: chat.title,
+        field: doc.field,
+        ...(doc.messageId !== undefined && { messageId: doc.messageId, role: doc.role }),
+        ...buildSnippet(doc.text, matches),
+        score: Math.round(score * 1000) / 1000,
+        updatedAt: chat.updatedAt,
+      });
+    }
+    return hits;
+  }
+
+  return { add, remove, search };
+}
@@ -0,0 +1,207 @@
+/**
+ * Helpers for files shown in the code panel
+ */
+
+import type { CodeContext, CodeFile } from '@/types';
+
+/** Common language aliases mapped to Prism grammar names */
+const LANGUAGE_ALIASES: Record<string, string> = {
+  ts: 'typescript',
+  js: 'javascript',
+  py: 'python',
+  sh: 'bash',
+  shell: 'bash',
+  zsh: 'bash',
+  yml: 'yaml',
+  md: 'markdown',
+  html: 'markup',
+  xml: 'markup',
+  rs: 'rust',
+  rb: 'ruby',
+  'c++': 'cpp',
+  'c#': 'csharp',
+  cs: 'csharp',
+  golang: 'go',
+  kt: 'kotlin',
+};
+
+/** Extension used when naming a file of a given language */
+const LANGUAGE_EXTENSIONS: Record<string, string> = {
+  typescript: 'ts',
+  tsx: 'tsx',
+  javascript: 'js',
+  jsx: 'jsx',
+  python: 'py',
+  bash: 'sh',
+  json: 'json',
+  yaml: 'yml',
+  markdown: 'md',
+  markup: 'html',
+  css: 'css',
+  scss: 'scss',
+  sql: 'sql',
+  rust: 'rs',
+  go: 'go',
+  java: 'java',
+  kotlin: 'kt',
+  swift: 'swift',
+  c: 'c',
+  cpp: 'cpp',
+  csharp: 'cs',
+  ruby: 'rb',
+  php: 'php',
+  graphql: 'graphql',
+  plaintext: 'txt',
+};
+
+/** Language detected from a file extension */
+const EXTENSION_LANGUAGES: Record<string, string> = {
+  ...Object.fromEntries(Object.entries(LANGUAGE_EXTENSIONS).map(([lang, ext]) => [ext, lang])),
+  mjs: 'javascript',
+  cjs: 'javascript',
+  mts: 'typescript',
+  cts: 'typescript',
+  htm: 'markup',
+  xml: 'markup',
+  svg: 'markup',
+  yaml: 'yaml',
+  h: 'c',
+  hpp: 'cpp',
+  cc: 'cpp',
+  zsh: 'bash',
+};
+
+/**
+ * Map a fence or user-supplied language name to its Prism grammar name
+ */
+export function normalizeLanguage(language: string): string {
+  const lower = language.trim().toLowerCase();
+  return LANGUAGE_ALIASES[lower] ?? lower;
+}
+
+/**
+ * Detect a language from a file name's extension
+ */
+export function languageFromFilename(filename: string): string | undefined {
+  const ext = filename.split('/').pop()?.split('.').slice(1).pop()?.toLowerCase();
+  return ext ? EXTENSION_LANGUAGES[ext] : undefined;
+}
+
+export interface FenceInfo {
+  language: string;
+  filename?: string;
+}
+
+/**
+ * Read the language and optional file name from a code fence info string.
+ * Understands `ts:src/app.ts`, `ts title="app.ts"` (also `file=`/`filename=`)
+ * and a bare path such as `ts src/app.ts`.
+ */
+export function parseFenceInfo(language: string, meta?: string): FenceInfo {
+  const [lang, inlineName] = language.split(':', 2);
+  let filename = inlineName || undefined;
+
+  if (!filename && meta) {
+    const attr = /(?:title|filename|file)=(?:"([^"]+)"|'([^']+)'|(\S+))/.exec(meta);
+    const bare = meta.split(/\s+/).find((token) => !token.includes('=') && /[./]/.test(token));
+    filename = attr ? attr[1] ?? attr[2] ?? attr[3] : bare;
+  }
+
+  return {
+    language: normalizeLanguage(lang) || (filename && languageFromFilename(filename)) || '',
+    ...(filename && { filename }),
+  };
+}
+
+/** A fenced code block as it appears in a message */
+export interface MessageCodeBlock extends FenceInfo {
+  code: string;
+}
+
+/**
+ * Create a panel file for a code block. Blocks without a file name get a
+ * `snippet-N` name that does not clash with the open files.
+ */
+export function createCodeFile(block: MessageCodeBlock, existing: CodeFile[]): CodeFile {
+  const language = block.language || 'plaintext';
+  let name = block.filename;
+  if (!name) {
+    const ext = LANGUAGE_EXTENSIONS[language] ?? 'txt';
+    const taken = new Set(existing.map((f) => f.name));
+    let n = 1;
+    while (taken.has(`snippet-${n}.${ext}`)) n++;
+    name = `snippet-${n}.${ext}`;
+  }
+  return { id: `file-${Date.now()}`, name, language, content: block.code };
+}
+
+/**
+ * Code context that attaches a whole file rather than a selection
+ */
+export function createFileContext(file: CodeFile): CodeContext {
+  return {
+    fileId: file.id,
+    fileName: file.name,
+    language: file.language,
+    selectedCode: file.content,
+    startLine: 1,
+    endLine: file.content.split('\n').length,
+    wholeFile: true,
+  };
+}
+
+/**
+ * Add a file to the open files. Re-opening identical code just focuses its
+ * tab, and code for an already open file name is attached as a revision to
+ * review instead of duplicating the tab.
+ * Returns the new list and the ID of the tab to activate.
+ */
+export function upsertCodeFile(files: CodeFile[], file: CodeFile): { files: CodeFile[]; activeId: string } {
+  const identical = files.find((f) => f.content === file.content);
+  if (identical) return { files, activeId: identical.id };
+  const existing = files.find((f) => f.name === file.name);
+  if (!existing) return { files: [...files, file], activeId: file.id };
+  return { files: applyRevision(files, existing.id, file.content), activeId: existing.id };
+}
+
+/**
+ * Attach suggested content to a file for review; identical content clears it
+ */
+export function applyRevision(files: CodeFile[], fileId: string, revision: string): CodeFile[] {
+  return files.map((f) => (f.id === fileId ? withRevision(f, revision) : f));
+}
+
+/**
+ * Copy of a file with its pending revision replaced; undefined or content
+ * identical to the file clears it
+ */
+export function withRevision(file: CodeFile, revision: string | undefined): CodeFile {
+  const next: CodeFile = { id: file.id, name: file.name, language: file.language, content: file.content };
+  return revision === undefined || revision === file.content ? next : { ...next, revision };
+}
+
+const FENCE_OPEN = /^ {0,3}(`{3,}|~{3,})\s*([^\s`]*)\s*(.*)$/;
+
+/**
+ * Find the fenced code blocks in a markdown message
+ */
+export function extractCodeBlocks(markdown: string): MessageCodeBlock[] {
+  const blocks: MessageCodeBlock[] = [];
+  let open: { fence: string; info: FenceInfo; lines: string[] } | null = null;
+
+  for (const line of markdown.split('\n')) {
+    if (!open) {
+      const match = FENCE_OPEN.exec(line);
+      if (match) open = { fence: match[1], info: parseFenceInfo(match[2], match[3]), lines: [] };
+      continue;
+    }
+    const trimmed = line.trim();
+    if (trimmed.startsWith(open.fence) && /^([`~])\1*$/.test(trimmed)) {
+      blocks.push({ ...open.info, code: open.lines.join('\n') });
+      open = null;
+    } else {
+      open.lines.push(line);
+    }
+  }
+  return blocks;
+}
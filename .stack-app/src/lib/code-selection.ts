@@ -0,0 +1,98 @@
+/**
+ * Map DOM selections in the rendered code panel back to exact positions in
+ * the file. Each rendered line carries `data-line` (1-based) and its code
+ * cell `data-line-code`, so positions do not depend on pixel geometry.
+ */
+
+export interface LinePosition {
+  /** 1-based line number */
+  line: number;
+  /** 0-based character offset within the line */
+  column: number;
+}
+
+export interface CodeRange {
+  start: LinePosition;
+  /** Exclusive end position */
+  end: LinePosition;
+}
+
+function closestElement(node: Node): Element | null {
+  return node instanceof Element ? node : node.parentElement;
+}
+
+/**
+ * Resolve a DOM boundary point (as found on a Selection or Range) to a line
+ * and column, or null when it lies outside any rendered line
+ */
+export function getLinePosition(node: Node, offset: number): LinePosition | null {
+  const row = closestElement(node)?.closest('[data-line]');
+  if (!row) return null;
+  const line = Number(row.getAttribute('data-line'));
+  const cell = row.querySelector('[data-line-code]');
+  if (!cell) return { line, column: 0 };
+
+  if (cell.contains(node)) {
+    const range = document.createRange();
+    range.setStart(cell, 0);
+    range.setEnd(node, offset);
+    return { line, column: range.toString().length };
+  }
+
+  // Boundary on the row itself or in the gutter: before or after the code
+  const after = node === row && offset > Array.prototype.indexOf.call(row.childNodes, cell);
+  return { line, column: after ? (cell.textContent ?? '').length : 0 };
+}
+
+function comparePositions(a: LinePosition, b: LinePosition): number {
+  return a.line - b.line || a.column - b.column;
+}
+
+/**
+ * Exact range covered by a selection, or null if it is collapsed or does
+ * not touch any rendered line
+ */
+export function getSelectionRange(selection: Selection): CodeRange | null {
+  if (selection.isCollapsed || selection.rangeCount === 0) return null;
+  const range = selection.getRangeAt(0);
+  const start = getLinePosition(range.startContainer, range.startOffset);
+  const end = getLinePosition(range.endContainer, range.endOffset);
+  if (!start || !end) return null;
+  return comparePositions(start, end) <= 0 ? { start, end } : { start: end, end: start };
+}
+
+/**
+ * Range covering whole lines `from`..`to` (in either order)
+ */
+export function getLinesRange(content: string, from: number, to: number): CodeRange {
+  const lines = content.split('\n');
+  const first = Math.max(1, Math.min(from, to));
+  const last = Math.min(lines.length, Math.max(from, to));
+  return {
+    start: { line: first, column: 0 },
+    end: { line: last, column: lines[last - 1]?.length ?? 0 },
+  };
+}
+
+/**
+ * Text of a file covered by a range
+ */
+export function sliceRange(content: string, { start, end }: CodeRange): string {
+  const lines = content.split('\n').slice(start.line - 1, end.line);
+  if (lines.length === 0) return '';
+  if (lines.length === 1) return lines[0].slice(start.column, end.column);
+  lines[0] = lines[0].slice(start.column);
+  lines[lines.length - 1] = lines[lines.length - 1].slice(0, end.column);
+  return lines.join('\n');
+}
+
+/**
+ * Drop a trailing line the range only touches at column 0 (as when a
+ * selection is dragged or triple-clicked past the end of a line)
+ */
+export function normalizeRange(content: string, range: CodeRange): CodeRange {
+  const { start, end } = range;
+  if (end.column > 0 || end.line <= start.line) return range;
+  const previous = content.split('\n')[end.line - 2] ?? '';
+  return { start, end: { line: end.line - 1, column: previous.length } };
+}
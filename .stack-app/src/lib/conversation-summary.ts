@@ -0,0 +1,54 @@
+/**
+ * Which part of a conversation a summary covers. The newest messages are
+ * always sent as written; older ones are summarized in batches once enough
+ * of them have built up. Shared by the summary route and the chat UI.
+ */
+
+import type { ConversationSummary } from '@/types/chat-history';
+
+/** Recent messages that are never summarized */
+export const SUMMARY_KEEP_RECENT = 6;
+
+/** Older messages that must build up before the summary is (re)generated */
+export const SUMMARY_MIN_NEW_MESSAGES = 8;
+
+type SummarizableMessage = { id: string; role: string };
+
+/**
+ * Index where the summarizable history ends: the start of the recent
+ * messages, moved back to a user message so the rest reads as a conversation
+ */
+export function getSummarySplit(path: SummarizableMessage[]): number {
+  let split = path.length - SUMMARY_KEEP_RECENT;
+  while (split > 0 && path[split].role !== 'user') split--;
+  return Math.max(0, split);
+}
+
+/**
+ * Index of the last message the summary covers, or -1 when there is no
+ * summary or it was made for another branch
+ */
+export function findSummaryEnd(path: SummarizableMessage[], summary?: ConversationSummary): number {
+  return summary ? path.findIndex((m) => m.id === summary.throughMessageId) : -1;
+}
+
+/**
+ * Whether enough older messages are left out of the summary to update it
+ */
+export function needsSummary(path: SummarizableMessage[], summary?: ConversationSummary): boolean {
+  return getSummarySplit(path) - (findSummaryEnd(path, summary) + 1) >= SUMMARY_MIN_NEW_MESSAGES;
+}
+
+/**
+ * The messages to send as written and the summary that stands in for the
+ * ones before them
+ */
+export function applySummary<T extends SummarizableMessage>(
+  history: T[],
+  summary?: ConversationSummary
+): { messages: T[]; summary?: string } {
+  const end = findSummaryEnd(history, summary);
+  // Never summarize away the message being answered
+  if (end < 0 || end >= history.length - 1) return { messages: history };
+  return { messages: history.slice(end + 1), summary: summary!.content };
+}
@@ -0,0 +1,132 @@
+/**
+ * Line diff used to review AI-suggested revisions of code panel files
+ */
+
+/** Above this many LCS cells the changed region is reported as one hunk */
+const MAX_LCS_CELLS = 4_000_000;
+
+export type DiffSegment =
+  | { type: 'equal'; lines: string[]; oldStart: number; newStart: number }
+  | { type: 'change'; oldLines: string[]; newLines: string[]; oldStart: number; newStart: number };
+
+export type ChangeSegment = Extract<DiffSegment, { type: 'change' }>;
+
+/** Which side of a hunk to keep */
+export type HunkSide = 'old' | 'new';
+
+type Op = { type: 'equal' | 'delete' | 'insert'; line: string };
+
+function lcsOps(a: string[], b: string[]): Op[] {
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    return [
+      ...a.map((line): Op => ({ type: 'delete', line })),
+      ...b.map((line): Op => ({ type: 'insert', line })),
+    ];
+  }
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..], flattened
+  const width = b.length + 1;
+  const lengths = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = a[i] === b[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const ops: Op[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ type: 'equal', line: a[i] });
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      ops.push({ type: 'delete', line: a[i++] });
+    } else {
+      ops.push({ type: 'insert', line: b[j++] });
+    }
+  }
+  while (i < a.length) ops.push({ type: 'delete', line: a[i++] });
+  while (j < b.length) ops.push({ type: 'insert', line: b[j++] });
+  return ops;
+}
+
+/**
+ * Diff two texts line by line. Adjacent deletions and insertions are
+ * grouped into `change` segments (hunks); line numbers are 1-based.
+ */
+export function diffLines(oldText: string, newText: string): DiffSegment[] {
+  const a = oldText.split('\n');
+  const b = newText.split('\n');
+
+  // Trim the common prefix and suffix so the LCS only covers the edited region
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const ops: Op[] = [
+    ...a.slice(0, prefix).map((line): Op => ({ type: 'equal', line })),
+    ...lcsOps(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix)),
+    ...a.slice(a.length - suffix).map((line): Op => ({ type: 'equal', line })),
+  ];
+
+  const segments: DiffSegment[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  for (const op of ops) {
+    const last = segments[segments.length - 1];
+    if (op.type === 'equal') {
+      if (last?.type === 'equal') {
+        last.lines.push(op.line);
+      } else {
+        segments.push({ type: 'equal', lines: [op.line], oldStart: oldLine, newStart: newLine });
+      }
+      oldLine++;
+      newLine++;
+      continue;
+    }
+
+    const change: ChangeSegment = last?.type === 'change'
+      ? last
+      : { type: 'change', oldLines: [], newLines: [], oldStart: oldLine, newStart: newLine };
+    if (change !== last) segments.push(change);
+    if (op.type === 'delete') {
+      change.oldLines.push(op.line);
+      oldLine++;
+    } else {
+      change.newLines.push(op.line);
+      newLine++;
+    }
+  }
+  return segments;
+}
+
+/**
+ * Rebuild a text from diff segments, taking each hunk from the side chosen
+ * by `pick` (called with the hunk and its index among hunks)
+ */
+export function buildText(
+  segments: DiffSegment[],
+  pick: (change: ChangeSegment, hunkIndex: number) => HunkSide
+): string {
+  const lines: string[] = [];
+  let hunkIndex = 0;
+  for (const segment of segments) {
+    if (segment.type === 'equal') {
+      lines.push(...segment.lines);
+    } else {
+      lines.push(...(pick(segment, hunkIndex++) === 'new' ? segment.newLines : segment.oldLines));
+    }
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,82 @@
+/**
+ * Offline embedder based on feature hashing
+ *
+ * Words (reduced to a rough stem), word pairs and character trigrams are
+ * hashed into a fixed number of dimensions. It needs no model or network,
+ * and relates texts that share words or word forms ("migrating" and
+ * "migration"), but not true paraphrases; use a provider embedder for those.
+ */
+
+import { tokenize } from '@/lib/chat-search';
+import { normalize } from './vectors';
+import type { Embedder } from './types';
+
+const DIMENSIONS = 256;
+
+const WORD_WEIGHT = 1;
+const PAIR_WEIGHT = 0.5;
+const TRIGRAM_WEIGHT = 0.25;
+
+const STOP_WORDS = new Set(
+  (
+    'a an and are as at be but by can could do does for from has have how i if in into is it its me my no not ' +
+    'of on or our should so that the their them then there these this to up us was we what when where which ' +
+    'who why will with would you your'
+  ).split(' ')
+);
+
+/** Longest first, so "ations" is removed before "s" */
+const SUFFIXES = ['ations', 'ation', 'ings', 'ing', 'ions', 'ion', 'ers', 'er', 'ies', 'es', 'ed', 'ly', 's'];
+
+function stem(word: string): string {
+  for (const suffix of SUFFIXES) {
+    if (word.length - suffix.length >= 3 && word.endsWith(suffix)) {
+      return word.slice(0, -suffix.length);
+    }
+  }
+  return word;
+}
+
+/**
+ * 32-bit FNV-1a
+ */
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function addFeature(vector: number[], feature: string, weight: number): void {
+  const h = hash(feature);
+  // The top bit picks the sign, so collisions tend to cancel out
+  vector[h % DIMENSIONS] += h & 0x80000000 ? -weight : weight;
+}
+
+export function embedText(text: string): number[] {
+  const vector = new Array<number>(DIMENSIONS).fill(0);
+  const stems = tokenize(text)
+    .filter((word) => !STOP_WORDS.has(word))
+    .map(stem);
+
+  stems.forEach((word, i) => {
+    addFeature(vector, `w:${word}`, WORD_WEIGHT);
+    if (i > 0) addFeature(vector, `p:${stems[i - 1]} ${word}`, PAIR_WEIGHT);
+    const padded = `#${word}#`;
+    for (let j = 0; j + 3 <= padded.length; j++) {
+      addFeature(vector, `t:${padded.slice(j, j + 3)}`, TRIGRAM_WEIGHT);
+    }
+  });
+  return normalize(vector);
+}
+
+export function createHashingEmbedder(): Embedder {
+  return {
+    name: 'hash',
+    id: `hash:${DIMENSIONS}`,
+    minSimilarity: 0.35,
+    embed: async (texts) => texts.map(embedText),
+  };
+}
@@ -0,0 +1,50 @@
+/**
+ * Embedder selection
+ *
+ * Configure via EMBEDDING_PROVIDER ('hash' | 'openai' | 'local', default
+ * 'hash') and EMBEDDING_MODEL. The hashing embedder works offline with no
+ * setup; the others call an embeddings API and relate paraphrases too.
+ */
+
+import { createHashingEmbedder } from './hashing';
+import { createLocalEmbedder, createOpenAIEmbedder } from './openai-compatible';
+import type { Embedder, EmbedderName } from './types';
+
+export type { Embedder, EmbedderName } from './types';
+export { cosineSimilarity, compactVector, meanVector } from './vectors';
+
+const EMBEDDERS: readonly EmbedderName[] = ['hash', 'openai', 'local'];
+
+// Route handlers are bundled separately, so share one embedder per process
+const globalForEmbedder = globalThis as unknown as { embedder?: Embedder };
+
+export function getEmbedderName(): EmbedderName {
+  const value = process.env.EMBEDDING_PROVIDER?.trim().toLowerCase();
+  if (!value) return 'hash';
+  if (!EMBEDDERS.includes(value as EmbedderName)) {
+    throw new Error(
+      `Unknown EMBEDDING_PROVIDER "${value}". Expected one of: ${EMBEDDERS.join(', ')}`
+    );
+  }
+  return value as EmbedderName;
+}
+
+/**
+ * The configured embedder
+ */
+export function getEmbedder(): Embedder {
+  if (!globalForEmbedder.embedder) {
+    switch (getEmbedderName()) {
+      case 'openai':
+        globalForEmbedder.embedder = createOpenAIEmbedder();
+        break;
+      case 'local':
+        globalForEmbedder.embedder = createLocalEmbedder();
+        break;
+      case 'hash':
+      default:
+        globalForEmbedder.embedder = createHashingEmbedder();
+    }
+  }
+  return globalForEmbedder.embedder;
+}
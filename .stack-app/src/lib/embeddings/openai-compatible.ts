@@ -0,0 +1,78 @@
+/**
+ * Embedders backed by an OpenAI-compatible /embeddings endpoint: OpenAI
+ * itself, or a local server such as Ollama (e.g. EMBEDDING_MODEL=nomic-embed-text)
+ */
+
+import OpenAI from 'openai';
+import { normalize } from './vectors';
+import type { Embedder } from './types';
+
+const OPENAI_DEFAULT_MODEL = 'text-embedding-3-small';
+
+/** text-embedding-3 models can be shortened; 256 keeps stored vectors small */
+const OPENAI_DIMENSIONS = 256;
+
+/** Inputs per request */
+const BATCH_SIZE = 64;
+
+/** Embedding models have their own input limit; questions rarely reach it */
+const MAX_INPUT_CHARS = 8000;
+
+interface OpenAICompatibleOptions {
+  client: OpenAI;
+  model: string;
+  dimensions?: number;
+  minSimilarity: number;
+}
+
+function createOpenAICompatibleEmbedder(
+  name: 'openai' | 'local',
+  { client, model, dimensions, minSimilarity }: OpenAICompatibleOptions
+): Embedder {
+  return {
+    name,
+    id: `${name}:${model}${dimensions ? `:${dimensions}` : ''}`,
+    minSimilarity,
+    async embed(texts, signal) {
+      const vectors: number[][] = [];
+      for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+        const input = texts.slice(i, i + BATCH_SIZE).map((t) => t.slice(0, MAX_INPUT_CHARS) || ' ');
+        const response = await client.embeddings.create(
+          { model, input, ...(dimensions && { dimensions }) },
+          { signal }
+        );
+        const batch = [...response.data].sort((a, b) => a.index - b.index);
+        vectors.push(...batch.map((d) => normalize(d.embedding)));
+      }
+      return vectors;
+    },
+  };
+}
+
+export function createOpenAIEmbedder(): Embedder {
+  const apiKey = process.env.OPENAI_API_KEY;
+  if (!apiKey) {
+    throw new Error('EMBEDDING_PROVIDER=openai requires OPENAI_API_KEY');
+  }
+  const model = process.env.EMBEDDING_MODEL || OPENAI_DEFAULT_MODEL;
+  return createOpenAICompatibleEmbedder('openai', {
+    client: new OpenAI({ apiKey }),
+    model,
+    // Only the text-embedding-3 models accept a size
+    dimensions: model.startsWith('text-embedding-3') ? OPENAI_DIMENSIONS : undefined,
+    minSimilarity: 0.35,
+  });
+}
+
+export function createLocalEmbedder(): Embedder {
+  const baseURL = process.env.LOCAL_AI_BASE_URL;
+  const model = process.env.EMBEDDING_MODEL;
+  if (!baseURL || !model) {
+    throw new Error('EMBEDDING_PROVIDER=local requires LOCAL_AI_BASE_URL and EMBEDDING_MODEL');
+  }
+  return createOpenAICompatibleEmbedder('local', {
+    client: new OpenAI({ baseURL, apiKey: process.env.LOCAL_AI_API_KEY || 'local' }),
+    model,
+    minSimilarity: 0.5,
+  });
+}
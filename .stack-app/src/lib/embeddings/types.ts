@@ -0,0 +1,19 @@
+/**
+ * Embedder contracts
+ *
+ * An embedder maps text to vectors whose cosine similarity reflects how
+ * related the texts are. Vectors from different embedders are not
+ * comparable, so stored vectors record the `id` they were made with.
+ */
+
+export type EmbedderName = 'hash' | 'openai' | 'local';
+
+export interface Embedder {
+  readonly name: EmbedderName;
+  /** Identifies the vector space, e.g. 'openai:text-embedding-3-small:256' */
+  readonly id: string;
+  /** Cosine similarity below which texts are not considered related */
+  readonly minSimilarity: number;
+  /** One unit-length vector per text, in order */
+  embed(texts: string[], signal?: AbortSignal): Promise<number[][]>;
+}
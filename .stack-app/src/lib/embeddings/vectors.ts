@@ -0,0 +1,38 @@
+/**
+ * Vector helpers shared by the embedders and the embedding index
+ */
+
+export function normalize(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0));
+  return length > 0 ? vector.map((x) => x / length) : vector;
+}
+
+/**
+ * Cosine similarity of two unit-length vectors
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
+  return dot;
+}
+
+/**
+ * Unit-length mean of `vectors`, e.g. to represent a whole conversation
+ */
+export function meanVector(vectors: number[][]): number[] | null {
+  if (vectors.length === 0) return null;
+  const sum = new Array<number>(vectors[0].length).fill(0);
+  for (const vector of vectors) {
+    for (let i = 0; i < sum.length; i++) sum[i] += vector[i];
+  }
+  return normalize(sum);
+}
+
+/**
+ * Round components so stored vectors stay small; four decimals do not
+ * change rankings noticeably
+ */
+export function compactVector(vector: number[]): number[] {
+  return vector.map((x) => Math.round(x * 1e4) / 1e4);
+}
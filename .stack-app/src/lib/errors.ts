@@ -118,6 +118,30 @@ export const Errors = {
     );
   },
 
+  /**
+   * Model cannot accept image input
+   */
+  modelLacksVision(model: string): ApiError {
+    return new ApiError(
+      `Model ${model} does not support image input`,
+      400,
+      'MODEL_LACKS_VISION',
+      'Remove the image attachments or switch to a model with vision support'
+    );
+  },
+
+  /**
+   * Request does not fit the model's context window even after trimming
+   */
+  contextTooLarge(model: string, inputTokens: number, inputLimit: number): ApiError {
+    return new ApiError(
+      `The message and code context are too large for ${model}`,
+      400,
+      'CONTEXT_TOO_LARGE',
+      `About ${inputTokens} input tokens; the model allows ${inputLimit} after reserving room for the reply. Shorten the message, attach less code or pick a model with a larger context window`
+    );
+  },
+
   /**
    * Validation error
    */
@@ -0,0 +1,120 @@
+/**
+ * Minimal .gitignore matcher for imported projects. Supports comments,
+ * negation, directory-only and anchored patterns, `*`, `?`, `[...]` and `**`,
+ * and nested .gitignore files scoped to their directory.
+ */
+
+interface IgnoreRule {
+  /** Directory of the .gitignore the rule came from ('' for the root) */
+  base: string;
+  regex: RegExp;
+  negate: boolean;
+  dirOnly: boolean;
+}
+
+function escapeRegExp(ch: string): string {
+  return /[.*+?^${}()|[\]\\/]/.test(ch) ? `\\${ch}` : ch;
+}
+
+function globToRegExpSource(glob: string): string {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === '*') {
+      if (glob[i + 1] === '*') {
+        // `**/` matches zero or more directories; any other `**` matches everything
+        const slash = glob[i + 2] === '/';
+        source += slash ? '(?:.*/)?' : '.*';
+        i += slash ? 2 : 1;
+      } else {
+        source += '[^/]*';
+      }
+    } else if (ch === '?') {
+      source += '[^/]';
+    } else if (ch === '[') {
+      const end = glob.indexOf(']', i + 2);
+      if (end === -1) {
+        source += '\\[';
+        continue;
+      }
+      const body = glob.slice(i + 1, end).replace(/\\/g, '\\\\');
+      source += `[${body.startsWith('!') ? `^${body.slice(1)}` : body}]`;
+      i = end;
+    } else if (ch === '\\' && i + 1 < glob.length) {
+      source += escapeRegExp(glob[++i]);
+    } else {
+      source += escapeRegExp(ch);
+    }
+  }
+  return source;
+}
+
+/**
+ * Parse one .gitignore file. `base` is its directory relative to the
+ * project root, without a trailing slash.
+ */
+export function parseGitignore(content: string, base = ''): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (const rawLine of content.split(/\r?\n/)) {
+    let line = rawLine.replace(/(?<!\\)\s+$/, '');
+    if (!line || line.startsWith('#')) continue;
+
+    const negate = line.startsWith('!');
+    if (negate) line = line.slice(1);
+    if (line.startsWith('\\#') || line.startsWith('\\!')) line = line.slice(1);
+
+    const dirOnly = line.endsWith('/');
+    if (dirOnly) line = line.slice(0, -1);
+    if (!line) continue;
+
+    // A slash anywhere but the end anchors the pattern to the .gitignore's directory
+    const anchored = line.includes('/');
+    if (line.startsWith('/')) line = line.slice(1);
+
+    const source = globToRegExpSource(line);
+    rules.push({
+      base,
+      regex: new RegExp(anchored ? `^${source}$` : `^(?:.*/)?${source}$`),
+      negate,
+      dirOnly,
+    });
+  }
+  return rules;
+}
+
+export interface IgnoreMatcher {
+  /** Add the rules of a .gitignore in `base` (later, deeper files take precedence) */
+  add(content: string, base?: string): void;
+  /** Whether a path, or any directory containing it, is ignored */
+  ignores(path: string, isDirectory?: boolean): boolean;
+}
+
+export function createIgnoreMatcher(defaults: string[] = []): IgnoreMatcher {
+  const rules: IgnoreRule[] = parseGitignore(defaults.join('\n'));
+
+  const matches = (path: string, isDirectory: boolean): boolean => {
+    let ignored = false;
+    for (const rule of rules) {
+      if (rule.dirOnly && !isDirectory) continue;
+      if (rule.base && !path.startsWith(`${rule.base}/`)) continue;
+      const relative = rule.base ? path.slice(rule.base.length + 1) : path;
+      if (rule.regex.test(relative)) ignored = !rule.negate;
+    }
+    return ignored;
+  };
+
+  return {
+    add(content, base = '') {
+      rules.push(...parseGitignore(content, base));
+    },
+    ignores(path, isDirectory = false) {
+      // Git does not look inside ignored directories, so a file there stays
+      // ignored even if a later rule negates it
+      const parts = path.split('/');
+      for (let i = 1; i < parts.length; i++) {
+        if (matches(parts.slice(0, i).join('/'), true)) return true;
+      }
+      return matches(path, isDirectory);
+    },
+  };
+}
@@ -0,0 +1,108 @@
+/**
+ * Helpers for the branching conversation tree (see MessageTree)
+ *
+ * Trees are treated as immutable: every update returns a new tree.
+ */
+
+import type { Message, MessageTree } from '@/types';
+
+/** `selected` key for top-level messages */
+const ROOT_KEY = 'root';
+
+function selectionKey(parentId: string | null | undefined): string {
+  return parentId ?? ROOT_KEY;
+}
+
+/**
+ * Build a single-branch tree from a linear history
+ */
+export function createMessageTree(messages: Message[] = []): MessageTree {
+  const nodes: Message[] = [];
+  const selected: Record<string, string> = {};
+  let parentId: string | null = null;
+  for (const message of messages) {
+    nodes.push({ ...message, parentId });
+    selected[selectionKey(parentId)] = message.id;
+    parentId = message.id;
+  }
+  return { nodes, selected };
+}
+
+/**
+ * Replies to a message (or top-level messages for null), oldest first
+ */
+export function getChildren(tree: MessageTree, parentId: string | null): Message[] {
+  return tree.nodes.filter((m) => (m.parentId ?? null) === parentId);
+}
+
+/**
+ * All versions of a message, including itself, oldest first
+ */
+export function getSiblings(tree: MessageTree, message: Message): Message[] {
+  return getChildren(tree, message.parentId ?? null);
+}
+
+/**
+ * Follow the selected child from the root. Parents without a valid
+ * selection fall back to their newest child.
+ */
+export function getActivePath(tree: MessageTree): Message[] {
+  const path: Message[] = [];
+  let parentId: string | null = null;
+  while (true) {
+    const children = getChildren(tree, parentId);
+    if (children.length === 0) return path;
+    const selectedId: string | undefined = tree.selected[selectionKey(parentId)];
+    const next: Message = children.find((m) => m.id === selectedId) ?? children[children.length - 1];
+    path.push(next);
+    parentId = next.id;
+  }
+}
+
+/**
+ * Messages from the root down to and including `id`
+ */
+export function getPathTo(tree: MessageTree, id: string): Message[] {
+  const byId = new Map(tree.nodes.map((m) => [m.id, m]));
+  const path: Message[] = [];
+  let current = byId.get(id);
+  while (current) {
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+}
+
+/**
+ * Add a reply to `parentId` and make it the selected branch
+ */
+export function addMessage(tree: MessageTree, message: Message, parentId: string | null): MessageTree {
+  return {
+    nodes: [...tree.nodes, { ...message, parentId }],
+    selected: { ...tree.selected, [selectionKey(parentId)]: message.id },
+  };
+}
+
+/**
+ * Make a message the selected version among its siblings
+ */
+export function selectMessage(tree: MessageTree, id: string): MessageTree {
+  const message = tree.nodes.find((m) => m.id === id);
+  if (!message) return tree;
+  return {
+    ...tree,
+    selected: { ...tree.selected, [selectionKey(message.parentId)]: id },
+  };
+}
+
+/**
+ * Select every message from the root down to `id`, so that it is on the
+ * active path
+ */
+export function selectPathTo(tree: MessageTree, id: string): MessageTree {
+  const path = getPathTo(tree, id);
+  if (path.length === 0) return tree;
+  const selected = { ...tree.selected };
+  for (const message of path) selected[selectionKey(message.parentId)] = message.id;
+  return { ...tree, selected };
+}
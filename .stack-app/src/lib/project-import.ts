@@ -0,0 +1,314 @@
+/**
+ * Import a local folder or zip archive into the code panel as a browsable
+ * project. Files matched by .gitignore (and a few defaults) are skipped, as
+ * are binary files and anything over the size limits.
+ */
+
+import { unzipSync } from 'fflate';
+import { createIgnoreMatcher, type IgnoreMatcher } from './gitignore';
+import { languageFromFilename } from './code-files';
+
+export const IMPORT_LIMITS = {
+  /** Largest single file that is imported */
+  maxFileBytes: 1024 * 1024,
+  /** Total size of imported files */
+  maxTotalBytes: 20 * 1024 * 1024,
+  maxFiles: 2000,
+  /** Largest zip archive accepted */
+  maxArchiveBytes: 50 * 1024 * 1024,
+};
+
+export type ImportLimits = typeof IMPORT_LIMITS;
+
+/** Always skipped, whether or not the project has a .gitignore */
+const DEFAULT_IGNORES = ['.git/', 'node_modules/', '.DS_Store', 'Thumbs.db'];
+
+export interface ProjectFile {
+  /** Path relative to the project root, using `/` */
+  path: string;
+  language: string;
+  content: string;
+}
+
+export interface SkippedFile {
+  path: string;
+  reason: 'too-large' | 'binary' | 'limit';
+}
+
+export interface ImportedProject {
+  name: string;
+  files: ProjectFile[];
+  /** Files left out for size or content reasons */
+  skipped: SkippedFile[];
+  /**
+   * Number of files matched by ignore rules. Ignored directories in a
+   * dropped folder are skipped without being read, so each counts once.
+   */
+  ignoredCount: number;
+}
+
+/** A folder or zip the user picked or dropped */
+export type ProjectSource = FileList | DataTransfer;
+
+interface SourceEntry {
+  path: string;
+  size: number;
+}
+
+/**
+ * Entries found in a source, read in one batch once the ignore rules are known
+ */
+interface SourceListing {
+  entries: SourceEntry[];
+  read: (paths: string[]) => Promise<Map<string, Uint8Array>>;
+  /** Entries already left out by ignore rules while listing */
+  ignoredCount?: number;
+}
+
+export class ProjectImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProjectImportError';
+  }
+}
+
+function isZip(file: File): boolean {
+  return file.type === 'application/zip' || file.type === 'application/x-zip-compressed' || /\.zip$/i.test(file.name);
+}
+
+function listFiles(files: { path: string; file: File }[]): SourceListing {
+  const byPath = new Map(files.map((f) => [f.path, f.file]));
+  return {
+    entries: files.map((f) => ({ path: f.path, size: f.file.size })),
+    async read(paths) {
+      const result = new Map<string, Uint8Array>();
+      for (const path of paths) {
+        const file = byPath.get(path);
+        if (file) result.set(path, new Uint8Array(await file.arrayBuffer()));
+      }
+      return result;
+    },
+  };
+}
+
+async function listZip(file: File, limits: ImportLimits): Promise<SourceListing> {
+  if (file.size > limits.maxArchiveBytes) {
+    throw new ProjectImportError(`${file.name} is larger than ${limits.maxArchiveBytes / (1024 * 1024)}MB`);
+  }
+  const data = new Uint8Array(await file.arrayBuffer());
+  const entries: SourceEntry[] = [];
+  try {
+    // List only; nothing is inflated until the wanted files are known
+    unzipSync(data, {
+      filter: (entry) => {
+        if (!entry.name.endsWith('/')) entries.push({ path: entry.name, size: entry.originalSize });
+        return false;
+      },
+    });
+  } catch {
+    throw new ProjectImportError(`${file.name} is not a valid zip archive`);
+  }
+  return {
+    entries,
+    async read(paths) {
+      const wanted = new Set(paths);
+      const files = unzipSync(data, { filter: (entry) => wanted.has(entry.name) });
+      return new Map(Object.entries(files));
+    },
+  };
+}
+
+function readDirectory(reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> {
+  return new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+}
+
+function readFileEntry(entry: FileSystemFileEntry): Promise<File> {
+  return new Promise((resolve, reject) => entry.file(resolve, reject));
+}
+
+/**
+ * State of a walk through a dropped folder. Ignore rules are applied while
+ * walking, so ignored directories such as node_modules/ are never entered.
+ */
+interface FolderWalk {
+  matcher: IgnoreMatcher;
+  /** Length of the prefix of entry paths that is not part of project paths */
+  strip: number;
+  maxFileBytes: number;
+  files: { path: string; file: File }[];
+  ignoredCount: number;
+}
+
+async function collectEntry(entry: FileSystemEntry, walk: FolderWalk): Promise<void> {
+  const path = entry.fullPath.replace(/^\//, '');
+  const relative = path.slice(walk.strip);
+  if (relative && walk.matcher.ignores(relative, entry.isDirectory)) {
+    walk.ignoredCount++;
+    return;
+  }
+  if (entry.isFile) {
+    walk.files.push({ path, file: await readFileEntry(entry as FileSystemFileEntry) });
+    return;
+  }
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const children: FileSystemEntry[] = [];
+  // readEntries returns results in batches until it yields an empty one
+  for (let batch = await readDirectory(reader); batch.length > 0; batch = await readDirectory(reader)) {
+    children.push(...batch);
+  }
+  // A directory's .gitignore applies to everything below it
+  const gitignore = children.find((child) => child.isFile && child.name === '.gitignore');
+  if (gitignore) {
+    const file = await readFileEntry(gitignore as FileSystemFileEntry);
+    if (file.size <= walk.maxFileBytes) walk.matcher.add(await file.text(), relative);
+  }
+  for (const child of children) await collectEntry(child, walk);
+}
+
+async function listSource(source: ProjectSource, limits: ImportLimits): Promise<SourceListing> {
+  if (source instanceof FileList) {
+    const files = Array.from(source);
+    if (files.length === 1 && isZip(files[0])) return listZip(files[0], limits);
+    // Folder pickers set webkitRelativePath to the path including the folder name
+    return listFiles(files.map((file) => ({ path: file.webkitRelativePath || file.name, file })));
+  }
+
+  // Entries must be taken from the DataTransfer before the drop event ends
+  const entries = Array.from(source.items)
+    .map((item) => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+  const dropped = Array.from(source.files);
+  if (entries.length === 1 && entries[0].isFile && dropped.length === 1 && isZip(dropped[0])) {
+    return listZip(dropped[0], limits);
+  }
+  // A single dropped folder is the project root, as in splitRoot
+  const walk: FolderWalk = {
+    matcher: createIgnoreMatcher(DEFAULT_IGNORES),
+    strip: entries.length === 1 && entries[0].isDirectory ? entries[0].name.length + 1 : 0,
+    maxFileBytes: limits.maxFileBytes,
+    files: [],
+    ignoredCount: 0,
+  };
+  for (const entry of entries) await collectEntry(entry, walk);
+  return { ...listFiles(walk.files), ignoredCount: walk.ignoredCount };
+}
+
+/**
+ * Strip a single top-level folder shared by every path (as in a picked
+ * folder or most zip downloads) and use it as the project name
+ */
+function splitRoot(entries: SourceEntry[]): { name: string | undefined; strip: number } {
+  const first = entries[0]?.path.split('/')[0];
+  const shared = first && entries.every((e) => e.path.startsWith(`${first}/`));
+  return shared ? { name: first, strip: first.length + 1 } : { name: undefined, strip: 0 };
+}
+
+function isBinary(data: Uint8Array): boolean {
+  const sample = data.subarray(0, 8000);
+  for (let i = 0; i < sample.length; i++) {
+    if (sample[i] === 0) return true;
+  }
+  return false;
+}
+
+/**
+ * Read a picked or dropped folder or zip into a project
+ */
+export async function importProject(
+  source: ProjectSource,
+  limits: ImportLimits = IMPORT_LIMITS
+): Promise<ImportedProject> {
+  const listing = await listSource(source, limits);
+  if (listing.entries.length === 0) {
+    throw new ProjectImportError('No files found to import');
+  }
+
+  const { name, strip } = splitRoot(listing.entries);
+  const relative = (path: string) => path.slice(strip);
+
+  // Shallow .gitignore files first so deeper ones take precedence
+  const matcher = createIgnoreMatcher(DEFAULT_IGNORES);
+  const gitignores = listing.entries
+    .filter((e) => /(^|\/)\.gitignore$/.test(relative(e.path)) && e.size <= limits.maxFileBytes)
+    .sort((a, b) => a.path.split('/').length - b.path.split('/').length);
+  const gitignoreData = await listing.read(gitignores.map((e) => e.path));
+  const decoder = new TextDecoder();
+  for (const entry of gitignores) {
+    const data = gitignoreData.get(entry.path);
+    const base = relative(entry.path).split('/').slice(0, -1).join('/');
+    if (data) matcher.add(decoder.decode(data), base);
+  }
+
+  const skipped: SkippedFile[] = [];
+  const wanted: SourceEntry[] = [];
+  let ignoredCount = listing.ignoredCount ?? 0;
+  let totalBytes = 0;
+  for (const entry of listing.entries) {
+    const path = relative(entry.path);
+    if (matcher.ignores(path)) {
+      ignoredCount++;
+    } else if (entry.size > limits.maxFileBytes) {
+      skipped.push({ path, reason: 'too-large' });
+    } else if (wanted.length >= limits.maxFiles || totalBytes + entry.size > limits.maxTotalBytes) {
+      skipped.push({ path, reason: 'limit' });
+    } else {
+      wanted.push(entry);
+      totalBytes += entry.size;
+    }
+  }
+
+  const data = await listing.read(wanted.map((e) => e.path));
+  const files: ProjectFile[] = [];
+  for (const entry of wanted) {
+    const path = relative(entry.path);
+    const bytes = data.get(entry.path);
+    if (!bytes) continue;
+    if (isBinary(bytes)) {
+      skipped.push({ path, reason: 'binary' });
+      continue;
+    }
+    files.push({ path, language: languageFromFilename(path) ?? 'plaintext', content: decoder.decode(bytes) });
+  }
+  files.sort((a, b) => a.path.localeCompare(b.path));
+
+  return { name: name ?? 'project', files, skipped, ignoredCount };
+}
+
+export interface FileTreeNode {
+  name: string;
+  /** Full path; for directories, the path without a trailing slash */
+  path: string;
+  /** Set for directories, sorted with directories first */
+  children?: FileTreeNode[];
+}
+
+/**
+ * Nest project files into directories for the file tree
+ */
+export function buildFileTree(files: ProjectFile[]): FileTreeNode[] {
+  const root: FileTreeNode = { name: '', path: '', children: [] };
+  for (const file of files) {
+    let dir = root;
+    const parts = file.path.split('/');
+    parts.forEach((part, i) => {
+      const path = parts.slice(0, i + 1).join('/');
+      if (i === parts.length - 1) {
+        dir.children!.push({ name: part, path });
+        return;
+      }
+      let child = dir.children!.find((c) => c.children && c.name === part);
+      if (!child) {
+        child = { name: part, path, children: [] };
+        dir.children!.push(child);
+      }
+      dir = child;
+    });
+  }
+
+  const sort = (nodes: FileTreeNode[]): FileTreeNode[] =>
+    nodes
+      .map((n) => (n.children ? { ...n, children: sort(n.children) } : n))
+      .sort((a, b) => Number(!!b.children) - Number(!!a.children) || a.name.localeCompare(b.name));
+  return sort(root.children!);
+}
@@ -0,0 +1,40 @@
+/**
+ * Template variables for prompt presets, written as `{{name}}`
+ */
+
+import type { CodeContext } from '@/types/chat';
+
+export const TEMPLATE_VARIABLES = [
+  { name: 'language', description: 'Language of the attached code' },
+  { name: 'filename', description: 'Name of the attached file' },
+  { name: 'selection', description: 'Highlighted code, if any' },
+] as const;
+
+export type TemplateVariable = (typeof TEMPLATE_VARIABLES)[number]['name'];
+
+/**
+ * Variable values for a request's code context. With several files the
+ * distinct languages and the file names are comma-separated and selections
+ * are joined with blank lines; without code context every value is empty.
+ */
+export function getTemplateValues(codeContexts: CodeContext[] = []): Record<TemplateVariable, string> {
+  const distinct = (values: (string | undefined)[]) =>
+    Array.from(new Set(values.filter((v): v is string => !!v)));
+  return {
+    language: distinct(codeContexts.map((c) => c.language)).join(', '),
+    filename: distinct(codeContexts.map((c) => c.filename)).join(', '),
+    selection: codeContexts
+      .map((c) => c.selectedPortion)
+      .filter(Boolean)
+      .join('\n\n'),
+  };
+}
+
+/**
+ * Replace `{{name}}` placeholders; unknown names are left as written
+ */
+export function renderPromptTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name) ? values[name] : match
+  );
+}
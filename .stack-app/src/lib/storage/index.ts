@@ -0,0 +1,44 @@
+/**
+ * Storage backend selection
+ *
+ * Configure via STORAGE_BACKEND ('memory' | 'json-log', default 'memory')
+ * and STORAGE_DIR (directory for json-log files, default '.data').
+ */
+
+import path from 'path';
+import { createMemoryStorage } from './memory';
+import { createJsonLogStorage } from './json-log';
+import type { RecordStorage, RecordStorageOptions, StorageBackendName, StoredRecord } from './types';
+
+export type { RecordStorage, RecordStorageOptions, RecordMigrator, StorageBackendName, StoredRecord } from './types';
+
+const BACKENDS: readonly StorageBackendName[] = ['memory', 'json-log'];
+
+export function getStorageBackendName(): StorageBackendName {
+  const value = process.env.STORAGE_BACKEND?.trim().toLowerCase();
+  if (!value) return 'memory';
+  if (!BACKENDS.includes(value as StorageBackendName)) {
+    throw new Error(
+      `Unknown STORAGE_BACKEND "${value}". Expected one of: ${BACKENDS.join(', ')}`
+    );
+  }
+  return value as StorageBackendName;
+}
+
+/**
+ * Create the configured storage backend for a record collection
+ */
+export function createStorage<T extends StoredRecord>(
+  options: RecordStorageOptions<T>
+): RecordStorage<T> {
+  switch (getStorageBackendName()) {
+    case 'json-log':
+      return createJsonLogStorage<T>(
+        path.resolve(process.env.STORAGE_DIR || '.data'),
+        options
+      );
+    case 'memory':
+    default:
+      return createMemoryStorage<T>();
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * Append-only JSON log storage backend
+ *
+ * Every mutation is appended as one JSON line and fsynced before returning,
+ * so a crash can at worst leave a torn final line, which is skipped on load.
+ * Anything else unreadable means the file was damaged some other way: the
+ * log is copied aside before it is rewritten, so those lines can still be
+ * recovered by hand. When superseded entries dominate the log it is
+ * compacted into a fresh file that atomically replaces the old one via
+ * rename.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { RecordStorage, RecordStorageOptions, StoredRecord } from './types';
+
+type LogEntry<T> =
+  | { op: 'put'; v: number; record: T }
+  | { op: 'del'; id: string };
+
+/** Do not bother compacting logs shorter than this */
+const MIN_COMPACT_ENTRIES = 200;
+
+function fsyncDir(dir: string): void {
+  // Directory fsync makes the rename durable; not supported on every platform
+  try {
+    const fd = fs.openSync(dir, 'r');
+    try {
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+  } catch {
+    // Best effort
+  }
+}
+
+function writeFileDurable(file: string, data: string): void {
+  const tmp = `${file}.${process.pid}.tmp`;
+  const fd = fs.openSync(tmp, 'w');
+  try {
+    fs.writeSync(fd, data);
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+  fs.renameSync(tmp, file);
+  fsyncDir(path.dirname(file));
+}
+
+export function createJsonLogStorage<T extends StoredRecord>(
+  dir: string,
+  options: RecordStorageOptions<T>
+): RecordStorage<T> {
+  const file = path.join(dir, `${options.name}.jsonl`);
+  const live = new Map<string, T>();
+  let entryCount = 0;
+
+  function append(entry: LogEntry<T>): void {
+    fs.mkdirSync(dir, { recursive: true });
+    const fd = fs.openSync(file, 'a');
+    try {
+      fs.writeSync(fd, JSON.stringify(entry) + '\n');
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    entryCount++;
+    maybeCompact();
+  }
+
+  function compact(): void {
+    const lines = Array.from(live.values()).map((record) =>
+      JSON.stringify({ op: 'put', v: options.schemaVersion, record } satisfies LogEntry<T>)
+    );
+    writeFileDurable(file, lines.length ? lines.join('\n') + '\n' : '');
+    entryCount = lines.length;
+  }
+
+  function maybeCompact(): void {
+    if (entryCount >= MIN_COMPACT_ENTRIES && entryCount > live.size * 2) {
+      compact();
+    }
+  }
+
+  function load(): T[] {
+    live.clear();
+    entryCount = 0;
+    if (!fs.existsSync(file)) return [];
+
+    let needsRewrite = false;
+    const corruptLines: number[] = [];
+    const lines = fs.readFileSync(file, 'utf8').split('\n');
+    lines.forEach((line, i) => {
+      if (!line.trim()) return;
+      let entry: LogEntry<unknown>;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        const isLast = lines.slice(i + 1).every((l) => !l.trim());
+        if (isLast) {
+          console.warn(`[storage] Skipping torn trailing entry at ${file}:${i + 1}`);
+        } else {
+          corruptLines.push(i + 1);
+        }
+        needsRewrite = true;
+        return;
+      }
+      entryCount++;
+
+      if (entry.op === 'del') {
+        live.delete(entry.id);
+        return;
+      }
+
+      if (entry.op === 'put') {
+        let record = entry.record as T;
+        if (entry.v !== options.schemaVersion) {
+          if (!options.migrate) {
+            throw new Error(
+              `No migration from ${options.name} schema v${entry.v} to v${options.schemaVersion}`
+            );
+          }
+          record = options.migrate(entry.record, entry.v);
+          needsRewrite = true;
+        }
+        live.set(record.id, record);
+      }
+    });
+
+    // Compacting drops unreadable lines, so keep the damaged log for recovery
+    if (corruptLines.length > 0) {
+      const backup = `${file}.corrupt-${Date.now()}`;
+      fs.copyFileSync(file, backup);
+      console.error(
+        `[storage] ${file} has unreadable entries at line(s) ${corruptLines.join(', ')}; ` +
+          `loaded the rest and kept the original as ${backup}`
+      );
+    }
+
+    // Persist migrated records and drop corrupt lines so they are not replayed again
+    if (needsRewrite) compact();
+    else maybeCompact();
+
+    return Array.from(live.values());
+  }
+
+  return {
+    backend: 'json-log',
+    load,
+    put(record) {
+      live.set(record.id, record);
+      append({ op: 'put', v: options.schemaVersion, record });
+    },
+    remove(id) {
+      if (!live.delete(id)) return;
+      append({ op: 'del', id });
+    },
+  };
+}
@@ -0,0 +1,15 @@
+/**
+ * In-memory storage backend
+ * Nothing is persisted: data is lost when the server process exits.
+ */
+
+import type { RecordStorage, StoredRecord } from './types';
+
+export function createMemoryStorage<T extends StoredRecord>(): RecordStorage<T> {
+  return {
+    backend: 'memory',
+    load: () => [],
+    put: () => {},
+    remove: () => {},
+  };
+}
@@ -0,0 +1,37 @@
+/**
+ * Storage backend contracts
+ *
+ * Stores keep their working set in memory and hand every mutation to a
+ * backend, which is responsible for making it durable.
+ */
+
+export type StorageBackendName = 'memory' | 'json-log';
+
+export interface StoredRecord {
+  id: string;
+}
+
+/**
+ * Upgrade a record persisted under an older schema version.
+ * Receives the raw record and the version it was written with.
+ */
+export type RecordMigrator<T> = (record: unknown, fromVersion: number) => T;
+
+export interface RecordStorageOptions<T> {
+  /** Collection name, used to derive the on-disk file name */
+  name: string;
+  /** Current schema version written alongside every record */
+  schemaVersion: number;
+  /** Applied to records read back with an older schema version */
+  migrate?: RecordMigrator<T>;
+}
+
+export interface RecordStorage<T extends StoredRecord> {
+  readonly backend: StorageBackendName;
+  /** Read every live record, migrated to the current schema version */
+  load(): T[];
+  /** Insert or replace a record */
+  put(record: T): void;
+  /** Remove a record by id */
+  remove(id: string): void;
+}
@@ -0,0 +1,124 @@
+/**
+ * Client-side decoder for the chat SSE protocol (see StreamEvent in types/chat)
+ */
+
+import type { FinishReason, ModelId, StreamEvent, TokenUsage } from '@/types/chat';
+
+/** Protocol versions this decoder understands */
+const SUPPORTED_VERSIONS = [1];
+
+/**
+ * Raised when the server reports an error event or the stream is malformed
+ */
+export class ChatStreamError extends Error {
+  public readonly code: string;
+  /** Text received before the failure */
+  public readonly partialContent: string;
+
+  constructor(message: string, code: string, partialContent: string = '') {
+    super(message);
+    this.name = 'ChatStreamError';
+    this.code = code;
+    this.partialContent = partialContent;
+  }
+}
+
+/**
+ * Decode SSE frames into StreamEvents. Frames may be split across chunks,
+ * so lines are buffered until complete.
+ */
+export async function* decodeStreamEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<StreamEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      const lines = buffer.split('\n');
+      buffer = done ? '' : lines.pop() ?? '';
+
+      for (const line of lines) {
+        if (!line.startsWith('data:')) continue;
+        const data = line.slice(5).trim();
+        if (!data) continue;
+
+        let event: StreamEvent;
+        try {
+          event = JSON.parse(data);
+        } catch {
+          throw new ChatStreamError('Malformed stream event', 'STREAM_PROTOCOL_ERROR');
+        }
+        if (!SUPPORTED_VERSIONS.includes(event.v)) {
+          throw new ChatStreamError(
+            `Unsupported stream protocol version ${event.v}`,
+            'STREAM_PROTOCOL_ERROR'
+          );
+        }
+        yield event;
+      }
+
+      if (done) break;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+export interface ChatStreamResult {
+  content: string;
+  finishReason: FinishReason;
+  usage?: TokenUsage;
+  model?: ModelId;
+}
+
+export interface ReadChatStreamOptions {
+  /** Called with the accumulated text after every delta */
+  onText?: (text: string) => void;
+  /** Called with every decoded event */
+  onEvent?: (event: StreamEvent) => void;
+}
+
+/**
+ * Read a chat stream to completion.
+ * Throws ChatStreamError if the server reports an error or the stream
+ * ends without a finish event.
+ */
+export async function readChatStream(
+  body: ReadableStream<Uint8Array>,
+  { onText, onEvent }: ReadChatStreamOptions = {}
+): Promise<ChatStreamResult> {
+  let content = '';
+  let usage: TokenUsage | undefined;
+  let model: ModelId | undefined;
+  let error: { message: string; code: string } | null = null;
+
+  for await (const event of decodeStreamEvents(body)) {
+    onEvent?.(event);
+
+    switch (event.type) {
+      case 'start':
+        model = event.model;
+        break;
+      case 'delta':
+        content += event.text;
+        onText?.(content);
+        break;
+      case 'usage':
+        usage = event.usage;
+        break;
+      case 'error':
+        error = { message: event.error, code: event.code };
+        break;
+      case 'finish':
+        if (error) throw new ChatStreamError(error.message, error.code, content);
+        return { content, finishReason: event.reason, usage, model };
+    }
+  }
+
+  throw new ChatStreamError('Stream ended unexpectedly', 'STREAM_INTERRUPTED', content);
+}
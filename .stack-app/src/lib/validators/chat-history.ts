@@ -0,0 +1,230 @@
+/**
+ * Request body validation for the chat history API
+ */
+
+import { Errors } from '@/lib/errors';
+import type { ChatTitleSource, CodeFile, ConversationSummary, Message, MessageTree } from '@/types';
+import { CHAT_MODES } from '@/lib/ai/prompts';
+import type { ChatMode, FinishReason } from '@/types/chat';
+
+const MAX_SUMMARY_LENGTH = 20000;
+
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 40;
+const MAX_FOLDER_LENGTH = 100;
+
+const TITLE_SOURCES: readonly ChatTitleSource[] = ['placeholder', 'generated', 'manual'];
+
+const FINISH_REASONS: readonly FinishReason[] = ['stop', 'length', 'content_filter', 'tool_use', 'error'];
+
+/**
+ * Validate and normalize a stored message list.
+ * Throws a validation ApiError naming the offending field.
+ */
+export function parseMessages(value: unknown): Message[] {
+  if (!Array.isArray(value)) {
+    throw Errors.validation('messages must be an array');
+  }
+  return value.map((m, i) => {
+    if (!m || typeof m !== 'object') {
+      throw Errors.validation(`messages[${i}] must be an object`);
+    }
+    const msg = m as Record<string, unknown>;
+    if (typeof msg.role !== 'string' || !['user', 'assistant', 'system'].includes(msg.role)) {
+      throw Errors.validation(`messages[${i}].role must be 'user', 'assistant', or 'system'`);
+    }
+    if (typeof msg.content !== 'string') {
+      throw Errors.validation(`messages[${i}].content must be a string`);
+    }
+    const out: Message = {
+      id: typeof msg.id === 'string' ? msg.id : `msg-${Date.now()}-${i}`,
+      role: msg.role as Message['role'],
+      content: msg.content,
+      timestamp: msg.timestamp
+        ? new Date(typeof msg.timestamp === 'string' ? msg.timestamp : Date.now())
+        : new Date(),
+    };
+    if (typeof msg.parentId === 'string' || msg.parentId === null) {
+      out.parentId = msg.parentId;
+    }
+    if (Array.isArray(msg.codeContexts)) {
+      const contexts = msg.codeContexts.filter((c: unknown) => !!c && typeof c === 'object');
+      if (contexts.length > 0) out.codeContexts = contexts as NonNullable<Message['codeContexts']>;
+    }
+    if (Array.isArray(msg.attachments) && msg.attachments.length > 0) {
+      out.attachments = msg.attachments.map((a: unknown) => {
+        if (!a || typeof a !== 'object') return null;
+        const att = a as Record<string, unknown>;
+        if (typeof att.type !== 'string' || !['image', 'file'].includes(att.type)) return null;
+        if (typeof att.name !== 'string' || typeof att.data !== 'string') return null;
+        return {
+          type: att.type as 'image' | 'file',
+          name: att.name,
+          data: att.data,
+          mimeType: typeof att.mimeType === 'string' ? att.mimeType : undefined,
+        };
+      }).filter(Boolean) as Message['attachments'];
+    }
+    if (typeof msg.finishReason === 'string' && FINISH_REASONS.includes(msg.finishReason as FinishReason)) {
+      out.finishReason = msg.finishReason as FinishReason;
+    }
+    if (typeof msg.mode === 'string' && CHAT_MODES.includes(msg.mode as ChatMode)) {
+      out.mode = msg.mode as ChatMode;
+    }
+    if (msg.stopped === true) {
+      out.stopped = true;
+    }
+    return out;
+  });
+}
+
+/**
+ * Validate a conversation tree. Every parentId must point at an earlier
+ * node, which also rules out cycles.
+ */
+export function parseMessageTree(value: unknown): MessageTree {
+  if (!value || typeof value !== 'object') {
+    throw Errors.validation('tree must be an object');
+  }
+  const t = value as Record<string, unknown>;
+
+  const nodes = parseMessages(t.nodes).map((m) => ({ ...m, parentId: m.parentId ?? null }));
+  const seen = new Set<string>();
+  nodes.forEach((m, i) => {
+    if (seen.has(m.id)) {
+      throw Errors.validation(`tree.nodes[${i}].id is duplicated`);
+    }
+    if (m.parentId !== null && !seen.has(m.parentId)) {
+      throw Errors.validation(`tree.nodes[${i}].parentId must reference an earlier node`);
+    }
+    seen.add(m.id);
+  });
+
+  if (!t.selected || typeof t.selected !== 'object' || Array.isArray(t.selected)) {
+    throw Errors.validation('tree.selected must be an object');
+  }
+  const selected: Record<string, string> = {};
+  for (const [parentId, childId] of Object.entries(t.selected)) {
+    if (typeof childId !== 'string') {
+      throw Errors.validation(`tree.selected.${parentId} must be a string`);
+    }
+    selected[parentId] = childId;
+  }
+
+  return { nodes, selected };
+}
+
+/**
+ * Validate the files pinned to a chat's code panel
+ */
+export function parseCodeFiles(value: unknown): CodeFile[] {
+  if (!Array.isArray(value)) {
+    throw Errors.validation('files must be an array');
+  }
+  return value.map((f, i) => {
+    if (!f || typeof f !== 'object') {
+      throw Errors.validation(`files[${i}] must be an object`);
+    }
+    const file = f as Record<string, unknown>;
+    for (const key of ['id', 'name', 'language', 'content'] as const) {
+      if (typeof file[key] !== 'string') {
+        throw Errors.validation(`files[${i}].${key} must be a string`);
+      }
+    }
+    if (file.revision !== undefined && typeof file.revision !== 'string') {
+      throw Errors.validation(`files[${i}].revision must be a string`);
+    }
+    return {
+      id: file.id as string,
+      name: file.name as string,
+      language: file.language as string,
+      content: file.content as string,
+      ...(typeof file.revision === 'string' && { revision: file.revision }),
+    };
+  });
+}
+
+export function parseTitleSource(value: unknown): ChatTitleSource {
+  if (typeof value !== 'string' || !TITLE_SOURCES.includes(value as ChatTitleSource)) {
+    throw Errors.validation(`titleSource must be one of: ${TITLE_SOURCES.join(', ')}`);
+  }
+  return value as ChatTitleSource;
+}
+
+/**
+ * Validate a conversation summary sent by the client, e.g. after an edit.
+ * The update time is set here.
+ */
+export function parseConversationSummary(value: unknown): ConversationSummary {
+  if (!value || typeof value !== 'object') {
+    throw Errors.validation('summary must be an object or null');
+  }
+  const summary = value as Record<string, unknown>;
+  if (typeof summary.content !== 'string' || !summary.content.trim()) {
+    throw Errors.validation('summary.content must be a non-empty string');
+  }
+  if (summary.content.length > MAX_SUMMARY_LENGTH) {
+    throw Errors.validation(`summary.content must be at most ${MAX_SUMMARY_LENGTH} characters`);
+  }
+  if (typeof summary.throughMessageId !== 'string' || !summary.throughMessageId) {
+    throw Errors.validation('summary.throughMessageId must be a non-empty string');
+  }
+  if (!Number.isInteger(summary.messageCount) || (summary.messageCount as number) < 1) {
+    throw Errors.validation('summary.messageCount must be a positive integer');
+  }
+  return {
+    content: summary.content.trim(),
+    throughMessageId: summary.throughMessageId,
+    messageCount: summary.messageCount as number,
+    ...(summary.edited === true && { edited: true }),
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Normalize a tag as stored and matched: trimmed, single spaces, lowercase
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Validate a chat's tags. Tags are normalized, and empty and duplicate
+ * ones dropped.
+ */
+export function parseTags(value: unknown): string[] {
+  if (!Array.isArray(value)) {
+    throw Errors.validation('tags must be an array');
+  }
+  const tags: string[] = [];
+  value.forEach((t, i) => {
+    if (typeof t !== 'string') {
+      throw Errors.validation(`tags[${i}] must be a string`);
+    }
+    const tag = normalizeTag(t);
+    if (tag.length > MAX_TAG_LENGTH) {
+      throw Errors.validation(`tags[${i}] must be at most ${MAX_TAG_LENGTH} characters`);
+    }
+    if (tag && !tags.includes(tag)) tags.push(tag);
+  });
+  if (tags.length > MAX_TAGS) {
+    throw Errors.validation(`tags must have at most ${MAX_TAGS} entries`);
+  }
+  return tags;
+}
+
+/**
+ * Validate a folder name. Blank names take the chat out of its folder,
+ * so they come back as null.
+ */
+export function parseFolder(value: unknown): string | null {
+  if (value === null) return null;
+  if (typeof value !== 'string') {
+    throw Errors.validation('folder must be a string or null');
+  }
+  const folder = value.trim().replace(/\s+/g, ' ');
+  if (folder.length > MAX_FOLDER_LENGTH) {
+    throw Errors.validation(`folder must be at most ${MAX_FOLDER_LENGTH} characters`);
+  }
+  return folder || null;
+}
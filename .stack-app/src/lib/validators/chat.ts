@@ -3,30 +3,112 @@
  */
 
 import { z } from 'zod';
-import type { ChatRequest, ModelId } from '@/types/chat';
+import { getProviderForModel, isSupportedModel, listModels } from '@/lib/ai/registry';
+import { CHAT_MODES } from '@/lib/ai/prompts';
+import type { ChatMode, ChatRequest, Message, ModelId, ProviderId } from '@/types/chat';
 
 /**
- * Supported model IDs
+ * Supported model IDs, derived from the provider registry
  */
-export const SUPPORTED_MODELS = ['claude-3-5-sonnet', 'gpt-4o', 'gpt-4o-mini'] as const;
+export const SUPPORTED_MODELS: readonly ModelId[] = listModels().map((m) => m.id);
 
 /**
- * Message schema
+ * Image types accepted by every vision-capable provider
+ */
+export const SUPPORTED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'] as const;
+
+/**
+ * Maximum decoded size of a single image
+ */
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+const MAX_IMAGES_PER_MESSAGE = 10;
+
+/**
+ * Maximum number of files in one request's code context
+ */
+export const MAX_CODE_CONTEXT_FILES = 20;
+
+/**
+ * Combined size of all code context (full code plus selections), in characters
+ */
+export const MAX_CODE_CONTEXT_CHARS = 500000;
+
+function base64DecodedSize(data: string): number {
+  const padding = data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0;
+  return Math.floor((data.length * 3) / 4) - padding;
+}
+
+/**
+ * Image attachment schema
  */
-export const messageSchema = z.object({
-  role: z.enum(['user', 'assistant']),
-  content: z.string().min(1, 'Message content cannot be empty').max(100000, 'Message too long'),
+export const imageSchema = z.object({
+  mimeType: z.enum(SUPPORTED_IMAGE_TYPES, {
+    message: `Unsupported image type. Expected one of: ${SUPPORTED_IMAGE_TYPES.join(', ')}`,
+  }),
+  data: z
+    .string()
+    .min(1, 'Image data cannot be empty')
+    .regex(/^[A-Za-z0-9+/]+={0,2}$/, 'Image data must be base64-encoded')
+    .refine((data) => base64DecodedSize(data) <= MAX_IMAGE_BYTES, {
+      message: `Image exceeds ${MAX_IMAGE_BYTES / (1024 * 1024)}MB limit`,
+    }),
+  name: z.string().max(500, 'Image name too long').optional(),
 });
 
+/**
+ * Message schema
+ */
+export const messageSchema = z
+  .object({
+    role: z.enum(['user', 'assistant']),
+    content: z.string().min(1, 'Message content cannot be empty').max(100000, 'Message too long'),
+    images: z.array(imageSchema).max(MAX_IMAGES_PER_MESSAGE, 'Too many images in one message').optional(),
+  })
+  .refine((msg) => msg.role === 'user' || !msg.images?.length, {
+    message: 'Only user messages can include images',
+    path: ['images'],
+  });
+
 /**
  * Code context schema
  */
-export const codeContextSchema = z.object({
-  fullCode: z.string().min(1, 'Code cannot be empty').max(500000, 'Code too long'),
-  selectedPortion: z.string().max(100000, 'Selected portion too long').optional(),
-  language: z.string().min(1, 'Language is required').max(50, 'Language name too long'),
-  filename: z.string().max(500, 'Filename too long').optional(),
-});
+export const codeContextSchema = z
+  .object({
+    fullCode: z.string().min(1, 'Code cannot be empty').max(500000, 'Code too long'),
+    selectedPortion: z.string().max(100000, 'Selected portion too long').optional(),
+    language: z.string().min(1, 'Language is required').max(50, 'Language name too long'),
+    filename: z.string().max(500, 'Filename too long').optional(),
+    startLine: z.number().int().positive().optional(),
+    endLine: z.number().int().positive().optional(),
+  })
+  .refine((ctx) => (ctx.startLine === undefined) === (ctx.endLine === undefined), {
+    message: 'startLine and endLine must be given together',
+    path: ['endLine'],
+  })
+  .refine((ctx) => ctx.startLine === undefined || ctx.endLine! >= ctx.startLine, {
+    message: 'endLine must not be before startLine',
+    path: ['endLine'],
+  });
+
+/**
+ * Code context for a request: one or more files. A single object (the
+ * original single-file shape) is accepted and treated as a list of one.
+ */
+export const codeContextListSchema = z
+  .preprocess(
+    (value) => (value === undefined || Array.isArray(value) ? value : [value]),
+    z
+      .array(codeContextSchema)
+      .min(1, 'Code context cannot be empty')
+      .max(MAX_CODE_CONTEXT_FILES, `Too many files in code context (max ${MAX_CODE_CONTEXT_FILES})`)
+  )
+  .refine(
+    (contexts) =>
+      contexts.reduce((sum, ctx) => sum + ctx.fullCode.length + (ctx.selectedPortion?.length ?? 0), 0) <=
+      MAX_CODE_CONTEXT_CHARS,
+    { message: `Code context exceeds ${MAX_CODE_CONTEXT_CHARS} characters in total` }
+  );
 
 /**
  * Chat request schema
@@ -36,8 +118,17 @@ export const chatRequestSchema = z.object({
     .array(messageSchema)
     .min(1, 'At least one message is required')
     .max(100, 'Too many messages'),
-  model: z.enum(SUPPORTED_MODELS),
-  codeContext: codeContextSchema.optional(),
+  model: z.string().refine(isSupportedModel, {
+    message: `Unsupported model. Expected one of: ${SUPPORTED_MODELS.join(', ')}`,
+  }),
+  mode: z
+    .enum(CHAT_MODES as [ChatMode, ...ChatMode[]], {
+      message: `Unsupported mode. Expected one of: ${CHAT_MODES.join(', ')}`,
+    })
+    .default('chat'),
+  presetId: z.string().min(1).max(100, 'Preset ID too long').optional(),
+  codeContext: codeContextListSchema.optional(),
+  summary: z.string().max(20000, 'Summary too long').optional(),
   stream: z.boolean().default(true),
 });
 
@@ -70,22 +161,30 @@ export function validateChatRequest(body: unknown): ChatValidationResult {
 }
 
 /**
- * Check if a model is Claude-based
+ * Get the provider for a model
  */
-export function isClaudeModel(model: ModelId): boolean {
-  return model.startsWith('claude');
+export function getModelProvider(model: ModelId): ProviderId | undefined {
+  return getProviderForModel(model)?.id;
 }
 
 /**
- * Check if a model is OpenAI-based
+ * Check if the newest user message carries images. Earlier ones are out of
+ * the user's hands, so they are dropped for models without vision instead
+ * (see omitImages).
  */
-export function isOpenAIModel(model: ModelId): boolean {
-  return model.startsWith('gpt');
+export function hasImageInput(request: ChatRequest): boolean {
+  const latest = [...request.messages].reverse().find((m) => m.role === 'user');
+  return (latest?.images?.length ?? 0) > 0;
 }
 
 /**
- * Get the provider for a model
+ * Replace the images in `messages` with a note naming them, for models
+ * that cannot read images
  */
-export function getModelProvider(model: ModelId): 'anthropic' | 'openai' {
-  return isClaudeModel(model) ? 'anthropic' : 'openai';
+export function omitImages(messages: Message[]): Message[] {
+  return messages.map((m) => {
+    if (!m.images?.length) return m;
+    const names = m.images.map((image, i) => image.name || `image ${i + 1}`).join(', ');
+    return { role: m.role, content: `${m.content}\n\n[Images not shown to this model: ${names}]` };
+  });
 }
@@ -0,0 +1,65 @@
+/**
+ * Request body validation for the prompt presets API
+ */
+
+import { Errors } from '@/lib/errors';
+import type { CreatePresetBody, UpdatePresetBody } from '@/types/prompts';
+
+const MAX_NAME_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 500;
+const MAX_CONTENT_LENGTH = 20000;
+
+function parseName(value: unknown): string {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw Errors.validation('name must be a non-empty string');
+  }
+  if (value.trim().length > MAX_NAME_LENGTH) {
+    throw Errors.validation(`name must be at most ${MAX_NAME_LENGTH} characters`);
+  }
+  return value.trim();
+}
+
+function parseDescription(value: unknown): string {
+  if (typeof value !== 'string') {
+    throw Errors.validation('description must be a string');
+  }
+  if (value.length > MAX_DESCRIPTION_LENGTH) {
+    throw Errors.validation(`description must be at most ${MAX_DESCRIPTION_LENGTH} characters`);
+  }
+  return value.trim();
+}
+
+function parseContent(value: unknown): string {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw Errors.validation('content must be a non-empty string');
+  }
+  if (value.length > MAX_CONTENT_LENGTH) {
+    throw Errors.validation(`content must be at most ${MAX_CONTENT_LENGTH} characters`);
+  }
+  return value;
+}
+
+function asObject(body: unknown): Record<string, unknown> {
+  if (!body || typeof body !== 'object') {
+    throw Errors.validation('Request body must be an object');
+  }
+  return body as Record<string, unknown>;
+}
+
+export function validateCreatePresetBody(body: unknown): CreatePresetBody {
+  const b = asObject(body);
+  return {
+    name: parseName(b.name),
+    content: parseContent(b.content),
+    ...(b.description !== undefined && { description: parseDescription(b.description) }),
+  };
+}
+
+export function validateUpdatePresetBody(body: unknown): UpdatePresetBody {
+  const b = asObject(body);
+  const result: UpdatePresetBody = {};
+  if (b.name !== undefined) result.name = parseName(b.name);
+  if (b.description !== undefined) result.description = parseDescription(b.description);
+  if (b.content !== undefined) result.content = parseContent(b.content);
+  return result;
+}
@@ -2,6 +2,8 @@
  * API request/response type definitions
  */
 
+import type { ModelId, ModelInfo, ProviderId } from './chat';
+
 export interface ApiErrorResponse {
   error: string;
   code: string;
@@ -15,10 +17,8 @@ export interface ApiSuccessResponse<T> {
 export interface HealthCheckResponse {
   status: 'healthy' | 'degraded' | 'unhealthy';
   timestamp: string;
-  models: {
-    claude: boolean;
-    openai: boolean;
-  };
+  /** Configured status per registered provider ID */
+  models: Record<string, boolean>;
   version: string;
 }
 
@@ -27,3 +27,23 @@ export interface RateLimitInfo {
   remaining: number;
   resetAt: number;
 }
+
+export interface ModelCatalogEntry extends ModelInfo {
+  /** Whether the model's provider has credentials/endpoint configured */
+  configured: boolean;
+}
+
+export interface ProviderStatus {
+  id: ProviderId;
+  name: string;
+  configured: boolean;
+}
+
+export interface ModelsResponse {
+  providers: ProviderStatus[];
+  models: ModelCatalogEntry[];
+  /** Model to use when a chat has none selected; null if nothing is configured */
+  defaultModel: ModelId | null;
+  /** Max tokens requested for a reply (MAX_TOKENS), capped per model by its output limit */
+  maxTokens: number;
+}
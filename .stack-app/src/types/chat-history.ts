@@ -3,13 +3,71 @@
  * Used by History Chat API and Frontend
  */
 
-import type { Message } from './index';
+import type { CodeFile, Message } from './index';
+import type { ModelId } from './chat';
+
+/**
+ * All versions of a conversation. Regenerated replies and edited messages
+ * are kept as siblings that share a parent; `selected` picks which sibling
+ * is shown, and following it from the root yields the active path.
+ */
+export interface MessageTree {
+  /** Every message in the chat; parents always precede their children */
+  nodes: Message[];
+  /** Selected child ID per parent message ID ('root' for top-level messages) */
+  selected: Record<string, string>;
+}
+
+/**
+ * Where a chat's title came from. Only manual titles are kept when a
+ * placeholder or generated title is set later; chats without a source
+ * have a placeholder.
+ */
+export type ChatTitleSource = 'placeholder' | 'generated' | 'manual';
+
+/**
+ * Condensed version of the older part of a conversation. When the chat has
+ * auto-summarization on, it is sent in place of the messages it covers.
+ */
+export interface ConversationSummary {
+  content: string;
+  /** Last message on the active path that the summary covers */
+  throughMessageId: string;
+  /** Number of messages it covers */
+  messageCount: number;
+  /** Whether the user edited the generated text */
+  edited?: boolean;
+  updatedAt: string;  // ISO 8601
+}
 
 export interface ChatSession {
   id: string;
   title: string;
+  titleSource?: ChatTitleSource;
+  /** Active path through `tree`, oldest first */
   messages: Message[];
+  tree: MessageTree;
+  /** Files pinned to the code panel for this chat */
+  files: CodeFile[];
+  /** Model selected for this chat; falls back to the catalog default */
+  model?: ModelId;
+  /** Prompt preset selected for this chat; unset uses the built-in prompt */
+  presetId?: string;
+  /** Keep older turns condensed into `summary` as the chat grows */
+  autoSummarize?: boolean;
+  summary?: ConversationSummary;
+  /** Labels for filtering the chat list; lowercase, no duplicates */
+  tags?: string[];
+  /** Folder (project) the chat is filed under; unset for unfiled chats */
+  folder?: string;
+  /** Listed above all other chats */
+  pinned?: boolean;
+  /** Hidden from the chat list but kept, searchable and restorable */
+  archived?: boolean;
+  /** Set while the chat is in the trash; it is purged once retention runs out */
+  deletedAt?: string;  // ISO 8601
   createdAt: string;  // ISO 8601
+  /** Last change to the conversation; filing a chat away does not count */
   updatedAt: string;  // ISO 8601
 }
 
@@ -19,14 +77,155 @@ export interface ChatListItem {
   createdAt: string;
   updatedAt: string;
   messageCount: number;
+  model?: ModelId;
+  tags?: string[];
+  folder?: string;
+  pinned?: boolean;
+  archived?: boolean;
+  /** Some message carries code context, or files are pinned to the chat */
+  hasCodeContext: boolean;
+}
+
+export type ChatSortField = 'updated' | 'created' | 'title';
+
+export type SortOrder = 'asc' | 'desc';
+
+/** Position in a sorted chat list: where the last item seen sorts */
+export interface ChatListCursor {
+  /** Pinned chats come before all others, whatever the order */
+  pinned: boolean;
+  key: string;
+  id: string;
+}
+
+/**
+ * Sorting and filters for GET /api/chats. `from` and `to` bound the date
+ * the list is sorted by (the update date when sorting by title). Archived
+ * chats are only listed when `archived` is true, and then on their own.
+ */
+export interface ChatListQuery {
+  sort?: ChatSortField;
+  /** Default: newest first for dates, A to Z for titles */
+  order?: SortOrder;
+  from?: string;  // ISO 8601, inclusive
+  to?: string;  // ISO 8601, exclusive
+  model?: ModelId;
+  tag?: string;
+  folder?: string;
+  hasCodeContext?: boolean;
+  archived?: boolean;
+}
+
+export interface ChatListResponse {
+  chats: ChatListItem[];
+  /** Pass as `cursor` to get the next page; null on the last page */
+  nextCursor: string | null;
+  /** Chats matching the filters, across all pages */
+  total: number;
+}
+
+/** A chat in the trash, restorable until `purgeAt` */
+export interface TrashedChat extends ChatListItem {
+  deletedAt: string;  // ISO 8601
+  purgeAt: string;  // ISO 8601
+}
+
+export interface ChatTrashResponse {
+  /** Most recently deleted first */
+  chats: TrashedChat[];
+  /** Days a chat stays in the trash */
+  retentionDays: number;
+}
+
+/** A folder or tag in use, with the number of chats that have it */
+export interface ChatLabelCount {
+  name: string;
+  count: number;
+}
+
+/** Folders and tags of the chats that are not archived, by name */
+export interface ChatLabelsResponse {
+  folders: ChatLabelCount[];
+  tags: ChatLabelCount[];
 }
 
 export interface CreateChatBody {
   title?: string;
+  titleSource?: ChatTitleSource;
+  /** Linear history; ignored when `tree` is given */
   messages?: Message[];
+  tree?: MessageTree;
+  files?: CodeFile[];
+  model?: ModelId;
+  presetId?: string;
+  tags?: string[];
+  folder?: string;
 }
 
 export interface UpdateChatBody {
   title?: string;
+  /** Source of `title` (default 'manual') */
+  titleSource?: ChatTitleSource;
+  /** Replaces the whole conversation with a linear history */
   messages?: Message[];
+  tree?: MessageTree;
+  files?: CodeFile[];
+  model?: ModelId;
+  /** null switches the chat back to the built-in prompt */
+  presetId?: string | null;
+  autoSummarize?: boolean;
+  /** Replaces the summary (e.g. after the user edits it); null removes it */
+  summary?: ConversationSummary | null;
+  /** Replaces all tags */
+  tags?: string[];
+  /** null takes the chat out of its folder */
+  folder?: string | null;
+  pinned?: boolean;
+  /** Archiving a chat also unpins it */
+  archived?: boolean;
+}
+
+/** Part of a chat a search hit was found in */
+export type ChatSearchField = 'title' | 'message' | 'file';
+
+export interface ChatSearchHit {
+  chatId: string;
+  chatTitle: string;
+  field: ChatSearchField;
+  /** Message that matched, or that the matching files were attached to */
+  messageId?: string;
+  role?: Message['role'];
+  /** Matching text with whitespace collapsed, shortened around the match */
+  snippet: string;
+  /** [start, end) ranges of the matched words within `snippet` */
+  highlights: [number, number][];
+  score: number;
+  updatedAt: string;
+}
+
+export interface ChatSearchResponse {
+  query: string;
+  hits: ChatSearchHit[];
+}
+
+/** A chat about the same things as another, by embedding similarity */
+export interface SimilarChat {
+  id: string;
+  title: string;
+  updatedAt: string;
+  /** Cosine similarity, higher is closer */
+  score: number;
+}
+
+/** An earlier answer to a question that resembles the one being written */
+export interface RelatedAnswer {
+  chatId: string;
+  chatTitle: string;
+  questionId: string;
+  /** Start of the past question, whitespace collapsed */
+  question: string;
+  answerId: string;
+  /** Start of its answer, whitespace collapsed */
+  answer: string;
+  score: number;
 }
@@ -2,13 +2,49 @@
  * Chat-related type definitions
  */
 
-export type ModelId = 'claude-3-5-sonnet' | 'gpt-4o' | 'gpt-4o-mini';
+/**
+ * Model identifier as exposed by the provider registry (see lib/ai/registry)
+ */
+export type ModelId = string;
+
+/**
+ * Provider identifier, e.g. 'anthropic' or 'openai'
+ */
+export type ProviderId = string;
+
+export interface ModelInfo {
+  /** Our model ID, sent as ChatRequest.model */
+  id: ModelId;
+  /** Provider that serves this model */
+  provider: ProviderId;
+  /** Human-readable name */
+  label: string;
+  /** Model ID sent to the provider API */
+  upstreamId: string;
+  /** Maximum input + output tokens */
+  contextWindow: number;
+  /** Maximum tokens the model can generate in one response */
+  maxOutputTokens: number;
+  /** Whether the model accepts image input */
+  vision: boolean;
+}
 
 export type MessageRole = 'user' | 'assistant';
 
+export type ImageMimeType = 'image/png' | 'image/jpeg' | 'image/gif' | 'image/webp';
+
+export interface ImageInput {
+  mimeType: ImageMimeType;
+  /** Base64-encoded image bytes, without a data: URL prefix */
+  data: string;
+  name?: string;
+}
+
 export interface Message {
   role: MessageRole;
   content: string;
+  /** Images sent alongside a user message (requires a vision model) */
+  images?: ImageInput[];
 }
 
 export interface CodeContext {
@@ -20,22 +56,70 @@ export interface CodeContext {
   language: string;
   /** Optional filename for context */
   filename?: string;
+  /** 1-based line range of `selectedPortion` within `fullCode` */
+  startLine?: number;
+  endLine?: number;
 }
 
+/**
+ * What the assistant is asked to do; each mode has its own system prompt
+ * (see lib/ai/prompts)
+ */
+export type ChatMode = 'chat' | 'explain' | 'review' | 'refactor' | 'write-tests' | 'find-bugs';
+
 export interface ChatRequest {
   messages: Message[];
   model: ModelId;
-  codeContext?: CodeContext;
+  /** Task mode (default: 'chat') */
+  mode?: ChatMode;
+  /** Prompt preset to use instead of the built-in base prompt */
+  presetId?: string;
+  /** Files or selections the conversation refers to, in the order given */
+  codeContext?: CodeContext[];
+  /** Summary of earlier messages, sent in place of them */
+  summary?: string;
   /** Enable streaming response (default: true) */
   stream?: boolean;
 }
 
-export interface StreamChunk {
-  text: string;
+/**
+ * Why the model stopped generating
+ * - stop: natural end of the reply (or a stop sequence)
+ * - length: hit the max output tokens limit, the reply is truncated
+ * - content_filter: the provider refused or filtered the reply
+ * - tool_use: the model requested a tool call
+ * - error: the stream failed part-way
+ */
+export type FinishReason = 'stop' | 'length' | 'content_filter' | 'tool_use' | 'error';
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
 }
 
-export interface ChatCompletionResponse {
+/**
+ * Version of the chat SSE event schema, sent with every event
+ */
+export type StreamProtocolVersion = 1;
+
+/**
+ * Events sent by POST /api/chat when streaming, one JSON object per SSE
+ * `data:` line. A stream always ends with a `finish` event, preceded by
+ * an `error` event when it fails part-way.
+ */
+export type StreamEvent =
+  | { v: StreamProtocolVersion; type: 'start'; model: ModelId; provider: ProviderId }
+  | { v: StreamProtocolVersion; type: 'delta'; text: string }
+  | { v: StreamProtocolVersion; type: 'usage'; usage: TokenUsage }
+  | { v: StreamProtocolVersion; type: 'finish'; reason: FinishReason }
+  | { v: StreamProtocolVersion; type: 'error'; error: string; code: string };
+
+export interface CompletionResult {
   content: string;
+  finishReason: FinishReason;
+  usage?: TokenUsage;
+}
+
+export interface ChatCompletionResponse extends CompletionResult {
   model: ModelId;
-  finishReason: 'stop' | 'length' | 'error';
 }
@@ -1,3 +1,5 @@
+import type { ChatMode, FinishReason } from './chat';
+
 export interface Attachment {
   type: 'image' | 'file';
   name: string;
@@ -10,17 +12,36 @@ export interface Message {
   role: 'user' | 'assistant' | 'system';
   content: string;
   timestamp: Date;
-  codeContext?: CodeContext;
+  /** Message this one replies to; null for the first message of a chat */
+  parentId?: string | null;
+  /** Files or selections sent along with a user message */
+  codeContexts?: CodeContext[];
+  /** Task mode a user message was sent with, when not plain chat */
+  mode?: ChatMode;
   attachments?: Attachment[];
+  /** Why an assistant reply ended, e.g. 'length' when it was truncated */
+  finishReason?: FinishReason;
+  /** Set when the user stopped generation; content is the partial reply */
+  stopped?: boolean;
 }
 
 export interface CodeContext {
+  /** ID of the code panel file the selection was taken from */
+  fileId?: string;
   fileName: string;
   language: string;
   selectedCode: string;
   startLine: number;
   endLine: number;
+  /** 0-based offset of the selection within `startLine` */
+  startColumn?: number;
+  /** 0-based exclusive offset of the selection end within `endLine` */
+  endColumn?: number;
+  /** The whole file was added rather than a selection */
+  wholeFile?: boolean;
   initialMessage?: string;
+  /** Task mode to send `initialMessage` with */
+  mode?: ChatMode;
 }
 
 export interface CodeFile {
@@ -28,6 +49,8 @@ export interface CodeFile {
   name: string;
   language: string;
   content: string;
+  /** Revised content suggested by the assistant, pending review */
+  revision?: string;
 }
 
 export type KeyboardShortcut = {
@@ -43,4 +66,27 @@ export type KeyboardShortcut = {
 export type Theme = 'light' | 'dark' | 'system';
 
 // Re-export chat history types for convenience
-export type { ChatSession, ChatListItem, CreateChatBody, UpdateChatBody } from './chat-history';
+export type {
+  ChatSession,
+  ChatListCursor,
+  ChatLabelCount,
+  ChatLabelsResponse,
+  ChatListItem,
+  ChatListQuery,
+  ChatListResponse,
+  ChatSearchField,
+  ChatSearchHit,
+  ChatSearchResponse,
+  ChatSortField,
+  ChatTitleSource,
+  ChatTrashResponse,
+  ConversationSummary,
+  CreateChatBody,
+  UpdateChatBody,
+  MessageTree,
+  RelatedAnswer,
+  SimilarChat,
+  SortOrder,
+  TrashedChat,
+} from './chat-history';
+export type { PromptPreset, CreatePresetBody, UpdatePresetBody } from './prompts';
@@ -0,0 +1,30 @@
+/**
+ * Prompt preset type definitions
+ * Used by the Prompts API and Frontend
+ */
+
+/**
+ * A named system prompt that replaces the built-in base prompt for the chats
+ * that select it. `content` may use template variables such as
+ * `{{language}}`, `{{filename}}` and `{{selection}}` (see lib/prompt-template).
+ */
+export interface PromptPreset {
+  id: string;
+  name: string;
+  description?: string;
+  content: string;
+  createdAt: string;  // ISO 8601
+  updatedAt: string;  // ISO 8601
+}
+
+export interface CreatePresetBody {
+  name: string;
+  description?: string;
+  content: string;
+}
+
+export interface UpdatePresetBody {
+  name?: string;
+  description?: string;
+  content?: string;
+}